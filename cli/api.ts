@@ -0,0 +1,152 @@
+import { io, type Socket } from "socket.io-client";
+import { api } from "@shared/routes";
+import { WS_EVENTS, type RegisterTunnelPayload, type SubscribeAck } from "@shared/schema";
+import { DEFAULT_SERVER, loadConfig, updateConfig } from "./config";
+
+// Expected failures: printed without a stack trace
+export class CliError extends Error {}
+
+export class ApiError extends CliError {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+let serverOverride: string | undefined;
+
+// --server beats $TESTWEBHOOK_SERVER, which beats the config file
+export function useServer(url: string | undefined): void {
+  serverOverride = url;
+}
+
+export function serverUrl(): string {
+  const url = serverOverride || process.env.TESTWEBHOOK_SERVER || loadConfig().server || DEFAULT_SERVER;
+  return url.replace(/\/+$/, "");
+}
+
+export function webhookUrl(slug: string): string {
+  return `${serverUrl()}/webhook/${slug}`;
+}
+
+// Seconds left on a JWT, without verifying it (the server does that)
+function secondsUntilExpiry(token: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf8"));
+    return typeof payload.exp === "number" ? payload.exp - Date.now() / 1000 : Infinity;
+  } catch (error) {
+    return 0;
+  }
+}
+
+async function refreshSession(): Promise<string | undefined> {
+  const { refreshToken } = loadConfig();
+  if (!refreshToken) return undefined;
+
+  const res = await fetch(`${serverUrl()}${api.auth.refresh.path}`, {
+    method: api.auth.refresh.method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (!res.ok) {
+    updateConfig({ accessToken: undefined, refreshToken: undefined });
+    throw new CliError("Your session has expired. Run `test-webhook-cli login` again.");
+  }
+
+  const tokens = api.auth.refresh.responses[200].parse(await res.json());
+  updateConfig(tokens);
+  return tokens.accessToken;
+}
+
+// Access token that is valid for at least another minute, refreshed if needed
+async function freshAccessToken(): Promise<string | undefined> {
+  const { accessToken } = loadConfig();
+  if (accessToken && secondsUntilExpiry(accessToken) > 60) return accessToken;
+  return await refreshSession();
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { apiKey } = loadConfig();
+  if (apiKey) return { "x-api-key": apiKey };
+
+  const token = await freshAccessToken();
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
+
+export interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | undefined>;
+  auth?: boolean; // Send stored credentials (default true)
+}
+
+// Call the REST API and return the parsed JSON, throwing ApiError with the server's message
+export async function apiRequest<T = unknown>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+  const url = new URL(`${serverUrl()}${path}`);
+  Object.entries(options.query || {}).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, value);
+  });
+
+  const send = async () => fetch(url, {
+    method,
+    headers: {
+      ...(options.body !== undefined ? { "content-type": "application/json" } : {}),
+      ...(options.auth === false ? {} : await authHeaders()),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  let res = await send();
+  // The access token may have been revoked early; try once more with a refreshed one
+  if (res.status === 401 && options.auth !== false && !loadConfig().apiKey && loadConfig().refreshToken) {
+    await refreshSession();
+    res = await send();
+  }
+
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, data?.message || `${res.status} ${res.statusText}`);
+  }
+  return data as T;
+}
+
+/**
+ * Open a Socket.IO connection authenticated like the REST calls. Credentials are read
+ * again before every connection attempt, so reconnects send a refreshed access token.
+ */
+export async function connectSocket(): Promise<Socket> {
+  // Fail early when the stored session can no longer be refreshed
+  if (!loadConfig().apiKey) await freshAccessToken();
+
+  return io(serverUrl(), {
+    path: "/socket.io",
+    auth: (cb) => {
+      const { apiKey } = loadConfig();
+      if (apiKey) return cb({ apiKey });
+      // A failed refresh clears an expired session, so only a still-stored token is sent
+      freshAccessToken()
+        .catch(() => loadConfig().accessToken)
+        .then((token) => cb(token ? { token } : {}));
+    },
+  });
+}
+
+/**
+ * Join an endpoint's dashboard or tunnel room, sending the stored viewer token for
+ * anonymous endpoints. Rejects with the server's reason when the join is refused.
+ */
+export function subscribe(
+  socket: Socket,
+  event: typeof WS_EVENTS.JOIN_DASHBOARD | typeof WS_EVENTS.REGISTER_TUNNEL,
+  endpointId: string,
+  extra: Omit<RegisterTunnelPayload, "endpointId" | "viewerToken"> = {}
+): Promise<void> {
+  const viewerToken = loadConfig().viewerTokens?.[endpointId];
+  return new Promise((resolve, reject) => {
+    socket.emit(event, { ...extra, endpointId, viewerToken }, (ack: SubscribeAck) => {
+      if (ack.ok) {
+        resolve();
+      } else {
+        reject(new CliError(`Could not subscribe to ${endpointId}: ${ack.message || "refused"}`));
+      }
+    });
+  });
+}
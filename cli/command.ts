@@ -0,0 +1,19 @@
+import type { ParseArgsConfig } from "util";
+
+export type OptionValues = Record<string, string | boolean | string[] | undefined>;
+
+export interface Command {
+  name: string;
+  usage: string; // Arguments and options, after the command name
+  description: string;
+  options?: NonNullable<ParseArgsConfig["options"]>;
+  run(args: string[], options: OptionValues): Promise<void>;
+}
+
+export function stringOption(options: OptionValues, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+// Commands that print data take --json for scripts
+export const JSON_OPTION = { json: { type: "boolean" } } as const;
@@ -0,0 +1,58 @@
+import { CliError, serverUrl } from "../api";
+import { configPath, EDITABLE_KEYS, loadConfig, updateConfig, type EditableKey } from "../config";
+import type { Command } from "../command";
+
+// Enough of a secret to recognize it
+function mask(secret: string | undefined): string {
+  return secret ? `${secret.slice(0, 8)}…` : "-";
+}
+
+function editableKey(key: string | undefined): EditableKey {
+  if (!key || !(EDITABLE_KEYS as readonly string[]).includes(key)) {
+    throw new CliError(`Key must be one of: ${EDITABLE_KEYS.join(", ")}`);
+  }
+  return key as EditableKey;
+}
+
+export const config: Command = {
+  name: "config",
+  usage: "[get <key> | set <key> <value> | unset <key> | path]",
+  description: "Show or change the server URL and stored credentials",
+  async run([action, key, value]) {
+    switch (action) {
+      case undefined: {
+        const current = loadConfig();
+        const rows: [string, string][] = [
+          ["Config file", configPath()],
+          ["Server", serverUrl()],
+          ["Account", current.email || "not logged in"],
+          ["API key", mask(current.apiKey)],
+          ["Session", current.refreshToken ? "signed in" : "-"],
+          ["Viewer tokens", String(Object.keys(current.viewerTokens || {}).length)],
+        ];
+        rows.forEach(([label, text]) => console.log(`${`${label}:`.padEnd(15)}${text}`));
+        return;
+      }
+      case "path":
+        console.log(configPath());
+        return;
+      case "get":
+        console.log(loadConfig()[editableKey(key)] ?? "");
+        return;
+      case "set":
+        if (!value) throw new CliError("Usage: test-webhook-cli config set <key> <value>");
+        if (editableKey(key) === "server" && !/^https?:\/\//.test(value)) {
+          throw new CliError("The server must be an http(s) URL");
+        }
+        updateConfig({ [editableKey(key)]: value });
+        console.log(`Set ${key}`);
+        return;
+      case "unset":
+        updateConfig({ [editableKey(key)]: undefined });
+        console.log(`Unset ${key}`);
+        return;
+      default:
+        throw new CliError(`Unknown config action "${action}"`);
+    }
+  },
+};
@@ -0,0 +1,34 @@
+import { api } from "@shared/routes";
+import type { Webhook } from "@shared/schema";
+import { apiRequest, webhookUrl } from "../api";
+import { rememberViewerToken } from "../config";
+import { JSON_OPTION, stringOption, type Command } from "../command";
+
+export const create: Command = {
+  name: "create",
+  usage: "[--name <name>] [--workspace <id>] [--json]",
+  description: "Create an endpoint (anonymous when you are not logged in)",
+  options: {
+    name: { type: "string" },
+    workspace: { type: "string" },
+    ...JSON_OPTION,
+  },
+  async run(_args, options) {
+    const endpoint = await apiRequest<Webhook & { viewerToken?: string }>(api.webhooks.create.method, api.webhooks.create.path, {
+      body: { name: stringOption(options, "name"), workspaceId: stringOption(options, "workspace") },
+    });
+
+    // Anonymous endpoints can only be watched with the token handed out here
+    if (endpoint.viewerToken) rememberViewerToken(endpoint.id, endpoint.viewerToken);
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...endpoint, url: webhookUrl(endpoint.uniqueSlug) }, null, 2));
+      return;
+    }
+
+    console.log(`Created endpoint ${endpoint.name ? `"${endpoint.name}" ` : ""}${endpoint.id}`);
+    console.log(`  URL: ${webhookUrl(endpoint.uniqueSlug)}`);
+    if (endpoint.expiresAt) console.log(`  Expires: ${new Date(endpoint.expiresAt).toLocaleString()}`);
+    console.log(`  Forward it locally: npm run cli -- listen ${endpoint.id} 3000`);
+  },
+};
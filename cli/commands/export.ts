@@ -0,0 +1,56 @@
+import { writeFileSync } from "fs";
+import { z } from "zod";
+import { api, buildUrl } from "@shared/routes";
+import type { WebhookRequest } from "@shared/schema";
+import { apiRequest, CliError } from "../api";
+import { stringOption, type Command } from "../command";
+
+type RequestPage = z.infer<typeof api.webhooks.listRequests.responses[200]>;
+
+const PAGE_SIZE = 500; // The most the API returns per page
+
+export const exportRequests: Command = {
+  name: "export",
+  usage: "<endpoint-id> [--output <file>] [--format json|ndjson] [--limit <n>]",
+  description: "Download an endpoint's captured requests, newest first",
+  options: {
+    output: { type: "string", short: "o" },
+    format: { type: "string" },
+    limit: { type: "string" },
+  },
+  async run([endpointId], options) {
+    if (!endpointId) throw new CliError("Usage: test-webhook-cli export <endpoint-id>");
+
+    const format = stringOption(options, "format") || "json";
+    if (format !== "json" && format !== "ndjson") throw new CliError("--format must be json or ndjson");
+
+    const limitOption = stringOption(options, "limit");
+    const limit = limitOption ? Number(limitOption) : Infinity;
+    if (limitOption && (!Number.isInteger(limit) || limit <= 0)) throw new CliError("--limit must be a positive integer");
+
+    // Follow the cursor until history runs out or the limit is reached
+    const requests: WebhookRequest[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: RequestPage = await apiRequest<RequestPage>(
+        api.webhooks.listRequests.method,
+        buildUrl(api.webhooks.listRequests.path, { id: endpointId }),
+        { query: { limit: String(Math.min(PAGE_SIZE, limit - requests.length)), cursor: cursor ?? undefined } }
+      );
+      requests.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor && requests.length < limit);
+
+    const output = format === "ndjson"
+      ? requests.map((request) => JSON.stringify(request)).join("\n") + (requests.length ? "\n" : "")
+      : `${JSON.stringify(requests, null, 2)}\n`;
+
+    const file = stringOption(options, "output");
+    if (file) {
+      writeFileSync(file, output);
+      console.error(`Exported ${requests.length} request${requests.length === 1 ? "" : "s"} to ${file}`);
+    } else {
+      process.stdout.write(output);
+    }
+  },
+};
@@ -0,0 +1,43 @@
+import { api } from "@shared/routes";
+import type { Webhook } from "@shared/schema";
+import { apiRequest } from "../api";
+import { formatDate, printTable } from "../format";
+import { JSON_OPTION, stringOption, type Command } from "../command";
+
+export const list: Command = {
+  name: "list",
+  usage: "[--workspace <id>] [--archived] [--json]",
+  description: "List your endpoints, or a workspace's",
+  options: {
+    workspace: { type: "string" },
+    archived: { type: "boolean" },
+    ...JSON_OPTION,
+  },
+  async run(_args, options) {
+    const endpoints = await apiRequest<Webhook[]>(api.endpoints.list.method, api.endpoints.list.path, {
+      query: { workspaceId: stringOption(options, "workspace") },
+    });
+    const shown = endpoints.filter((endpoint) => !!endpoint.archivedAt === !!options.archived);
+
+    if (options.json) {
+      console.log(JSON.stringify(shown, null, 2));
+      return;
+    }
+
+    if (shown.length === 0) {
+      console.log(options.archived ? "No archived endpoints." : "No endpoints yet. Create one with `test-webhook-cli create`.");
+      return;
+    }
+
+    printTable(
+      ["ID", "NAME", "SLUG", "REQUESTS", "LAST REQUEST"],
+      shown.map((endpoint) => [
+        endpoint.id,
+        endpoint.name || "-",
+        endpoint.uniqueSlug,
+        String(endpoint.requestCount ?? 0),
+        formatDate(endpoint.lastRequestAt),
+      ])
+    );
+  },
+};
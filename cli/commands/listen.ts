@@ -0,0 +1,153 @@
+import { hostname } from "os";
+import { WS_EVENTS, type TunnelRequestEvent, type TunnelResponseEvent } from "@shared/schema";
+import { CliError, connectSocket, serverUrl, subscribe } from "../api";
+import { rememberViewerToken } from "../config";
+import { stringOption, type Command } from "../command";
+
+// The server stops waiting for a reply after 10 seconds
+const LOCAL_TIMEOUT_MS = 10 * 1000;
+
+// Replies kept for redelivered requests, whose first acknowledgement may have been lost
+const REPLY_CACHE_SIZE = 500;
+
+// Headers that describe the connection to the server rather than the payload
+const HOP_BY_HOP_HEADERS = new Set([
+  "host",
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-length",
+  "expect",
+]);
+
+// Same sub-path and query on the local service, e.g.
+// /webhook/:slug/events/invoice.paid?live=1 -> http://localhost:3000/events/invoice.paid?live=1
+function localUrl(base: string, request: TunnelRequestEvent): string {
+  const queryIndex = request.path?.indexOf("?") ?? -1;
+  const query = queryIndex !== -1 ? request.path!.slice(queryIndex) : "";
+  return `${base}${request.subPath || "/"}${query}`;
+}
+
+function localHeaders(request: TunnelRequestEvent): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const original = JSON.parse(request.headers) as Record<string, string | string[]>;
+  Object.entries(original).forEach(([key, value]) => {
+    if (HOP_BY_HOP_HEADERS.has(key.toLowerCase())) return;
+    headers[key] = Array.isArray(value) ? value.join(", ") : value;
+  });
+  return headers;
+}
+
+// Send a tunnelled request to the local service and describe the outcome for the server
+async function deliver(base: string, request: TunnelRequestEvent): Promise<TunnelResponseEvent> {
+  const targetUrl = localUrl(base, request);
+  const body = request.rawBody
+    ? Buffer.from(request.rawBody, request.rawBodyEncoding === "base64" ? "base64" : "utf8")
+    : undefined;
+
+  try {
+    const response = await fetch(targetUrl, {
+      method: request.method,
+      headers: localHeaders(request),
+      // Send the untouched bytes the provider posted
+      body: request.method === "GET" || request.method === "HEAD" ? undefined : body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(LOCAL_TIMEOUT_MS),
+    });
+
+    return {
+      correlationId: request.correlationId,
+      targetUrl,
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: Buffer.from(await response.arrayBuffer()).toString("base64"),
+      bodyEncoding: "base64",
+    };
+  } catch (error) {
+    return {
+      correlationId: request.correlationId,
+      targetUrl,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const listen: Command = {
+  name: "listen",
+  usage: "<endpoint-id> <port> [--name <name>] [--host <host>] [--viewer-token <token>]",
+  description: "Tunnel an endpoint's requests to a local port and return its responses",
+  options: {
+    name: { type: "string" },
+    host: { type: "string" },
+    "viewer-token": { type: "string" },
+  },
+  async run([endpointId, port], options) {
+    if (!endpointId || !port || !/^\d+$/.test(port)) {
+      throw new CliError("Usage: test-webhook-cli listen <endpoint-id> <port>");
+    }
+
+    const viewerToken = stringOption(options, "viewer-token");
+    if (viewerToken) rememberViewerToken(endpointId, viewerToken);
+
+    const base = `http://${stringOption(options, "host") || "localhost"}:${port}`;
+    // Routing rules pick tunnels by name, and the dashboard lists them by it
+    const name = stringOption(options, "name") || hostname();
+    const socket = await connectSocket();
+    const replies = new Map<string, TunnelResponseEvent>();
+
+    console.log(`Connecting to ${serverUrl()}...`);
+
+    socket.on("connect", () => {
+      // Registers again after every reconnect
+      subscribe(socket, WS_EVENTS.REGISTER_TUNNEL, endpointId, { name })
+        .then(() => console.log(`Forwarding ${endpointId} to ${base} as "${name}" (Ctrl+C to stop)`))
+        .catch((error) => {
+          console.error(error.message);
+          process.exit(1);
+        });
+    });
+
+    // Requests missed while disconnected arrive again after registering. Delivery is
+    // at-least-once, so a request already handled here is only acknowledged again.
+    const handle = async (request: TunnelRequestEvent) => {
+      const label = request.redelivered ? " (redelivered)" : "";
+      const cached = replies.get(request.correlationId);
+      if (cached) {
+        socket.emit(WS_EVENTS.TUNNEL_RESPONSE, cached);
+        console.log(`↺ ${request.method} ${cached.targetUrl}  already handled${label}`);
+        return;
+      }
+
+      const startTime = Date.now();
+      const reply = await deliver(base, request);
+      socket.emit(WS_EVENTS.TUNNEL_RESPONSE, reply);
+
+      replies.set(request.correlationId, reply);
+      if (replies.size > REPLY_CACHE_SIZE) replies.delete(replies.keys().next().value!);
+
+      const outcome = reply.error ? `✗ ${reply.error}` : `← ${reply.status}`;
+      console.log(`→ ${request.method} ${reply.targetUrl}  ${outcome}  ${Date.now() - startTime}ms${label}`);
+    };
+
+    // The backlog is replayed one request at a time so the local service sees it in order
+    let backlog = Promise.resolve();
+    socket.on(WS_EVENTS.TUNNEL_REQUEST, (request: TunnelRequestEvent) => {
+      if (request.redelivered) {
+        backlog = backlog.then(() => handle(request));
+      } else {
+        void handle(request);
+      }
+    });
+
+    socket.on("disconnect", () => console.log("Disconnected, reconnecting..."));
+    socket.on("connect_error", (error) => console.error(`Connection error: ${error.message}`));
+
+    // Keep running until interrupted
+    await new Promise(() => {});
+  },
+};
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { api, profileSchema } from "@shared/routes";
+import { ApiError, apiRequest, CliError, serverUrl } from "../api";
+import { updateConfig } from "../config";
+import { prompt } from "../prompt";
+import { stringOption, type Command } from "../command";
+
+type LoginResponse = z.infer<typeof api.auth.login.responses[200]>;
+type Session = z.infer<typeof api.auth.loginTwoFactor.responses[200]>;
+
+// A 401 here means wrong credentials, not a missing login
+function rejectedLogin(error: unknown): never {
+  if (error instanceof ApiError && error.status === 401) throw new CliError(error.message);
+  throw error;
+}
+
+export const login: Command = {
+  name: "login",
+  usage: "[--email <email>] [--api-key <key>]",
+  description: "Sign in with your email and password, or save an API key",
+  options: {
+    email: { type: "string" },
+    "api-key": { type: "string" },
+  },
+  async run(_args, options) {
+    const apiKey = stringOption(options, "api-key");
+
+    if (apiKey) {
+      // Check the key before saving it, without sending any stored credentials
+      const res = await fetch(`${serverUrl()}${api.auth.profile.path}`, { headers: { "x-api-key": apiKey } });
+      if (!res.ok) throw new CliError("That API key was not accepted");
+      const profile = profileSchema.parse(await res.json());
+
+      updateConfig({ apiKey, email: profile.email, accessToken: undefined, refreshToken: undefined });
+      console.log(`Saved API key for ${profile.email}`);
+      return;
+    }
+
+    const email = stringOption(options, "email") || await prompt("Email: ");
+    const password = await prompt("Password: ", { hidden: true });
+    if (!email || !password) throw new CliError("Email and password are required");
+
+    const response = await apiRequest<LoginResponse>(api.auth.login.method, api.auth.login.path, {
+      body: { email, password },
+      auth: false,
+    }).catch(rejectedLogin);
+
+    let session: Session;
+    if ("twoFactorRequired" in response) {
+      const code = await prompt("Authentication or recovery code: ");
+      // A 6-digit value is an authenticator code, anything else a recovery code
+      const factor = /^\d{6}$/.test(code) ? { code } : { recoveryCode: code };
+      session = await apiRequest<Session>(api.auth.loginTwoFactor.method, api.auth.loginTwoFactor.path, {
+        body: { challengeToken: response.challengeToken, ...factor },
+        auth: false,
+      }).catch(rejectedLogin);
+    } else {
+      session = response;
+    }
+
+    updateConfig({
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      email: session.user.email,
+      apiKey: undefined,
+    });
+    console.log(`Logged in to ${serverUrl()} as ${session.user.email}`);
+  },
+};
@@ -0,0 +1,63 @@
+import { api, buildUrl } from "@shared/routes";
+import type { Replay } from "@shared/schema";
+import { apiRequest, CliError } from "../api";
+import { JSON_OPTION, stringOption, type Command } from "../command";
+
+// "Name: value" sets a header, "Name:" with no value removes it
+function parseHeaders(values: string[]): Record<string, string | null> {
+  const headers: Record<string, string | null> = {};
+  values.forEach((header) => {
+    const separator = header.indexOf(":");
+    if (separator <= 0) throw new CliError(`Invalid header "${header}", expected "Name: value"`);
+    const value = header.slice(separator + 1).trim();
+    headers[header.slice(0, separator).trim()] = value || null;
+  });
+  return headers;
+}
+
+export const replay: Command = {
+  name: "replay",
+  usage: "<request-id> [--to <url>] [--method <method>] [--header \"Name: value\"]... [--body <body>] [--json]",
+  description: "Send a captured request again, to the endpoint's forward URL or another URL, optionally with changes",
+  options: {
+    to: { type: "string" },
+    method: { type: "string" },
+    header: { type: "string", multiple: true },
+    body: { type: "string" },
+    ...JSON_OPTION,
+  },
+  async run([requestId], options) {
+    if (!requestId) {
+      throw new CliError("Usage: test-webhook-cli replay <request-id> [--to <url>]");
+    }
+
+    const headers = Array.isArray(options.header) ? parseHeaders(options.header) : undefined;
+    const result = await apiRequest<Replay>(api.requests.replay.method, buildUrl(api.requests.replay.path, { id: requestId }), {
+      body: {
+        // Without --to the server uses the endpoint's forward URL
+        targetUrl: stringOption(options, "to"),
+        method: stringOption(options, "method")?.toUpperCase(),
+        headers,
+        body: stringOption(options, "body"),
+      },
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.error) {
+      console.log(`✗ ${result.method} ${result.targetUrl} failed after ${result.durationMs ?? 0}ms: ${result.error}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`${result.method} ${result.targetUrl} → ${result.responseStatus} (${result.durationMs ?? 0}ms)`);
+    if (result.responseBodyEncoding === "base64" && result.responseBody) {
+      console.log(`(binary response body, ${Buffer.from(result.responseBody, "base64").length} bytes; use --json for base64)`);
+    } else if (result.responseBody) {
+      console.log(result.responseBody);
+    }
+  },
+};
@@ -0,0 +1,66 @@
+import { WS_EVENTS, type ForwardAttempt, type RequestRejectedEvent, type WebhookRequest } from "@shared/schema";
+import { CliError, connectSocket, subscribe } from "../api";
+import { rememberViewerToken } from "../config";
+import { formatRequestLine } from "../format";
+import { JSON_OPTION, stringOption, type Command } from "../command";
+
+export const tail: Command = {
+  name: "tail",
+  usage: "<endpoint-id> [--body] [--json] [--viewer-token <token>]",
+  description: "Stream an endpoint's requests to the terminal as they arrive",
+  options: {
+    body: { type: "boolean" },
+    "viewer-token": { type: "string" },
+    ...JSON_OPTION,
+  },
+  async run([endpointId], options) {
+    if (!endpointId) throw new CliError("Usage: test-webhook-cli tail <endpoint-id>");
+
+    const viewerToken = stringOption(options, "viewer-token");
+    if (viewerToken) rememberViewerToken(endpointId, viewerToken);
+
+    const socket = await connectSocket();
+
+    socket.on("connect", () => {
+      subscribe(socket, WS_EVENTS.JOIN_DASHBOARD, endpointId)
+        .then(() => {
+          if (!options.json) console.error(`Waiting for requests to ${endpointId} (Ctrl+C to stop)`);
+        })
+        .catch((error) => {
+          console.error(error.message);
+          process.exit(1);
+        });
+    });
+
+    // --json prints one event per line, so the output can be piped into jq
+    socket.on(WS_EVENTS.NEW_REQUEST, (request: WebhookRequest) => {
+      if (options.json) {
+        console.log(JSON.stringify({ event: WS_EVENTS.NEW_REQUEST, data: request }));
+        return;
+      }
+      console.log(formatRequestLine(request));
+      if (options.body && request.body) console.log(`${request.body}\n`);
+    });
+
+    socket.on(WS_EVENTS.FORWARD_RESULT, (attempt: ForwardAttempt) => {
+      if (options.json) {
+        console.log(JSON.stringify({ event: WS_EVENTS.FORWARD_RESULT, data: attempt }));
+        return;
+      }
+      const outcome = attempt.error ? `failed: ${attempt.error}` : String(attempt.responseStatus);
+      console.log(`  ↳ ${attempt.mode} ${attempt.targetUrl} ${outcome} (${attempt.durationMs ?? 0}ms)`);
+    });
+
+    socket.on(WS_EVENTS.REQUEST_REJECTED, (event: RequestRejectedEvent) => {
+      if (options.json) {
+        console.log(JSON.stringify({ event: WS_EVENTS.REQUEST_REJECTED, data: event }));
+        return;
+      }
+      console.log(`${new Date(event.timestamp).toLocaleTimeString()}  ${event.method.padEnd(7)}  ${event.path}  rejected: ${event.message}`);
+    });
+
+    socket.on("connect_error", (error) => console.error(`Connection error: ${error.message}`));
+
+    await new Promise(() => {});
+  },
+};
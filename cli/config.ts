@@ -0,0 +1,56 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import path from "path";
+
+export const DEFAULT_SERVER = "https://test-webhook.com";
+
+export interface CliConfig {
+  server?: string;
+  apiKey?: string; // Preferred over the session tokens when both are set
+  accessToken?: string;
+  refreshToken?: string;
+  email?: string; // Account the credentials belong to, for display
+  viewerTokens?: Record<string, string>; // Anonymous endpoints this machine may subscribe to, by id
+}
+
+// Keys `config get/set/unset` may touch; credentials are managed through `login`
+export const EDITABLE_KEYS = ["server", "apiKey"] as const;
+export type EditableKey = typeof EDITABLE_KEYS[number];
+
+// $TESTWEBHOOK_CONFIG, else $XDG_CONFIG_HOME/test-webhook/config.json
+export function configPath(): string {
+  if (process.env.TESTWEBHOOK_CONFIG) return process.env.TESTWEBHOOK_CONFIG;
+  const base = process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(base, "test-webhook", "config.json");
+}
+
+export function loadConfig(): CliConfig {
+  try {
+    const parsed = JSON.parse(readFileSync(configPath(), "utf8"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+// The file holds credentials, so only the current user may read it
+export function saveConfig(config: CliConfig): void {
+  const file = configPath();
+  mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  writeFileSync(file, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+}
+
+export function updateConfig(changes: Partial<CliConfig>): CliConfig {
+  const config = { ...loadConfig(), ...changes };
+  // undefined clears a key rather than being written out
+  (Object.keys(config) as (keyof CliConfig)[]).forEach((key) => {
+    if (config[key] === undefined) delete config[key];
+  });
+  saveConfig(config);
+  return config;
+}
+
+export function rememberViewerToken(endpointId: string, token: string): void {
+  const { viewerTokens } = loadConfig();
+  updateConfig({ viewerTokens: { ...viewerTokens, [endpointId]: token } });
+}
@@ -0,0 +1,28 @@
+import type { WebhookRequest } from "@shared/schema";
+
+// Left-aligned columns, padded to the widest cell
+export function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+  console.log(line(header));
+  rows.forEach((row) => console.log(line(row)));
+}
+
+export function formatBytes(bytes: number | null | undefined): string {
+  if (!bytes) return "0 B";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function formatDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+// One line per captured request: time, method, path, status and size
+export function formatRequestLine(request: WebhookRequest): string {
+  const time = request.timestamp ? new Date(request.timestamp).toLocaleTimeString() : "";
+  return [time, request.method.padEnd(7), request.path || "/", request.responseStatus ?? "", formatBytes(request.bodySize)]
+    .join("  ");
+}
@@ -0,0 +1,74 @@
+import { parseArgs } from "util";
+import { ApiError, CliError, useServer } from "./api";
+import type { Command } from "./command";
+import { login } from "./commands/login";
+import { create } from "./commands/create";
+import { list } from "./commands/list";
+import { listen } from "./commands/listen";
+import { tail } from "./commands/tail";
+import { replay } from "./commands/replay";
+import { exportRequests } from "./commands/export";
+import { config } from "./commands/config";
+
+const COMMANDS: Command[] = [login, create, list, listen, tail, replay, exportRequests, config];
+
+// Accepted before or after any command
+const GLOBAL_OPTIONS = {
+  server: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+function printHelp(command?: Command): void {
+  if (command) {
+    console.log(`Usage: test-webhook-cli ${command.name} ${command.usage}\n\n${command.description}`);
+    return;
+  }
+
+  console.log("Usage: test-webhook-cli <command> [options]\n\nCommands:");
+  const width = Math.max(...COMMANDS.map((entry) => entry.name.length));
+  COMMANDS.forEach((entry) => console.log(`  ${entry.name.padEnd(width)}  ${entry.description}`));
+  console.log("\nOptions:\n  --server <url>  Server to talk to (default from `config`)\n  -h, --help      Show help");
+}
+
+async function main(argv: string[]): Promise<void> {
+  // The first bare word is the command, unless it is the value of --server
+  const index = argv.findIndex((arg, i) => !arg.startsWith("-") && argv[i - 1] !== "--server");
+  const name = index === -1 ? undefined : argv[index];
+  const command = COMMANDS.find((entry) => entry.name === name);
+
+  if (!name || !command) {
+    printHelp();
+    if (name) throw new CliError(`Unknown command "${name}"`);
+    return;
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv.slice(0, index), ...argv.slice(index + 1)],
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new CliError(`${error instanceof Error ? error.message : error}\nUsage: test-webhook-cli ${command.name} ${command.usage}`);
+  }
+
+  if (parsed.values.help) {
+    printHelp(command);
+    return;
+  }
+
+  useServer(typeof parsed.values.server === "string" ? parsed.values.server : undefined);
+  await command.run(parsed.positionals, parsed.values);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof ApiError && error.status === 401) {
+    console.error(`Error: ${error.message}. Run \`test-webhook-cli login\` first.`);
+  } else if (error instanceof CliError) {
+    console.error(`Error: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
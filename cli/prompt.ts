@@ -0,0 +1,22 @@
+import { createInterface } from "readline";
+
+// Ask a question on the terminal; hidden answers (passwords) are not echoed
+export function prompt(question: string, { hidden = false } = {}): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+
+  if (hidden) {
+    // readline echoes through _writeToOutput; keep the question and swallow the keystrokes
+    const output = rl as unknown as { _writeToOutput: (text: string) => void };
+    output._writeToOutput = (text: string) => {
+      if (text.startsWith(question)) process.stdout.write(question);
+    };
+  }
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      if (hidden) process.stdout.write("\n");
+      rl.close();
+      resolve(hidden ? answer : answer.trim());
+    });
+  });
+}
@@ -6,6 +6,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import Dashboard from "@/pages/Dashboard";
+import Endpoints from "@/pages/Endpoints";
+import Login from "@/pages/Login";
+import Register from "@/pages/Register";
+import Settings from "@/pages/Settings";
+import Usage from "@/pages/Usage";
+import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
+import Workspace from "@/pages/Workspace";
+import AcceptInvite from "@/pages/AcceptInvite";
+import { AuthProvider } from "@/hooks/use-auth";
 import { useEffect } from "react";
 import { posthog } from "./lib/posthog";
 
@@ -13,6 +24,16 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/endpoints" component={Endpoints} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/usage" component={Usage} />
+      <Route path="/workspaces/:id" component={Workspace} />
+      <Route path="/invite" component={AcceptInvite} />
       <Route path="/:id" component={Dashboard} />
       <Route component={NotFound} />
     </Switch>
@@ -32,10 +53,12 @@ function App() {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -1,22 +1,30 @@
-import { Webhook } from "@shared/schema";
+import { Webhook, type TunnelClientInfo } from "@shared/schema";
 import { Terminal, Copy, Share2, Moon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { ResponseConfig } from "@/components/webhook/ResponseConfig";
+import { EndpointSettings } from "@/components/webhook/EndpointSettings";
+import { TunnelClients } from "@/components/webhook/TunnelClients";
+import { UserMenu } from "./UserMenu";
 import { useUpdateWebhookResponse } from "@/hooks/use-webhooks";
+import { getViewerToken } from "@/lib/localStorage";
 
 interface HeaderProps {
   webhook: Webhook;
+  tunnels: TunnelClientInfo[];
 }
 
-export function Header({ webhook }: HeaderProps) {
+export function Header({ webhook, tunnels }: HeaderProps) {
   const [copiedUrl, setCopiedUrl] = useState(false);
   const [copiedCli, setCopiedCli] = useState(false);
   const { mutate: updateResponse, isPending } = useUpdateWebhookResponse();
 
   const webhookUrl = `${window.location.origin}/webhook/${webhook.uniqueSlug}`;
-  const cliCommand = `npx test-webhook-cli ${webhook.id} 3000`;
+  // Anonymous endpoints can only be tunnelled with the viewer token handed out at creation.
+  // The CLI is not published to npm, so the command runs it from a checkout of this repo.
+  const viewerToken = getViewerToken(webhook.id);
+  const cliCommand = `npm run cli -- listen ${webhook.id} 3000 --server ${window.location.origin}${viewerToken ? ` --viewer-token ${viewerToken}` : ""}`;
 
   const copyToClipboard = (text: string, setFn: (val: boolean) => void) => {
     navigator.clipboard.writeText(text);
@@ -24,7 +32,7 @@ export function Header({ webhook }: HeaderProps) {
     setTimeout(() => setFn(false), 2000);
   };
 
-  const handleUpdateResponse = (config: { responseStatus: string | number; responseHeaders: Record<string, string>; responseBody: string }) => {
+  const handleUpdateResponse = (config: { responseStatus: string | number; responseHeaders: Record<string, string>; responseBody: string; forwardUrl: string; forwardMode: string }) => {
     updateResponse({ webhookId: webhook.id, config: { ...config, responseStatus: String(config.responseStatus) } });
   };
 
@@ -36,10 +44,7 @@ export function Header({ webhook }: HeaderProps) {
         </div>
         <div>
           <h1 className="font-display font-bold text-lg leading-none tracking-tight">test-webhook.com</h1>
-          <div className="text-[10px] text-muted-foreground font-mono mt-1 flex items-center gap-1.5">
-            <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" />
-            Live Tunnel Active
-          </div>
+          <TunnelClients webhook={webhook} tunnels={tunnels} />
         </div>
       </div>
 
@@ -62,7 +67,7 @@ export function Header({ webhook }: HeaderProps) {
         </div>
 
         {/* CLI Command Input Group */}
-        {/* <div className="hidden sm:flex items-center bg-secondary/50 rounded-lg border border-border overflow-hidden group">
+        <div className="hidden sm:flex items-center bg-secondary/50 rounded-lg border border-border overflow-hidden group">
           <div className="hidden lg:block px-3 py-1.5 text-xs text-muted-foreground border-r border-border font-medium bg-secondary/80">
             Tunnel
           </div>
@@ -76,7 +81,7 @@ export function Header({ webhook }: HeaderProps) {
           >
             <Copy className={cn("w-3.5 h-3.5", copiedCli ? "text-green-400" : "text-muted-foreground")} />
           </button>
-        </div> */}
+        </div>
 
         <ResponseConfig 
           webhook={webhook} 
@@ -84,9 +89,14 @@ export function Header({ webhook }: HeaderProps) {
           isUpdating={isPending}
         />
 
+        <EndpointSettings key={webhook.id} webhook={webhook} />
+
+
         <Button variant="outline" size="icon" className="hidden xs:flex rounded-full border border-border bg-secondary/30 hover:bg-secondary/80">
           <Share2 className="w-4 h-4 text-muted-foreground" />
         </Button>
+
+        <UserMenu />
       </div>
     </header>
   );
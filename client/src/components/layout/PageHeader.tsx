@@ -0,0 +1,20 @@
+import { Link } from "wouter";
+import { Terminal } from "lucide-react";
+import { UserMenu } from "./UserMenu";
+
+interface PageHeaderProps {
+  title: string;
+}
+
+// Top bar for account pages that are not tied to a single endpoint
+export function PageHeader({ title }: PageHeaderProps) {
+  return (
+    <header className="h-16 border-b border-border bg-background/50 backdrop-blur px-6 flex items-center gap-3 sticky top-0 z-10">
+      <Link href="/endpoints" className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center text-primary">
+        <Terminal className="w-5 h-5" />
+      </Link>
+      <h1 className="font-display font-bold text-lg leading-none tracking-tight flex-1">{title}</h1>
+      <UserMenu />
+    </header>
+  );
+}
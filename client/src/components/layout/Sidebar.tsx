@@ -1,8 +1,8 @@
 import { cn } from "@/lib/utils";
 import { type WebhookRequest } from "@shared/schema";
 import { format } from "date-fns";
-import { Search, Inbox, Activity, Clock, Trash2 } from "lucide-react";
-import { motion, AnimatePresence } from "framer-motion";
+import { Search, Inbox, Activity, Clock, Trash2, Loader2 } from "lucide-react";
+import { useVirtualList } from "@/hooks/use-virtual-list";
 import { Button } from "@/components/ui/button";
 
 interface SidebarProps {
@@ -10,9 +10,28 @@ interface SidebarProps {
   selectedId: string | null;
   onSelect: (id: string) => void;
   onClearHistory?: () => void;
+  filter?: string;
+  onFilterChange?: (filter: string) => void;
+  isFiltering?: boolean;
+  filterError?: string | null;
+  onLoadMore?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
   className?: string;
 }
 
+// Rows have a fixed height so the list can be virtualised
+const ROW_HEIGHT = 76;
+const ROW_GAP = 4;
+
+const FILTER_HELP = [
+  "method:POST  status:4xx  type:json  ip:10.0.0.1",
+  "header:x-signature  header:x-event=invoice.paid",
+  "after:2h  before:2026-01-01  body:\"customer_123\"",
+  "body.type = \"invoice.paid\"",
+  "Other words search path, headers and body",
+].join("\n");
+
 const MethodBadge = ({ method }: { method: string }) => {
   const colors: Record<string, string> = {
     GET: "text-blue-400 bg-blue-400/10 border-blue-400/20",
@@ -34,7 +53,14 @@ const MethodBadge = ({ method }: { method: string }) => {
   );
 };
 
-export function Sidebar({ requests, selectedId, onSelect, onClearHistory, className }: SidebarProps) {
+export function Sidebar({ requests, selectedId, onSelect, onClearHistory, filter, onFilterChange, isFiltering, filterError, onLoadMore, hasMore, isLoadingMore, className }: SidebarProps) {
+  const isFiltered = !!filter?.trim();
+  const { containerRef, onScroll, totalHeight, start, end, offsetTop } = useVirtualList({
+    count: requests.length,
+    rowHeight: ROW_HEIGHT,
+    onEndReached: hasMore && !isLoadingMore ? onLoadMore : undefined,
+  });
+
   return (
     <div className={cn("flex flex-col h-full bg-secondary/30 border-r border-border", className)}>
       <div className="p-4 border-b border-border/50">
@@ -56,63 +82,85 @@ export function Sidebar({ requests, selectedId, onSelect, onClearHistory, classN
           )}
         </div>
         <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          {isFiltering ? (
+            <Loader2 className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground animate-spin" />
+          ) : (
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          )}
           <input 
             type="text" 
             placeholder="Filter requests..." 
-            className="w-full bg-background border border-border rounded-lg pl-9 pr-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary/50 transition-all"
+            value={filter ?? ""}
+            onChange={(e) => onFilterChange?.(e.target.value)}
+            title={FILTER_HELP}
+            className={cn(
+              "w-full bg-background border border-border rounded-lg pl-9 pr-3 py-2 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-primary/50 transition-all",
+              filterError && "border-destructive/50 focus:ring-destructive/50"
+            )}
           />
         </div>
+        {filterError && (
+          <p className="mt-2 text-[11px] text-destructive">{filterError}</p>
+        )}
       </div>
 
-      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        className="flex-1 overflow-y-auto p-2"
+      >
         {requests.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-40 text-muted-foreground text-sm">
             <Activity className="w-8 h-8 mb-2 opacity-20" />
-            <p>Waiting for requests...</p>
+            <p>{isFiltered ? "No matching requests" : "Waiting for requests..."}</p>
           </div>
         ) : (
-          <AnimatePresence initial={false}>
-            {requests.map((req) => (
-              <motion.button
-                key={req.id}
-                initial={{ opacity: 0, x: -10 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, height: 0 }}
-                onClick={() => onSelect(req.id)}
-                className={cn(
-                  "w-full text-left p-3 rounded-lg border transition-all group relative overflow-hidden",
-                  selectedId === req.id
-                    ? "bg-card border-primary/20 shadow-sm"
-                    : "border-transparent hover:bg-secondary/50"
-                )}
-              >
-                {selectedId === req.id && (
-                  <div className="absolute left-0 top-0 bottom-0 w-1 bg-primary" />
-                )}
-                
-                <div className="flex items-center justify-between mb-2">
-                  <MethodBadge method={req.method} />
-                  <span className="text-xs text-muted-foreground flex items-center gap-1 font-mono">
-                    <Clock className="w-3 h-3" />
-                    {format(new Date(req.timestamp || Date.now()), "HH:mm:ss")}
-                  </span>
-                </div>
-                
-                <div className={cn(
-                  "font-mono text-xs truncate",
-                  selectedId === req.id ? "text-foreground" : "text-muted-foreground group-hover:text-foreground"
-                )}>
-                  {req.path}
-                </div>
-              </motion.button>
-            ))}
-          </AnimatePresence>
+          <div className="relative" style={{ height: totalHeight }}>
+            <div className="absolute inset-x-0 top-0" style={{ transform: `translateY(${offsetTop}px)` }}>
+              {requests.slice(start, end).map((req) => (
+                <button
+                  key={req.id}
+                  onClick={() => onSelect(req.id)}
+                  style={{ height: ROW_HEIGHT - ROW_GAP, marginBottom: ROW_GAP }}
+                  className={cn(
+                    "w-full text-left p-3 rounded-lg border transition-all group relative overflow-hidden block",
+                    selectedId === req.id
+                      ? "bg-card border-primary/20 shadow-sm"
+                      : "border-transparent hover:bg-secondary/50"
+                  )}
+                >
+                  {selectedId === req.id && (
+                    <div className="absolute left-0 top-0 bottom-0 w-1 bg-primary" />
+                  )}
+                  
+                  <div className="flex items-center justify-between mb-2">
+                    <MethodBadge method={req.method} />
+                    <span className="text-xs text-muted-foreground flex items-center gap-1 font-mono">
+                      <Clock className="w-3 h-3" />
+                      {format(new Date(req.timestamp || Date.now()), "HH:mm:ss")}
+                    </span>
+                  </div>
+                  
+                  <div className={cn(
+                    "font-mono text-xs truncate",
+                    selectedId === req.id ? "text-foreground" : "text-muted-foreground group-hover:text-foreground"
+                  )}>
+                    {req.path}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {isLoadingMore && (
+          <div className="flex items-center justify-center py-3 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
         )}
       </div>
       
       <div className="p-3 border-t border-border/50 text-xs text-center text-muted-foreground bg-secondary/10">
-        {requests.length} Requests Captured
+        {requests.length}{hasMore ? "+" : ""} {isFiltered ? "Matching Requests" : "Requests Captured"}
       </div>
     </div>
   );
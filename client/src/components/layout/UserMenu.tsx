@@ -0,0 +1,79 @@
+import { Link, useLocation } from "wouter";
+import { BarChart3, LayoutList, LogIn, LogOut, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+
+function initials(name: string | null, email: string): string {
+  const source = name?.trim() || email;
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+export function UserMenu() {
+  const [location, setLocation] = useLocation();
+  const { user, isLoading, logout } = useAuth();
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <Button variant="outline" size="sm" className="gap-2 border border-border" asChild>
+        <Link href={`/login?next=${encodeURIComponent(location)}`}>
+          <LogIn className="w-4 h-4" />
+          Sign in
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring" title={user.email}>
+          <Avatar className="h-8 w-8 border border-border">
+            <AvatarFallback className="text-xs bg-primary/10 text-primary">
+              {initials(user.name, user.email)}
+            </AvatarFallback>
+          </Avatar>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <div className="text-sm font-medium truncate">{user.name || user.email}</div>
+          {user.name && <div className="text-xs text-muted-foreground truncate">{user.email}</div>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => setLocation("/endpoints")}>
+          <LayoutList className="w-4 h-4 mr-2" />
+          My Endpoints
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => setLocation("/usage")}>
+          <BarChart3 className="w-4 h-4 mr-2" />
+          Usage
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => setLocation("/settings")}>
+          <Settings className="w-4 h-4 mr-2" />
+          Settings
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={logout}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
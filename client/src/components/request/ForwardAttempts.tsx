@@ -0,0 +1,143 @@
+import { type ForwardAttempt, type WebhookRequest } from "@shared/schema";
+import { format } from "date-fns";
+import { Send, Clock, AlertTriangle, Loader2, ArrowRight, ArrowLeft } from "lucide-react";
+import { useForwardAttempts } from "@/hooks/use-webhooks";
+import { cn } from "@/lib/utils";
+
+interface ForwardAttemptsProps {
+  request: WebhookRequest;
+}
+
+export function statusColor(status: number | null): string {
+  if (status === null) return "text-red-400 bg-red-400/10 border-red-400/20";
+  if (status < 300) return "text-green-400 bg-green-400/10 border-green-400/20";
+  if (status < 400) return "text-blue-400 bg-blue-400/10 border-blue-400/20";
+  if (status < 500) return "text-orange-400 bg-orange-400/10 border-orange-400/20";
+  return "text-red-400 bg-red-400/10 border-red-400/20";
+}
+
+function AttemptRow({ attempt }: { attempt: ForwardAttempt }) {
+  const headers: Record<string, string> = attempt.responseHeaders ? JSON.parse(attempt.responseHeaders) : {};
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-mono">
+        <span className={cn("font-bold px-1.5 py-0.5 rounded border", statusColor(attempt.responseStatus))}>
+          {attempt.responseStatus ?? "ERR"}
+        </span>
+        <span className="text-foreground break-all">{attempt.targetUrl}</span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Clock className="w-3 h-3" />
+          {attempt.durationMs ?? 0}ms
+        </span>
+        {attempt.createdAt && (
+          <span className="text-muted-foreground">
+            {format(new Date(attempt.createdAt), "HH:mm:ss")}
+          </span>
+        )}
+      </div>
+
+      {attempt.error ? (
+        <div className="flex items-center gap-2 text-xs text-red-400 font-mono">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {attempt.error}
+        </div>
+      ) : (
+        <>
+          {Object.keys(headers).length > 0 && (
+            <div className="max-h-[160px] overflow-y-auto rounded border border-border/40 divide-y divide-border/40">
+              {Object.entries(headers).map(([key, value]) => (
+                <div key={key} className="flex text-[11px] font-mono">
+                  <div className="w-1/3 min-w-[120px] px-3 py-1.5 text-muted-foreground border-r border-border/40 truncate">
+                    {key}
+                  </div>
+                  <div className="flex-1 px-3 py-1.5 break-all">{value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+          {attempt.responseBodyEncoding === "base64" && (
+            <div className="text-[10px] text-muted-foreground font-mono">Binary response body (base64)</div>
+          )}
+          <pre className="max-h-[240px] overflow-auto rounded border border-border/40 bg-background/50 p-3 text-xs font-mono whitespace-pre-wrap break-all">
+            {attempt.responseBody || <span className="italic text-muted-foreground">Empty response body</span>}
+          </pre>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Proxy mode and tunnels: the provider's request and the response it got back, side by side
+function ProxyLegs({ request, attempt }: { request: WebhookRequest; attempt: ForwardAttempt }) {
+  const usedFallback = attempt.responseStatus === null;
+  const target = attempt.mode === "tunnel" ? "Tunnel" : "Upstream";
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-px bg-border">
+      <div className="bg-card/60 p-4 space-y-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <ArrowRight className="w-3.5 h-3.5" />
+          Provider → {target}
+        </div>
+        <div className="text-xs font-mono space-y-1">
+          <div>
+            <span className="font-bold">{request.method}</span>{" "}
+            <span className="break-all">{attempt.targetUrl}</span>
+          </div>
+          <div className="text-muted-foreground">
+            {request.contentType || "no content type"} · {request.bodySize ?? 0} bytes
+          </div>
+        </div>
+      </div>
+      <div className="bg-card/60 p-4 space-y-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <ArrowLeft className="w-3.5 h-3.5" />
+          {target} → Provider
+        </div>
+        <div className="text-xs font-mono space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={cn("font-bold px-1.5 py-0.5 rounded border", statusColor(attempt.responseStatus))}>
+              {attempt.responseStatus ?? "ERR"}
+            </span>
+            <span className="text-muted-foreground">{attempt.durationMs ?? 0}ms</span>
+          </div>
+          {usedFallback && (
+            <div className="text-orange-400">{target} failed, configured fallback response was returned</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ForwardAttempts({ request }: ForwardAttemptsProps) {
+  const { data: attempts, isLoading } = useForwardAttempts(request.id);
+
+  if (!isLoading && (!attempts || attempts.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="border border-border rounded-xl overflow-hidden bg-card/30">
+      <div className="bg-secondary/30 px-4 py-2 border-b border-border flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <Send className="w-4 h-4" />
+        Forwarding
+      </div>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-20 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {attempts!.map((attempt) => (
+            <div key={attempt.id}>
+              {(attempt.mode === "proxy" || attempt.mode === "tunnel") && <ProxyLegs request={request} attempt={attempt} />}
+              <AttemptRow attempt={attempt} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { type WebhookRequest, type Replay } from "@shared/schema";
+import { format } from "date-fns";
+import { Repeat, Play, AlertTriangle, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useReplays, useReplayRequest } from "@/hooks/use-webhooks";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { statusColor } from "./ForwardAttempts";
+
+interface ReplayDialogProps {
+  request: WebhookRequest;
+}
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+// Headers the server strips before sending upstream
+const HIDDEN_HEADERS = ["host", "connection", "content-length", "transfer-encoding"];
+
+function originalHeaders(request: WebhookRequest): Record<string, string> {
+  const parsed = JSON.parse(request.headers) as Record<string, string | string[]>;
+  const headers: Record<string, string> = {};
+  Object.entries(parsed).forEach(([key, value]) => {
+    if (HIDDEN_HEADERS.includes(key.toLowerCase())) return;
+    headers[key] = Array.isArray(value) ? value.join(", ") : value;
+  });
+  return headers;
+}
+
+// Turn the edited header set into overrides: changed or added keys, and null for removed ones
+function headerOverrides(original: Record<string, string>, edited: Record<string, string>) {
+  const overrides: Record<string, string | null> = {};
+  Object.keys(original).forEach((key) => {
+    if (!(key in edited)) overrides[key] = null;
+  });
+  Object.entries(edited).forEach(([key, value]) => {
+    if (original[key] !== String(value)) overrides[key] = String(value);
+  });
+  return overrides;
+}
+
+function ReplayResult({ replay }: { replay: Replay }) {
+  return (
+    <div className="p-3 space-y-2 text-xs font-mono">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className={cn("font-bold px-1.5 py-0.5 rounded border", statusColor(replay.responseStatus))}>
+          {replay.responseStatus ?? "ERR"}
+        </span>
+        <span className="font-bold">{replay.method}</span>
+        <span className="break-all">{replay.targetUrl}</span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Clock className="w-3 h-3" />
+          {replay.durationMs ?? 0}ms
+        </span>
+        {replay.createdAt && (
+          <span className="text-muted-foreground">{format(new Date(replay.createdAt), "HH:mm:ss")}</span>
+        )}
+      </div>
+      {replay.error ? (
+        <div className="flex items-center gap-2 text-red-400">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {replay.error}
+        </div>
+      ) : (
+        <>
+          {replay.responseBodyEncoding === "base64" && (
+            <div className="text-[10px] text-muted-foreground">Binary response body (base64)</div>
+          )}
+          <pre className="max-h-[160px] overflow-auto rounded border border-border/40 bg-background/50 p-2 whitespace-pre-wrap break-all">
+            {replay.responseBody || <span className="italic text-muted-foreground">Empty response body</span>}
+          </pre>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function ReplayDialog({ request }: ReplayDialogProps) {
+  const { toast } = useToast();
+  const { data: replays } = useReplays(request.id);
+  const { mutate: replay, isPending } = useReplayRequest();
+
+  const isBinary = request.rawBodyEncoding === "base64";
+  const initialHeaders = originalHeaders(request);
+  const initialBody = isBinary ? "" : request.rawBody || "";
+
+  const [open, setOpen] = useState(false);
+  const [targetUrl, setTargetUrl] = useState("");
+  const [method, setMethod] = useState(request.method);
+  const [headers, setHeaders] = useState(JSON.stringify(initialHeaders, null, 2));
+  const [body, setBody] = useState(initialBody);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setMethod(request.method);
+      setHeaders(JSON.stringify(initialHeaders, null, 2));
+      setBody(initialBody);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleReplay = () => {
+    let editedHeaders: Record<string, string>;
+    try {
+      editedHeaders = headers.trim() ? JSON.parse(headers) : {};
+    } catch (error) {
+      alert("Invalid JSON in headers. Please fix and try again.");
+      return;
+    }
+
+    replay(
+      {
+        requestId: request.id,
+        input: {
+          targetUrl: targetUrl.trim(),
+          method,
+          headers: headerOverrides(initialHeaders, editedHeaders),
+          // Only override the body when it was edited, so binary payloads are replayed untouched
+          body: !isBinary && body !== initialBody ? body : undefined,
+        },
+      },
+      {
+        onError: (error) => {
+          toast({ title: "Replay failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 border border-border shrink-0">
+          <Repeat className="w-4 h-4" />
+          Replay
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Replay Request</SheetTitle>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          <div className="flex gap-2">
+            <div className="space-y-2 w-28">
+              <Label htmlFor="replay-method">Method</Label>
+              <select
+                id="replay-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm font-mono"
+              >
+                {(METHODS.includes(request.method) ? METHODS : [request.method, ...METHODS]).map((m) => (
+                  <option key={m} value={m}>{m}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="replay-target">Target URL</Label>
+              <Input
+                id="replay-target"
+                type="url"
+                value={targetUrl}
+                onChange={(e) => setTargetUrl(e.target.value)}
+                placeholder="https://staging.example.com/webhooks"
+                className="font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="replay-headers">Headers (JSON)</Label>
+            <Textarea
+              id="replay-headers"
+              value={headers}
+              onChange={(e) => setHeaders(e.target.value)}
+              className="font-mono text-xs min-h-[140px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="replay-body">Body</Label>
+            <Textarea
+              id="replay-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              disabled={isBinary}
+              placeholder={isBinary ? "Binary body is replayed as captured" : ""}
+              className="font-mono text-xs min-h-[160px]"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleReplay} disabled={isPending || !targetUrl.trim()}>
+              <Play className="w-4 h-4 mr-2" />
+              {isPending ? "Sending..." : "Send"}
+            </Button>
+          </div>
+
+          {replays && replays.length > 0 && (
+            <div className="border border-border rounded-xl overflow-hidden divide-y divide-border">
+              <div className="bg-secondary/30 px-3 py-2 text-sm font-medium text-muted-foreground">
+                Previous Replays
+              </div>
+              {replays.map((r) => (
+                <ReplayResult key={r.id} replay={r} />
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,10 +1,12 @@
 import { type WebhookRequest } from "@shared/schema";
 import { format } from "date-fns";
-import { Code, Copy, Globe, Clock, Hash, FileJson } from "lucide-react";
+import { Code, Copy, Globe, Clock, Hash, FileJson, Route } from "lucide-react";
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { useState } from "react";
 import { cn } from "@/lib/utils";
+import { ForwardAttempts } from "./ForwardAttempts";
+import { ReplayDialog } from "./ReplayDialog";
 
 interface RequestDetailProps {
   request: WebhookRequest | undefined;
@@ -70,7 +72,27 @@ function KeyValueList({ data }: { data: Record<string, any> }) {
   );
 }
 
+// Parse the stored body view, falling back to plain text for non-JSON payloads
+function parseBody(body: string | null): unknown {
+  if (!body) return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function languageFor(contentType: string | null): string {
+  if (!contentType) return "text";
+  if (contentType.includes("json")) return "json";
+  if (contentType.includes("xml")) return "xml";
+  if (contentType.includes("html")) return "html";
+  return "text";
+}
+
 export function RequestDetail({ request }: RequestDetailProps) {
+  const [showRaw, setShowRaw] = useState(false);
+
   if (!request) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-muted-foreground p-8 text-center">
@@ -96,7 +118,15 @@ export function RequestDetail({ request }: RequestDetailProps) {
   // Parse JSON fields
   const queryParams = request.queryParams ? JSON.parse(request.queryParams) : {};
   const headers = typeof request.headers === 'string' ? JSON.parse(request.headers) : request.headers;
-  const body = request.body ? (typeof request.body === 'string' ? JSON.parse(request.body) : request.body) : null;
+  const body = parseBody(request.body);
+  const rawBody = request.rawBody || null;
+  const isBinary = request.rawBodyEncoding === "base64";
+  const bodyText = showRaw || body === null
+    ? rawBody
+    : typeof body === "string" ? body : JSON.stringify(body, null, 2);
+  const bodyLanguage = !showRaw && body !== null && typeof body !== "string"
+    ? "json"
+    : languageFor(request.contentType);
 
   return (
     <div className="h-full overflow-y-auto p-4 md:p-6 space-y-6">
@@ -117,8 +147,15 @@ export function RequestDetail({ request }: RequestDetailProps) {
                 <Hash className="w-3.5 h-3.5" />
                 ID: {request.id.slice(0, 8)}
               </span>
+              {request.subPath && (
+                <span className="flex items-center gap-1.5">
+                  <Route className="w-3.5 h-3.5" />
+                  Sub-path: {request.subPath}
+                </span>
+              )}
             </div>
           </div>
+          <ReplayDialog key={request.id} request={request} />
         </div>
       </div>
 
@@ -138,13 +175,26 @@ export function RequestDetail({ request }: RequestDetailProps) {
 
       {/* Body Payload */}
       <Section title="Request Body" icon={FileJson} className="min-h-[300px] flex flex-col">
-        {body && Object.keys(body).length > 0 ? (
+        {bodyText ? (
           <div className="relative group flex-1">
-            <div className="absolute right-4 top-4 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
-              <CopyButton text={JSON.stringify(body, null, 2)} />
+            <div className="flex items-center justify-between px-4 pt-3 text-[10px] font-mono text-muted-foreground">
+              <span>
+                {request.bodySize ?? 0} bytes{isBinary && " · binary (base64)"}
+              </span>
+              {body !== null && rawBody && (
+                <button
+                  onClick={() => setShowRaw(!showRaw)}
+                  className="px-2 py-0.5 rounded border border-border hover:bg-white/5 transition-colors"
+                >
+                  {showRaw ? "Parsed" : "Raw"}
+                </button>
+              )}
+            </div>
+            <div className="absolute right-4 top-10 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
+              <CopyButton text={bodyText} />
             </div>
             <SyntaxHighlighter 
-              language="json" 
+              language={bodyLanguage} 
               style={vscDarkPlus}
               customStyle={{
                 margin: 0,
@@ -155,7 +205,7 @@ export function RequestDetail({ request }: RequestDetailProps) {
                 height: '100%'
               }}
             >
-              {JSON.stringify(body, null, 2)}
+              {bodyText}
             </SyntaxHighlighter>
           </div>
         ) : (
@@ -164,6 +214,9 @@ export function RequestDetail({ request }: RequestDetailProps) {
           </div>
         )}
       </Section>
+
+      {/* Forwarding Attempts */}
+      <ForwardAttempts request={request} />
     </div>
   );
 }
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { UserRound, Mail } from "lucide-react";
+import { api } from "@shared/routes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { type AuthUser } from "@/hooks/use-auth";
+import { useUpdateProfile } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountProps {
+  user: AuthUser;
+}
+
+export function Account({ user }: AccountProps) {
+  const { toast } = useToast();
+  const updateProfile = useUpdateProfile();
+  const [name, setName] = useState(user.name ?? "");
+  const [username, setUsername] = useState(user.username ?? "");
+
+  const isDirty = name.trim() !== (user.name ?? "") || username.trim().toLowerCase() !== (user.username ?? "");
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    updateProfile.mutate(
+      { name: name.trim() || null, username: username.trim() || null },
+      {
+        onSuccess: (profile) => {
+          setName(profile.name ?? "");
+          setUsername(profile.username ?? "");
+          toast({ title: "Profile updated" });
+        },
+        onError: (error) => toast({ title: "Could not update profile", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const { mutate: sendVerification, isPending, isSuccess } = useMutation({
+    mutationFn: async () => {
+      await apiRequest(api.auth.sendVerification.method, api.auth.sendVerification.path);
+    },
+    onSuccess: () => toast({ title: "Verification email sent", description: `Check the inbox for ${user.email}.` }),
+    onError: (error) => toast({ title: "Could not send email", description: error.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <UserRound className="w-4 h-4" />
+          Account
+        </CardTitle>
+        <CardDescription>
+          Signed in as {user.name ? `${user.name} (${user.email})` : user.email} on the {user.plan || "free"} plan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <Mail className="w-4 h-4 text-muted-foreground" />
+            <span>{user.email}</span>
+            {user.emailVerifiedAt ? (
+              <Badge variant="outline" className="text-green-400 border-green-500/30" title={format(user.emailVerifiedAt, "PPp")}>
+                Verified
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-yellow-400 border-yellow-500/30">Unverified</Badge>
+            )}
+          </div>
+          {!user.emailVerifiedAt && (
+            <Button size="sm" variant="outline" onClick={() => sendVerification()} disabled={isPending || isSuccess}>
+              {isSuccess ? "Email sent" : isPending ? "Sending..." : "Resend verification"}
+            </Button>
+          )}
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                autoComplete="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-username">Username</Label>
+              <Input
+                id="profile-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="3-32 letters, numbers, - or _"
+                className="font-mono"
+                maxLength={32}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={!isDirty || updateProfile.isPending}>
+              {updateProfile.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@shared/schema";
+import { KeyRound, Plus, Trash2, Copy, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useApiKeys, useCreateApiKey, useRevokeApiKey } from "@/hooks/use-api-keys";
+import { useToast } from "@/hooks/use-toast";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "requests:read": "Read endpoints and captured requests",
+  "endpoints:manage": "Create, update and delete endpoints",
+  "requests:replay": "Replay captured requests",
+};
+
+export function ApiKeys() {
+  const { toast } = useToast();
+  const { data: keys, isLoading } = useApiKeys();
+  const { mutate: createKey, isPending: isCreating } = useCreateApiKey();
+  const { mutate: revokeKey } = useRevokeApiKey();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["requests:read"]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = () => {
+    createKey(
+      { name: name.trim(), scopes, expiresAt: expiresAt ? new Date(expiresAt) : null },
+      {
+        onSuccess: ({ key }) => {
+          setCreatedKey(key);
+          setCopied(false);
+          setName("");
+          setExpiresAt("");
+        },
+        onError: (error) => {
+          toast({ title: "Could not create API key", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleRevoke = (id: string, keyName: string) => {
+    if (!confirm(`Revoke "${keyName}"? Anything using it will stop working immediately.`)) return;
+    revokeKey(id, {
+      onError: (error) => {
+        toast({ title: "Could not revoke API key", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const copyKey = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Call the REST API from scripts and CI with an <code className="font-mono">x-api-key</code> header instead of your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-3 space-y-2">
+            <p className="text-sm">Copy your new key now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-xs break-all select-all">{createdKey}</code>
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={copyKey} title="Copy key">
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="GitHub Actions"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expires">Expires At</Label>
+              <Input
+                id="api-key-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <span className="font-mono text-xs">{scope}</span>
+                <span className="text-muted-foreground">{SCOPE_LABELS[scope]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating || !name.trim() || scopes.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              {isCreating ? "Creating..." : "Create Key"}
+            </Button>
+          </div>
+        </div>
+
+        {!isLoading && keys && keys.length > 0 && (
+          <div className="border border-border rounded-xl overflow-hidden divide-y divide-border">
+            {keys.map((key) => {
+              const isExpired = !!key.expiresAt && key.expiresAt.getTime() < Date.now();
+              return (
+                <div key={key.id} className="flex items-center gap-4 px-4 py-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{key.name}</span>
+                      <code className="font-mono text-xs text-muted-foreground">{key.prefix}…</code>
+                      {isExpired && <Badge variant="outline" className="text-red-400 border-red-500/30">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary" className="font-mono text-[10px]">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {key.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(key.lastUsedAt, { addSuffix: true })}`
+                        : "Never used"}
+                      {key.expiresAt && ` · Expires ${format(key.expiresAt, "PP p")}`}
+                    </div>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-400 hover:text-red-300"
+                    title="Revoke"
+                    onClick={() => handleRevoke(key.id, key.name)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { TriangleAlert, Download, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useExportAccount, useDeleteAccount } from "@/hooks/use-account";
+import { type AuthUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface DangerZoneProps {
+  user: AuthUser;
+}
+
+export function DangerZone({ user }: DangerZoneProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const exportAccount = useExportAccount();
+  const deleteAccount = useDeleteAccount();
+
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+
+  const handleExport = () => {
+    exportAccount.mutate(undefined, {
+      onError: (error) => toast({ title: "Could not export account", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleDelete = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!confirm("Delete your account and all of its endpoints and requests? This cannot be undone.")) return;
+
+    // A 6-digit value is an authenticator code, anything else a recovery code
+    const factor = !user.twoFactorEnabled ? {} : /^\d{6}$/.test(code.trim()) ? { code: code.trim() } : { recoveryCode: code };
+    deleteAccount.mutate({ password, ...factor }, {
+      onSuccess: () => {
+        toast({ title: "Account deleted" });
+        setLocation("/");
+      },
+      onError: (error) => toast({ title: "Could not delete account", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card className="border-red-500/30">
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2 text-red-400">
+          <TriangleAlert className="w-4 h-4" />
+          Danger Zone
+        </CardTitle>
+        <CardDescription>
+          Download a copy of your data, or delete your account with all of its endpoints, requests and API keys.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm text-muted-foreground">Profile, endpoints, captured requests, forwards, replays and keys as JSON.</span>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={exportAccount.isPending}>
+            <Download className="w-4 h-4 mr-2" />
+            {exportAccount.isPending ? "Exporting..." : "Export data"}
+          </Button>
+        </div>
+
+        {!isDeleting ? (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-muted-foreground">Export your data first; deleted accounts cannot be restored.</span>
+            <Button size="sm" variant="outline" className="text-red-400 hover:text-red-300" onClick={() => setIsDeleting(true)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete account
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleDelete} className="space-y-4 rounded-lg border border-red-500/30 p-3">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="delete-password">Password</Label>
+                <Input
+                  id="delete-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {user.twoFactorEnabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-code">Authentication or recovery code</Label>
+                  <Input
+                    id="delete-code"
+                    autoComplete="one-time-code"
+                    className="font-mono"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setIsDeleting(false);
+                  setPassword("");
+                  setCode("");
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={deleteAccount.isPending || !password}>
+                {deleteAccount.isPending ? "Deleting..." : "Delete my account"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { LockKeyhole } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useChangePassword } from "@/hooks/use-account";
+import { useToast } from "@/hooks/use-toast";
+
+export function Password() {
+  const { toast } = useToast();
+  const { mutate: changePassword, isPending } = useChangePassword();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const mismatch = confirmPassword.length > 0 && newPassword !== confirmPassword;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    changePassword(
+      { currentPassword, newPassword },
+      {
+        onSuccess: ({ revoked }) => {
+          setCurrentPassword("");
+          setNewPassword("");
+          setConfirmPassword("");
+          toast({
+            title: "Password updated",
+            description: revoked > 0 ? `Signed out ${revoked} other session${revoked === 1 ? "" : "s"}.` : undefined,
+          });
+        },
+        onError: (error) => toast({ title: "Could not change password", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <LockKeyhole className="w-4 h-4" />
+          Password
+        </CardTitle>
+        <CardDescription>Changing your password signs out every other device.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm new password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {mismatch && <p className="text-sm text-red-400">Passwords do not match</p>}
+
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isPending || mismatch || newPassword.length < 8}>
+              {isPending ? "Updating..." : "Change password"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { formatDistanceToNow } from "date-fns";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useSessions, useRevokeSession, useRevokeOtherSessions, type DeviceSession } from "@/hooks/use-sessions";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Rough browser and OS from the user agent, enough to recognise a device
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : /node|curl|axios/i.test(userAgent) ? "CLI"
+    : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export function Sessions() {
+  const { toast } = useToast();
+  const { logout } = useAuth();
+  const { data: sessions, isLoading } = useSessions();
+  const { mutate: revokeSession } = useRevokeSession();
+  const { mutate: revokeOthers, isPending: isRevokingOthers } = useRevokeOtherSessions();
+
+  const onError = (error: Error) => {
+    toast({ title: "Could not revoke session", description: error.message, variant: "destructive" });
+  };
+
+  const handleRevoke = (session: DeviceSession) => {
+    if (session.current) {
+      logout();
+      return;
+    }
+    revokeSession(session.id, { onError });
+  };
+
+  const handleRevokeOthers = () => {
+    if (!confirm("Sign out every other device?")) return;
+    revokeOthers(undefined, {
+      onSuccess: ({ revoked }) => toast({ title: `Signed out ${revoked} other session${revoked === 1 ? "" : "s"}` }),
+      onError,
+    });
+  };
+
+  const hasOthers = !!sessions?.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <MonitorSmartphone className="w-4 h-4" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Revoking a session signs that device out on its next request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isLoading && sessions && sessions.length > 0 && (
+          <div className="border border-border rounded-xl overflow-hidden divide-y divide-border">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{describeDevice(session.userAgent)}</span>
+                    {session.current && (
+                      <Badge variant="outline" className="text-green-400 border-green-500/30">This device</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {session.ipAddress && <span className="font-mono">{session.ipAddress} · </span>}
+                    {session.lastUsedAt
+                      ? `Active ${formatDistanceToNow(session.lastUsedAt, { addSuffix: true })}`
+                      : "Never refreshed"}
+                    {session.createdAt && ` · Signed in ${formatDistanceToNow(session.createdAt, { addSuffix: true })}`}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-400 hover:text-red-300"
+                  onClick={() => handleRevoke(session)}
+                >
+                  {session.current ? "Sign out" : "Revoke"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleRevokeOthers} disabled={!hasOthers || isRevokingOthers}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out other devices
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
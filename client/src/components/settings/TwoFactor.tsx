@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { ShieldCheck, Copy, Check, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  useTwoFactorStatus,
+  useSetupTwoFactor,
+  useEnableTwoFactor,
+  useDisableTwoFactor,
+  useRegenerateRecoveryCodes,
+} from "@/hooks/use-two-factor";
+import { useToast } from "@/hooks/use-toast";
+
+type Mode = "idle" | "regenerate" | "disable";
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function CopyButton({ text, title }: { text: string; title: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={copy} title={title}>
+      {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+    </Button>
+  );
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+          They will not be shown again.
+        </p>
+        <CopyButton text={codes.join("\n")} title="Copy codes" />
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm select-all">
+        {codes.map((code) => (
+          <code key={code}>{code}</code>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={onDone}>I saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactor() {
+  const { toast } = useToast();
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const setup = useSetupTwoFactor();
+  const enable = useEnableTwoFactor();
+  const disable = useDisableTwoFactor();
+  const regenerate = useRegenerateRecoveryCodes();
+
+  const [mode, setMode] = useState<Mode>("idle");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const onError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const reset = () => {
+    setMode("idle");
+    setCode("");
+    setPassword("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+    setup.reset();
+  };
+
+  const handleEnable = () => {
+    enable.mutate(code, {
+      onSuccess: (result) => {
+        reset();
+        setRecoveryCodes(result.recoveryCodes);
+      },
+      onError: onError("Could not enable two-factor authentication"),
+    });
+  };
+
+  const handleRegenerate = () => {
+    regenerate.mutate(code, {
+      onSuccess: (result) => {
+        reset();
+        setRecoveryCodes(result.recoveryCodes);
+      },
+      onError: onError("Could not regenerate recovery codes"),
+    });
+  };
+
+  const handleDisable = () => {
+    disable.mutate(useRecoveryCode ? { password, recoveryCode } : { password, code }, {
+      onSuccess: () => {
+        reset();
+        toast({ title: "Two-factor authentication disabled" });
+      },
+      onError: onError("Could not disable two-factor authentication"),
+    });
+  };
+
+  if (isLoading || !status) return null;
+
+  const pending = setup.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Two-Factor Authentication
+          {status.enabled && <Badge variant="outline" className="text-green-400 border-green-500/30">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status.enabled
+            ? `Signing in asks for a code from your authenticator app${status.enabledAt ? ` (enabled ${format(status.enabledAt, "PP")})` : ""}.`
+            : "Ask for a code from an authenticator app, in addition to your password, when signing in."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+        {!status.enabled && !pending && (
+          <div className="flex justify-end">
+            <Button
+              onClick={() => setup.mutate(undefined, { onError: onError("Could not start setup") })}
+              disabled={setup.isPending}
+            >
+              {setup.isPending ? "Starting..." : "Set up two-factor authentication"}
+            </Button>
+          </div>
+        )}
+
+        {!status.enabled && pending && (
+          <div className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <p>
+                Add this account to an authenticator app such as 1Password, Google Authenticator or Authy.
+                On a phone, open the setup link; elsewhere, enter the key manually.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 font-mono text-xs break-all select-all rounded-md bg-muted px-2 py-1.5">
+                  {pending.secret.match(/.{1,4}/g)?.join(" ")}
+                </code>
+                <CopyButton text={pending.secret} title="Copy key" />
+              </div>
+              <a href={pending.otpauthUrl} className="inline-flex items-center gap-1 text-primary hover:underline">
+                <ExternalLink className="w-3 h-3" />
+                Open setup link
+              </a>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Enter the 6-digit code from the app to finish</Label>
+              <CodeInput value={code} onChange={setCode} disabled={enable.isPending} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={reset}>Cancel</Button>
+              <Button onClick={handleEnable} disabled={enable.isPending || code.length < 6}>
+                {enable.isPending ? "Verifying..." : "Enable"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status.enabled && mode === "idle" && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </span>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setMode("regenerate")}>
+                New recovery codes
+              </Button>
+              <Button size="sm" variant="outline" className="text-red-400 hover:text-red-300" onClick={() => setMode("disable")}>
+                Disable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status.enabled && mode !== "idle" && (
+          <div className="space-y-4">
+            {mode === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            {mode === "disable" && useRecoveryCode ? (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-recovery-code">Recovery code</Label>
+                <Input
+                  id="two-factor-recovery-code"
+                  autoComplete="off"
+                  className="font-mono"
+                  placeholder="xxxxx-xxxxx"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Authentication code</Label>
+                <CodeInput value={code} onChange={setCode} disabled={disable.isPending || regenerate.isPending} />
+              </div>
+            )}
+            {mode === "disable" && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-primary hover:underline"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Lost your authenticator? Use a recovery code"}
+              </button>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={reset}>Cancel</Button>
+              {mode === "disable" ? (
+                <Button
+                  variant="destructive"
+                  onClick={handleDisable}
+                  disabled={disable.isPending || !password || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+                >
+                  {disable.isPending ? "Disabling..." : "Disable two-factor authentication"}
+                </Button>
+              ) : (
+                <Button onClick={handleRegenerate} disabled={regenerate.isPending || code.length < 6}>
+                  {regenerate.isPending ? "Generating..." : "Generate new codes"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
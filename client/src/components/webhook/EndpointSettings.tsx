@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { TUNNEL_ROUTING_STRATEGIES, type TunnelRoutingStrategy, type Webhook } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SlidersHorizontal, Save, Trash2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useUpdateEndpoint, useDeleteEndpoint } from "@/hooks/use-webhooks";
+import { useToast } from "@/hooks/use-toast";
+import { TunnelRulesEditor, toRuleDrafts, toTunnelRules, type TunnelRuleDraft } from "@/components/webhook/TunnelRulesEditor";
+
+interface EndpointSettingsProps {
+  webhook: Webhook;
+}
+
+const ROUTING_OPTIONS: Record<TunnelRoutingStrategy, { label: string; description: string }> = {
+  broadcast: { label: "Broadcast", description: "Every connected tunnel gets each request; the first reply is returned." },
+  round_robin: { label: "Round robin", description: "Connected tunnels take turns." },
+  rules: {
+    label: "Rules",
+    description: "The first matching rule picks a tunnel by name. Requests no rule matches are not tunnelled.",
+  },
+};
+
+function routingOf(webhook: Webhook): TunnelRoutingStrategy {
+  return (TUNNEL_ROUTING_STRATEGIES as readonly string[]).includes(webhook.tunnelRouting || "")
+    ? webhook.tunnelRouting as TunnelRoutingStrategy
+    : "broadcast";
+}
+
+// <input type="datetime-local"> works in local time without seconds
+function toDateTimeInput(value: Date | string | null): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+export function EndpointSettings({ webhook }: EndpointSettingsProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { mutate: updateEndpoint, isPending: isUpdating } = useUpdateEndpoint();
+  const { mutate: deleteEndpoint, isPending: isDeleting } = useDeleteEndpoint();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(webhook.name || "");
+  const [description, setDescription] = useState(webhook.description || "");
+  const [expiresAt, setExpiresAt] = useState(toDateTimeInput(webhook.expiresAt));
+  const [maxRequests, setMaxRequests] = useState(webhook.maxRequests ? String(webhook.maxRequests) : "");
+  const [requestQuota, setRequestQuota] = useState(webhook.requestQuota ? String(webhook.requestQuota) : "");
+  const [isActive, setIsActive] = useState(webhook.isActive !== false);
+  const [tunnelRouting, setTunnelRouting] = useState<TunnelRoutingStrategy>(routingOf(webhook));
+  const [tunnelRules, setTunnelRules] = useState<TunnelRuleDraft[]>(toRuleDrafts(webhook.tunnelRules));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(webhook.name || "");
+      setDescription(webhook.description || "");
+      setExpiresAt(toDateTimeInput(webhook.expiresAt));
+      setMaxRequests(webhook.maxRequests ? String(webhook.maxRequests) : "");
+      setRequestQuota(webhook.requestQuota ? String(webhook.requestQuota) : "");
+      setIsActive(webhook.isActive !== false);
+      setTunnelRouting(routingOf(webhook));
+      setTunnelRules(toRuleDrafts(webhook.tunnelRules));
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = () => {
+    const limit = maxRequests.trim() ? parseInt(maxRequests, 10) : null;
+    if (limit !== null && (isNaN(limit) || limit < 1)) {
+      alert("Request limit must be a positive number.");
+      return;
+    }
+    const quota = requestQuota.trim() ? parseInt(requestQuota, 10) : null;
+    if (quota !== null && (isNaN(quota) || quota < 1)) {
+      alert("Request quota must be a positive number.");
+      return;
+    }
+
+    const rules = toTunnelRules(tunnelRules);
+    if (rules.some((rule) => !rule.tunnel)) {
+      alert("Every routing rule needs a tunnel name.");
+      return;
+    }
+
+    updateEndpoint(
+      {
+        webhookId: webhook.id,
+        updates: {
+          name: name.trim() || null,
+          description: description.trim() || null,
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+          maxRequests: limit,
+          requestQuota: quota,
+          isActive,
+          tunnelRouting,
+          tunnelRules: rules.length > 0 ? rules : null,
+        },
+      },
+      {
+        onSuccess: () => setOpen(false),
+        onError: (error) => {
+          toast({ title: "Update failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm("Delete this endpoint and all of its captured requests? This cannot be undone.")) return;
+
+    deleteEndpoint(webhook.id, {
+      onSuccess: () => setLocation("/"),
+      onError: (error) => {
+        toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 border border-border">
+          <SlidersHorizontal className="w-4 h-4" />
+          Settings
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Endpoint Settings</SheetTitle>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Details</CardTitle>
+              <CardDescription>
+                Name and describe this endpoint so it is easy to find later.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="endpoint-name">Name</Label>
+                <Input
+                  id="endpoint-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Stripe staging"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endpoint-description">Description</Label>
+                <Textarea
+                  id="endpoint-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="min-h-[80px]"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Limits</CardTitle>
+              <CardDescription>
+                Control how long this endpoint accepts requests and how many it accepts in total.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="endpoint-expires">Expires At</Label>
+                <Input
+                  id="endpoint-expires"
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to never expire. Anonymous endpoints extend their expiry while they receive traffic.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endpoint-max-requests">History Limit</Label>
+                <Input
+                  id="endpoint-max-requests"
+                  type="number"
+                  min={1}
+                  value={maxRequests}
+                  onChange={(e) => setMaxRequests(e.target.value)}
+                  placeholder="Unlimited"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {webhook.requestCount ?? 0} received so far. The oldest requests are deleted beyond this.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endpoint-request-quota">Request Quota</Label>
+                <Input
+                  id="endpoint-request-quota"
+                  type="number"
+                  min={1}
+                  value={requestQuota}
+                  onChange={(e) => setRequestQuota(e.target.value)}
+                  placeholder="Unlimited"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Reject further requests with 429 once this many have been received.
+                </p>
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="endpoint-active">Active</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Inactive endpoints reject incoming requests with 410 Gone.
+                  </p>
+                </div>
+                <Switch id="endpoint-active" checked={isActive} onCheckedChange={setIsActive} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Tunnel Routing</CardTitle>
+              <CardDescription>
+                Choose which connected CLI tunnels receive each request. Name a tunnel with{" "}
+                <span className="font-mono">listen --name</span>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Strategy</Label>
+                <Select value={tunnelRouting} onValueChange={(value) => setTunnelRouting(value as TunnelRoutingStrategy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TUNNEL_ROUTING_STRATEGIES.map((option) => (
+                      <SelectItem key={option} value={option}>{ROUTING_OPTIONS[option].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{ROUTING_OPTIONS[tunnelRouting].description}</p>
+              </div>
+
+              {tunnelRouting === "rules" && (
+                <div className="space-y-2">
+                  <Label>Rules</Label>
+                  <p className="text-xs text-muted-foreground">
+                    A request must match every field filled in. Paths match the part after the webhook URL, with * as a wildcard.
+                  </p>
+                  <TunnelRulesEditor rules={tunnelRules} onChange={setTunnelRules} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-2 justify-between">
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting || isUpdating}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              {isDeleting ? "Deleting..." : "Delete Endpoint"}
+            </Button>
+            <Button onClick={handleSave} disabled={isUpdating || isDeleting}>
+              <Save className="w-4 h-4 mr-2" />
+              {isUpdating ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
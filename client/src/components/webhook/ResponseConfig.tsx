@@ -4,13 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Settings, Save, X } from "lucide-react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 
 interface ResponseConfigProps {
   webhook: Webhook;
-  onUpdate: (config: { responseStatus: string | number; responseHeaders: Record<string, string>; responseBody: string }) => void;
+  onUpdate: (config: { responseStatus: string | number; responseHeaders: Record<string, string>; responseBody: string; forwardUrl: string; forwardMode: string }) => void;
   isUpdating?: boolean;
 }
 
@@ -23,6 +24,8 @@ export function ResponseConfig({ webhook, onUpdate, isUpdating }: ResponseConfig
       : '{\n  "Content-Type": "application/json"\n}'
   );
   const [body, setBody] = useState(webhook.responseBody || "OK");
+  const [forwardUrl, setForwardUrl] = useState(webhook.forwardUrl || "");
+  const [proxyMode, setProxyMode] = useState(webhook.forwardMode === "proxy");
 
   const handleSave = () => {
     try {
@@ -31,6 +34,8 @@ export function ResponseConfig({ webhook, onUpdate, isUpdating }: ResponseConfig
         responseStatus: status,
         responseHeaders: parsedHeaders,
         responseBody: body,
+        forwardUrl: forwardUrl.trim(),
+        forwardMode: proxyMode ? "proxy" : "async",
       });
       setOpen(false);
     } catch (error) {
@@ -46,6 +51,8 @@ export function ResponseConfig({ webhook, onUpdate, isUpdating }: ResponseConfig
         : '{\n  "Content-Type": "application/json"\n}'
     );
     setBody(webhook.responseBody || "OK");
+    setForwardUrl(webhook.forwardUrl || "");
+    setProxyMode(webhook.forwardMode === "proxy");
   };
 
   return (
@@ -118,6 +125,47 @@ export function ResponseConfig({ webhook, onUpdate, isUpdating }: ResponseConfig
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Forwarding</CardTitle>
+              <CardDescription>
+                Relay every captured request to another URL with the original method, headers and body.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forwardUrl">Forward URL</Label>
+                <Input
+                  id="forwardUrl"
+                  type="url"
+                  value={forwardUrl}
+                  onChange={(e) => setForwardUrl(e.target.value)}
+                  placeholder="https://staging.example.com/webhooks"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Sub-paths and query strings are appended. Leave empty to disable.
+                </p>
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="proxyMode">Forward and respond (proxy)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Wait for the forward target and return its response to the caller.
+                    The response settings above are only used on timeout or error.
+                  </p>
+                </div>
+                <Switch
+                  id="proxyMode"
+                  checked={proxyMode}
+                  onCheckedChange={setProxyMode}
+                  disabled={!forwardUrl.trim()}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Actions */}
           <div className="flex gap-2 justify-end">
             <Button
@@ -0,0 +1,62 @@
+import { formatDistanceToNow } from "date-fns";
+import { type TunnelClientInfo, type TunnelRoutingStrategy, type Webhook } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+const ROUTING_LABELS: Record<TunnelRoutingStrategy, string> = {
+  broadcast: "Broadcast to every tunnel",
+  round_robin: "Round robin",
+  rules: "Routing rules",
+};
+
+interface TunnelClientsProps {
+  webhook: Webhook;
+  tunnels: TunnelClientInfo[];
+}
+
+// Live status line in the header, opening the list of connected tunnel clients
+export function TunnelClients({ webhook, tunnels }: TunnelClientsProps) {
+  const routing = ROUTING_LABELS[(webhook.tunnelRouting || "broadcast") as TunnelRoutingStrategy] ?? ROUTING_LABELS.broadcast;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="text-[10px] text-muted-foreground font-mono mt-1 flex items-center gap-1.5 hover:text-foreground transition-colors">
+          <div className={cn("w-1.5 h-1.5 rounded-full", tunnels.length > 0 ? "bg-green-500 animate-pulse" : "bg-muted-foreground/50")} />
+          {tunnels.length === 0
+            ? "No Tunnel Connected"
+            : `${tunnels.length} ${tunnels.length === 1 ? "Tunnel" : "Tunnels"} Connected`}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-border">
+          <div className="text-sm font-medium">Tunnels</div>
+          <div className="text-xs text-muted-foreground">{routing}</div>
+        </div>
+
+        {tunnels.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-muted-foreground text-center">
+            Run <span className="font-mono">npm run cli -- listen</span> from a checkout of this repository to forward requests to your machine.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border max-h-72 overflow-y-auto">
+            {tunnels.map((tunnel) => (
+              <li key={tunnel.id} className="px-4 py-2.5 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-mono truncate">{tunnel.name}</div>
+                  <div className="text-[10px] text-muted-foreground">
+                    Connected {formatDistanceToNow(new Date(tunnel.connectedAt), { addSuffix: true })}
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="text-sm font-mono">{tunnel.handled}</div>
+                  <div className="text-[10px] text-muted-foreground">handled</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
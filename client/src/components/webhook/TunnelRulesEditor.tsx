@@ -0,0 +1,99 @@
+import { type TunnelRule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+
+// Every field as typed, including empty ones; toTunnelRules drops the blanks
+export type TunnelRuleDraft = Record<keyof TunnelRule, string>;
+
+export const EMPTY_RULE: TunnelRuleDraft = { tunnel: "", path: "", header: "", headerValue: "", bodyContains: "" };
+
+export function toRuleDrafts(json: string | null): TunnelRuleDraft[] {
+  if (!json) return [];
+  try {
+    return (JSON.parse(json) as TunnelRule[]).map((rule) => ({ ...EMPTY_RULE, ...rule }));
+  } catch {
+    return [];
+  }
+}
+
+export function toTunnelRules(drafts: TunnelRuleDraft[]): TunnelRule[] {
+  return drafts.map((draft) => {
+    const rule: TunnelRule = { tunnel: draft.tunnel.trim() };
+    if (draft.path.trim()) rule.path = draft.path.trim();
+    if (draft.header.trim()) rule.header = draft.header.trim();
+    if (draft.header.trim() && draft.headerValue) rule.headerValue = draft.headerValue;
+    if (draft.bodyContains) rule.bodyContains = draft.bodyContains;
+    return rule;
+  });
+}
+
+interface TunnelRulesEditorProps {
+  rules: TunnelRuleDraft[];
+  onChange: (rules: TunnelRuleDraft[]) => void;
+}
+
+export function TunnelRulesEditor({ rules, onChange }: TunnelRulesEditorProps) {
+  const update = (index: number, field: keyof TunnelRule, value: string) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => (
+        <div key={index} className="rounded-md border border-border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground w-6 shrink-0">#{index + 1}</span>
+            <Input
+              value={rule.tunnel}
+              onChange={(e) => update(index, "tunnel", e.target.value)}
+              placeholder="Tunnel name"
+              className="h-8 font-mono"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              title="Remove rule"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2 pl-8">
+            <Input
+              value={rule.path}
+              onChange={(e) => update(index, "path", e.target.value)}
+              placeholder="Path, e.g. /billing/*"
+              className="h-8 font-mono col-span-2"
+            />
+            <Input
+              value={rule.header}
+              onChange={(e) => update(index, "header", e.target.value)}
+              placeholder="Header name"
+              className="h-8 font-mono"
+            />
+            <Input
+              value={rule.headerValue}
+              onChange={(e) => update(index, "headerValue", e.target.value)}
+              placeholder="Header value (any)"
+              disabled={!rule.header.trim()}
+              className="h-8 font-mono"
+            />
+            <Input
+              value={rule.bodyContains}
+              onChange={(e) => update(index, "bodyContains", e.target.value)}
+              placeholder="Body contains"
+              className="h-8 font-mono col-span-2"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...rules, { ...EMPTY_RULE }])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Rule
+      </Button>
+    </div>
+  );
+}
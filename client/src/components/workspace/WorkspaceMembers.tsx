@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { WorkspaceRole } from "@shared/schema";
+import { Users, UserPlus, Trash2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  hasWorkspaceRole,
+  useInviteMember,
+  useRemoveMember,
+  useRevokeInvite,
+  useUpdateMemberRole,
+  type InviteInput,
+  type WorkspaceDetails,
+} from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+
+type AssignableRole = InviteInput["role"];
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Everything, including deleting the workspace",
+  admin: "Manage members, move and delete endpoints",
+  member: "Create endpoints, change settings, replay requests",
+  viewer: "Read endpoints and captured requests",
+};
+
+// Mirrors canManageMember on the server: nobody changes the owner, only the owner manages admins
+function canManage(actorRole: WorkspaceRole, targetRole: WorkspaceRole): boolean {
+  if (targetRole === "owner" || !hasWorkspaceRole(actorRole, "admin")) return false;
+  return actorRole === "owner" || !hasWorkspaceRole(targetRole, "admin");
+}
+
+interface WorkspaceMembersProps {
+  workspace: WorkspaceDetails;
+  currentUserId: string;
+}
+
+export function WorkspaceMembers({ workspace, currentUserId }: WorkspaceMembersProps) {
+  const { toast } = useToast();
+  const { mutate: inviteMember, isPending: isInviting } = useInviteMember(workspace.id);
+  const { mutate: revokeInvite } = useRevokeInvite(workspace.id);
+  const { mutate: updateRole } = useUpdateMemberRole(workspace.id);
+  const { mutate: removeMember } = useRemoveMember(workspace.id);
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AssignableRole>("member");
+
+  const isAdmin = hasWorkspaceRole(workspace.role, "admin");
+  // Only the owner may hand out the admin role
+  const assignableRoles: AssignableRole[] = workspace.role === "owner" ? ["admin", "member", "viewer"] : ["member", "viewer"];
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    inviteMember({ email, role }, {
+      onSuccess: (invite) => {
+        toast({ title: "Invite sent", description: `${invite.email} can join as ${invite.role} for 7 days.` });
+        setEmail("");
+      },
+      onError: (error) => {
+        toast({ title: "Could not send invite", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRoleChange = (userId: string, next: AssignableRole) => {
+    updateRole({ userId, role: next }, {
+      onError: (error) => {
+        toast({ title: "Could not change role", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRemove = (userId: string, memberEmail: string) => {
+    if (!confirm(`Remove ${memberEmail} from ${workspace.name}?`)) return;
+    removeMember(userId, {
+      onError: (error) => {
+        toast({ title: "Could not remove member", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRevoke = (inviteId: string, inviteEmail: string) => {
+    if (!confirm(`Revoke the invite for ${inviteEmail}? The link will stop working.`)) return;
+    revokeInvite(inviteId, {
+      onError: (error) => {
+        toast({ title: "Could not revoke invite", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          Everyone here can see the workspace's endpoints and captured requests. What else they can do depends on their role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isAdmin && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Label htmlFor="invite-email">Invite by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                required
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as AssignableRole)}>
+                <SelectTrigger className="w-32 shrink-0 capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={isInviting || !email.trim()}>
+                <UserPlus className="w-4 h-4 mr-2" />
+                {isInviting ? "Sending..." : "Invite"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}.</p>
+          </form>
+        )}
+
+        <div className="border border-border rounded-xl overflow-hidden divide-y divide-border">
+          {workspace.members.map((member) => {
+            const isSelf = member.userId === currentUserId;
+            const isManageable = canManage(workspace.role, member.role);
+            return (
+              <div key={member.userId} className="flex items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">
+                    {member.name || member.email}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </div>
+                  {member.name && <div className="text-xs text-muted-foreground truncate">{member.email}</div>}
+                </div>
+                {isManageable && !isSelf ? (
+                  <Select value={member.role} onValueChange={(value) => handleRoleChange(member.userId, value as AssignableRole)}>
+                    <SelectTrigger className="w-28 h-8 capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary" className="capitalize" title={ROLE_DESCRIPTIONS[member.role]}>{member.role}</Badge>
+                )}
+                {isManageable && !isSelf && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-400 hover:text-red-300"
+                    title="Remove"
+                    onClick={() => handleRemove(member.userId, member.email)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {isAdmin && workspace.invites.length > 0 && (
+          <div className="space-y-2">
+            <Label>Pending invites</Label>
+            <div className="border border-border rounded-xl overflow-hidden divide-y divide-border">
+              {workspace.invites.map((invite) => (
+                <div key={invite.id} className="flex items-center gap-4 px-4 py-3">
+                  <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{invite.email}</div>
+                    <div className="text-xs text-muted-foreground">Expires {format(invite.expiresAt, "PP p")}</div>
+                  </div>
+                  <Badge variant="outline" className="capitalize">{invite.role}</Badge>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-400 hover:text-red-300"
+                    title="Revoke invite"
+                    onClick={() => handleRevoke(invite.id, invite.email)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Check, ChevronsUpDown, Plus, Settings, User, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCreateWorkspace, type WorkspaceSummary } from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+
+interface WorkspaceSwitcherProps {
+  current: WorkspaceSummary | null; // null is the personal account
+  workspaces: WorkspaceSummary[];
+  onSelect: (workspaceId: string | null) => void;
+}
+
+export function WorkspaceSwitcher({ current, workspaces, onSelect }: WorkspaceSwitcherProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { mutate: createWorkspace, isPending: isCreating } = useCreateWorkspace();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    createWorkspace(name.trim(), {
+      onSuccess: (workspace) => {
+        onSelect(workspace.id);
+        setIsDialogOpen(false);
+        setName("");
+      },
+      onError: (error) => {
+        toast({ title: "Could not create workspace", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2 border border-border">
+            {current ? <Users className="w-4 h-4" /> : <User className="w-4 h-4" />}
+            <span className="max-w-[12rem] truncate">{current ? current.name : "Personal"}</span>
+            <ChevronsUpDown className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onSelect={() => onSelect(null)}>
+            <User className="w-4 h-4 mr-2" />
+            <span className="flex-1">Personal</span>
+            {!current && <Check className="w-4 h-4" />}
+          </DropdownMenuItem>
+          {workspaces.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Workspaces</DropdownMenuLabel>
+              {workspaces.map((workspace) => (
+                <DropdownMenuItem key={workspace.id} onSelect={() => onSelect(workspace.id)}>
+                  <Users className="w-4 h-4 mr-2" />
+                  <span className="flex-1 truncate">{workspace.name}</span>
+                  <span className="text-xs text-muted-foreground ml-2">{workspace.role}</span>
+                  {current?.id === workspace.id && <Check className="w-4 h-4 ml-2" />}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          {current && (
+            <DropdownMenuItem onSelect={() => setLocation(`/workspaces/${current.id}`)}>
+              <Settings className="w-4 h-4 mr-2" />
+              Manage workspace
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setIsDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New workspace</DialogTitle>
+              <DialogDescription>
+                Share endpoints with your team. You can invite members once it is created.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Payments team"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating || !name.trim()}>
+                {isCreating ? "Creating..." : "Create workspace"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
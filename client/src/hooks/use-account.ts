@@ -0,0 +1,72 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { z } from "zod";
+import { apiRequest, authFetch } from "@/lib/queryClient";
+import { setTokens } from "@/lib/auth";
+
+export type UpdateProfileInput = z.infer<typeof api.auth.updateProfile.input>;
+export type ChangePasswordInput = z.infer<typeof api.auth.changePassword.input>;
+export type DeleteAccountInput = z.infer<typeof api.auth.deleteAccount.input>;
+
+// PATCH /api/user/profile
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateProfileInput) => {
+      const res = await apiRequest(api.auth.updateProfile.method, api.auth.updateProfile.path, input);
+      return api.auth.updateProfile.responses[200].parse(await res.json());
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData([api.auth.profile.path], profile);
+    },
+  });
+}
+
+// POST /api/user/password - other devices are signed out
+export function useChangePassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ChangePasswordInput) => {
+      const res = await apiRequest(api.auth.changePassword.method, api.auth.changePassword.path, input);
+      return api.auth.changePassword.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.auth.sessions.path] });
+    },
+  });
+}
+
+// GET /api/user/export - saves the JSON file the server names in Content-Disposition
+export function useExportAccount() {
+  return useMutation({
+    mutationFn: async () => {
+      const res = await authFetch(api.auth.exportAccount.path, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") || "")?.[1]
+        ?? "test-webhook-export.json";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+}
+
+// DELETE /api/user - the session is gone with the account, so forget the tokens too
+export function useDeleteAccount() {
+  return useMutation({
+    mutationFn: async (input: DeleteAccountInput) => {
+      await apiRequest(api.auth.deleteAccount.method, api.auth.deleteAccount.path, input);
+    },
+    onSuccess: () => {
+      setTokens(null);
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl, apiKeySchema } from "@shared/routes";
+import { z } from "zod";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export type ApiKeySummary = z.infer<typeof apiKeySchema>;
+export type CreateApiKeyInput = z.infer<typeof api.apiKeys.create.input>;
+
+// GET /api/keys
+export function useApiKeys() {
+  return useQuery({
+    queryKey: [api.apiKeys.list.path],
+    queryFn: async (context): Promise<ApiKeySummary[]> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.apiKeys.list.responses[200].parse(data) : [];
+    },
+  });
+}
+
+// POST /api/keys - resolves with the plain key, which is only shown once
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateApiKeyInput) => {
+      const res = await apiRequest(api.apiKeys.create.method, api.apiKeys.create.path, input);
+      return api.apiKeys.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiKeys.list.path] });
+    },
+  });
+}
+
+// DELETE /api/keys/:id
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(api.apiKeys.revoke.method, buildUrl(api.apiKeys.revoke.path, { id }));
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiKeys.list.path] });
+    },
+  });
+}
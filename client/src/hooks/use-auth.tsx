@@ -0,0 +1,114 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { z } from "zod";
+import { getQueryFn } from "@/lib/queryClient";
+import { getTokens, setTokens, subscribeTokens, signOut } from "@/lib/auth";
+
+export type AuthUser = z.infer<typeof api.auth.profile.responses[200]>;
+type LoginInput = z.infer<typeof api.auth.login.input>;
+type RegisterInput = z.infer<typeof api.auth.register.input>;
+type LoginTwoFactorInput = z.infer<typeof api.auth.loginTwoFactor.input>;
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  login: ReturnType<typeof useSessionMutation<LoginInput>>;
+  register: ReturnType<typeof useSessionMutation<RegisterInput>>;
+  loginTwoFactor: ReturnType<typeof useSessionMutation<LoginTwoFactorInput>>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Data that belongs to the signed-in user and must not outlive the session
+const USER_QUERY_KEYS = [
+  api.auth.profile.path,
+  api.endpoints.list.path,
+  api.apiKeys.list.path,
+  api.auth.sessions.path,
+  api.auth.twoFactor.path,
+  api.auth.usage.path,
+  api.workspaces.list.path,
+  api.workspaces.get.path,
+];
+
+// POST login/register/2FA, then store the returned tokens. A login for an account with
+// 2FA resolves with a challenge instead, which the caller finishes with loginTwoFactor.
+function useSessionMutation<T>(
+  route: typeof api.auth.login | typeof api.auth.register | typeof api.auth.loginTwoFactor
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: T) => {
+      const res = await fetch(route.path, {
+        method: route.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Authentication failed");
+      return api.auth.login.responses[200].parse(data);
+    },
+    onSuccess: (session) => {
+      if ("twoFactorRequired" in session) return;
+      setTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+      USER_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+    },
+  });
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [isSignedIn, setIsSignedIn] = useState(() => !!getTokens());
+
+  // Follow sign-in and sign-out, including a failed silent refresh
+  useEffect(() => subscribeTokens(() => setIsSignedIn(!!getTokens())), []);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      USER_QUERY_KEYS.forEach((key) => queryClient.removeQueries({ queryKey: [key] }));
+    }
+  }, [isSignedIn, queryClient]);
+
+  const { data: user, isLoading } = useQuery({
+    queryKey: [api.auth.profile.path],
+    queryFn: async (context): Promise<AuthUser | null> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.auth.profile.responses[200].parse(data) : null;
+    },
+    enabled: isSignedIn,
+  });
+
+  const login = useSessionMutation<LoginInput>(api.auth.login);
+  const register = useSessionMutation<RegisterInput>(api.auth.register);
+  const loginTwoFactor = useSessionMutation<LoginTwoFactorInput>(api.auth.loginTwoFactor);
+
+  const logout = () => {
+    void signOut();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: isSignedIn ? user ?? null : null,
+        isLoading: isSignedIn && isLoading,
+        login,
+        register,
+        loginTwoFactor,
+        logout,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
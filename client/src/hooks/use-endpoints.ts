@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { type Webhook } from "@shared/schema";
+import { apiRequest, authFetch } from "@/lib/queryClient";
+import { getAnonymousEndpointIds, forgetAnonymousEndpoints } from "@/lib/localStorage";
+
+// GET /api/endpoints - personal endpoints, or a workspace's when workspaceId is set; null when signed out
+export function useMyEndpoints(workspaceId: string | null = null) {
+  return useQuery({
+    queryKey: [api.endpoints.list.path, workspaceId],
+    queryFn: async (): Promise<Webhook[] | null> => {
+      const url = workspaceId
+        ? `${api.endpoints.list.path}?workspaceId=${encodeURIComponent(workspaceId)}`
+        : api.endpoints.list.path;
+      const res = await authFetch(url);
+      if (res.status === 401) return null;
+      if (!res.ok) {
+        const error = await res.json().catch(() => null);
+        throw new Error(error?.message || "Failed to list endpoints");
+      }
+      return api.endpoints.list.responses[200].parse(await res.json());
+    },
+    staleTime: 30 * 1000,
+  });
+}
+
+// POST /api/webhooks as the signed-in user, optionally into a workspace
+export function useCreateEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, workspaceId }: { name: string; workspaceId?: string | null }): Promise<Webhook> => {
+      const res = await apiRequest(api.webhooks.create.method, api.webhooks.create.path, {
+        name: name || undefined,
+        workspaceId: workspaceId || undefined,
+      });
+      return api.webhooks.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([api.webhooks.get.path, data.id], data);
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
+
+// POST /api/endpoints/:id/claim for every anonymous endpoint created in this browser
+export function useClaimAnonymousEndpoints() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const ids = getAnonymousEndpointIds();
+      const settled = await Promise.allSettled(
+        ids.map((id) => apiRequest(api.endpoints.claim.method, buildUrl(api.endpoints.claim.path, { id })))
+      );
+
+      // Expired endpoints (404) and ones owned by someone else (409) can never be claimed, so drop them too
+      const done = ids.filter((_, index) => {
+        const result = settled[index];
+        return result.status === "fulfilled" || /^(404|409):/.test(String(result.reason?.message));
+      });
+      forgetAnonymousEndpoints(done);
+
+      return settled.filter((result) => result.status === "fulfilled").length;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
+
+// POST /api/endpoints/:id/move - null moves it to the personal account
+export function useMoveEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, workspaceId }: { id: string; workspaceId: string | null }): Promise<Webhook> => {
+      const res = await apiRequest(api.endpoints.move.method, buildUrl(api.endpoints.move.path, { id }), { workspaceId });
+      return api.endpoints.move.responses[200].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([api.webhooks.get.path, data.id], data);
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
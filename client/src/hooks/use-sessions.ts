@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl, sessionSchema } from "@shared/routes";
+import { z } from "zod";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export type DeviceSession = z.infer<typeof sessionSchema>;
+
+// GET /api/auth/sessions
+export function useSessions() {
+  return useQuery({
+    queryKey: [api.auth.sessions.path],
+    queryFn: async (context): Promise<DeviceSession[]> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.auth.sessions.responses[200].parse(data) : [];
+    },
+  });
+}
+
+// DELETE /api/auth/sessions/:id
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(api.auth.revokeSession.method, buildUrl(api.auth.revokeSession.path, { id }));
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.auth.sessions.path] });
+    },
+  });
+}
+
+// DELETE /api/auth/sessions - every session except this one
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(api.auth.revokeOtherSessions.method, api.auth.revokeOtherSessions.path);
+      return api.auth.revokeOtherSessions.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.auth.sessions.path] });
+    },
+  });
+}
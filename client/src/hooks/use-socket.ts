@@ -1,27 +1,57 @@
 import { useEffect, useState } from "react";
 import io, { Socket } from "socket.io-client";
-import { WS_EVENTS, type WebhookRequest } from "@shared/schema";
+import {
+  WS_EVENTS,
+  type Webhook,
+  type WebhookRequest,
+  type ForwardAttempt,
+  type RequestRejectedEvent,
+  type SubscribeAck,
+  type TunnelClientInfo,
+  type TunnelsEvent,
+} from "@shared/schema";
 import { useQueryClient } from "@tanstack/react-query";
 import { api } from "@shared/routes";
-import { storeRequest } from "@/lib/localStorage";
+import { storeRequest, getViewerToken } from "@/lib/localStorage";
+import { getAccessToken } from "@/lib/auth";
+import { useAuth } from "@/hooks/use-auth";
+import { type RequestPages } from "@/hooks/use-webhooks";
 
 export function useSocket(webhookId: string | undefined) {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [connected, setConnected] = useState(false);
+  const [lastRejection, setLastRejection] = useState<RequestRejectedEvent | null>(null);
+  const [subscribeError, setSubscribeError] = useState<string | null>(null);
+  const [tunnels, setTunnels] = useState<TunnelClientInfo[]>([]);
   const queryClient = useQueryClient();
+  // Reconnect with the new identity after signing in or out
+  const { user } = useAuth();
+  const userId = user?.id;
 
   useEffect(() => {
     if (!webhookId) return;
 
-    // Connect to the same host
-    const socketInstance = io(window.location.origin);
+    // Connect to the same host, sending a fresh access token on every (re)connect
+    const socketInstance = io(window.location.origin, {
+      auth: async (cb) => {
+        const token = await getAccessToken();
+        cb(token ? { token } : {});
+      },
+    });
 
     socketInstance.on("connect", () => {
       setConnected(true);
       console.log("[WS] Connected");
       
-      // Join the room for this webhook
-      socketInstance.emit(WS_EVENTS.JOIN_DASHBOARD, webhookId);
+      // Join the room for this webhook; anonymous endpoints need the token from when they were created
+      socketInstance.emit(
+        WS_EVENTS.JOIN_DASHBOARD,
+        { endpointId: webhookId, viewerToken: getViewerToken(webhookId) },
+        (ack: SubscribeAck) => {
+          setSubscribeError(ack.ok ? null : ack.message || "Live updates are unavailable");
+          if (!ack.ok) console.warn("[WS] Could not join dashboard:", ack.message);
+        }
+      );
     });
 
     socketInstance.on("disconnect", () => {
@@ -37,22 +67,55 @@ export function useSocket(webhookId: string | undefined) {
       storeRequest(webhookId, newRequest);
       
       // Optimistically update the query cache
-      queryClient.setQueryData(
+      queryClient.setQueryData<RequestPages>(
         [api.webhooks.listRequests.path, webhookId],
-        (oldData: WebhookRequest[] | undefined) => {
-          if (!oldData) return [newRequest];
-          // Add to beginning of list
-          return [newRequest, ...oldData];
+        (oldData) => {
+          if (!oldData) return { pages: [{ items: [newRequest], nextCursor: null }], pageParams: [null] };
+          // Add to beginning of the first page
+          const [first, ...rest] = oldData.pages;
+          return { ...oldData, pages: [{ ...first, items: [newRequest, ...first.items] }, ...rest] };
         }
       );
+
+      // Active searches are re-run so matching requests show up
+      queryClient.invalidateQueries({ queryKey: [api.webhooks.search.path, webhookId] });
+    });
+
+    // Handle forwarding results, which arrive after the request itself
+    socketInstance.on(WS_EVENTS.FORWARD_RESULT, (attempt: ForwardAttempt) => {
+      queryClient.setQueryData(
+        [api.requests.listForwards.path, attempt.requestId],
+        (oldData: ForwardAttempt[] | undefined) => [attempt, ...(oldData || [])]
+      );
+    });
+
+    // Deliveries turned away with a 429 are not stored, so only the counters change
+    socketInstance.on(WS_EVENTS.REQUEST_REJECTED, (event: RequestRejectedEvent) => {
+      setLastRejection(event);
+      queryClient.setQueryData<Webhook | null>(
+        [api.webhooks.get.path, webhookId],
+        (oldData) => oldData && {
+          ...oldData,
+          rejectedCount: (oldData.rejectedCount || 0) + 1,
+          lastRejectedAt: new Date(event.timestamp),
+        }
+      );
+    });
+
+    // The full list of connected tunnels, sent on joining and whenever it changes
+    socketInstance.on(WS_EVENTS.TUNNELS, (event: TunnelsEvent) => {
+      if (event.endpointId === webhookId) setTunnels(event.tunnels);
     });
 
     setSocket(socketInstance);
 
     return () => {
       socketInstance.disconnect();
+      setLastRejection(null);
+      setSubscribeError(null);
+      setTunnels([]);
     };
-  }, [webhookId, queryClient]);
+  }, [webhookId, userId, queryClient]);
 
-  return { socket, connected };
+  return { socket, connected, subscribeError, lastRejection, tunnels };
 }
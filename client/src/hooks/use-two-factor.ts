@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import { z } from "zod";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export type TwoFactorStatus = z.infer<typeof api.auth.twoFactor.responses[200]>;
+export type DisableTwoFactorInput = z.infer<typeof api.auth.twoFactorDisable.input>;
+
+// Enabling or disabling 2FA changes both the status and the profile's twoFactorEnabled
+function useInvalidateTwoFactor() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [api.auth.twoFactor.path] });
+    queryClient.invalidateQueries({ queryKey: [api.auth.profile.path] });
+  };
+}
+
+// GET /api/auth/2fa
+export function useTwoFactorStatus() {
+  return useQuery({
+    queryKey: [api.auth.twoFactor.path],
+    queryFn: async (context): Promise<TwoFactorStatus | null> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.auth.twoFactor.responses[200].parse(data) : null;
+    },
+  });
+}
+
+// POST /api/auth/2fa/setup - a new secret to add to the authenticator app
+export function useSetupTwoFactor() {
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(api.auth.twoFactorSetup.method, api.auth.twoFactorSetup.path);
+      return api.auth.twoFactorSetup.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// POST /api/auth/2fa/enable - resolves with the recovery codes, which are only shown once
+export function useEnableTwoFactor() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest(api.auth.twoFactorEnable.method, api.auth.twoFactorEnable.path, { code });
+      return api.auth.twoFactorEnable.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+// POST /api/auth/2fa/disable
+export function useDisableTwoFactor() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (input: DisableTwoFactorInput) => {
+      await apiRequest(api.auth.twoFactorDisable.method, api.auth.twoFactorDisable.path, input);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+// POST /api/auth/2fa/recovery-codes
+export function useRegenerateRecoveryCodes() {
+  const invalidate = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest(
+        api.auth.regenerateRecoveryCodes.method,
+        api.auth.regenerateRecoveryCodes.path,
+        { code }
+      );
+      return api.auth.regenerateRecoveryCodes.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { api, usageSchema } from "@shared/routes";
+import { z } from "zod";
+import { getQueryFn } from "@/lib/queryClient";
+
+export type Usage = z.infer<typeof usageSchema>;
+
+// GET /api/user/usage
+export function useUsage() {
+  return useQuery({
+    queryKey: [api.auth.usage.path],
+    queryFn: async (context): Promise<Usage | null> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.auth.usage.responses[200].parse(data) : null;
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface VirtualListOptions {
+  count: number;
+  rowHeight: number; // Fixed row height in px, including spacing
+  overscan?: number; // Extra rows rendered above and below the viewport
+  onEndReached?: () => void;
+  endThreshold?: number; // Rows from the end at which onEndReached fires
+}
+
+// Windowed rendering for long, fixed-height lists: only the visible rows are mounted
+export function useVirtualList({ count, rowHeight, overscan = 6, onEndReached, endThreshold = 10 }: VirtualListOptions) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  // Ask for the next page once the user scrolls close to the end
+  useEffect(() => {
+    if (onEndReached && count > 0 && viewportHeight > 0 && end >= count - endThreshold) {
+      onEndReached();
+    }
+  }, [end, count, endThreshold, viewportHeight, onEndReached]);
+
+  return {
+    containerRef,
+    onScroll,
+    totalHeight: count * rowHeight,
+    start,
+    end,
+    offsetTop: start * rowHeight,
+  };
+}
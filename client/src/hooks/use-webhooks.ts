@@ -1,7 +1,9 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import { type Webhook, type WebhookRequest } from "@shared/schema";
-import { getStoredRequests, clearStoredRequests } from "@/lib/localStorage";
+import { type Webhook, type WebhookRequest, type ForwardAttempt, type Replay, type UpdateEndpoint } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { getStoredRequests, clearStoredRequests, rememberAnonymousEndpoint, rememberViewerToken } from "@/lib/localStorage";
+import { z } from "zod";
 
 // GET /api/webhooks/:id
 export function useWebhook(id: string) {
@@ -9,7 +11,7 @@ export function useWebhook(id: string) {
     queryKey: [api.webhooks.get.path, id],
     queryFn: async () => {
       const url = buildUrl(api.webhooks.get.path, { id });
-      const res = await fetch(url);
+      const res = await authFetch(url);
       if (res.status === 404) return null;
       if (!res.ok) throw new Error("Failed to fetch webhook");
       return api.webhooks.get.responses[200].parse(await res.json());
@@ -23,7 +25,7 @@ export function useCreateWebhook() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async () => {
-      const res = await fetch(api.webhooks.create.path, {
+      const res = await authFetch(api.webhooks.create.path, {
         method: api.webhooks.create.method,
       });
       if (!res.ok) throw new Error("Failed to create webhook session");
@@ -32,53 +34,83 @@ export function useCreateWebhook() {
     onSuccess: (data) => {
       // Pre-seed the cache for the newly created webhook
       queryClient.setQueryData([api.webhooks.get.path, data.id], data);
+      // Anonymous sessions can be claimed into an account after signing in
+      if (!data.userId) rememberAnonymousEndpoint(data.id);
+      // Needed to receive an anonymous endpoint's requests live
+      if (data.viewerToken) rememberViewerToken(data.id, data.viewerToken);
     },
   });
 }
 
-// GET /api/webhooks/:id/requests
+export type RequestPage = z.infer<typeof api.webhooks.listRequests.responses[200]>;
+export type RequestPages = InfiniteData<RequestPage, string | null>;
+
+const REQUEST_PAGE_SIZE = 50;
+
+// GET /api/webhooks/:id/requests (cursor paginated, newest first)
 export function useWebhookRequests(webhookId: string) {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: [api.webhooks.listRequests.path, webhookId],
-    queryFn: async () => {
-      const url = buildUrl(api.webhooks.listRequests.path, { id: webhookId });
-      const res = await fetch(url);
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<RequestPage> => {
+      const params = new URLSearchParams({ limit: String(REQUEST_PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+
+      const url = `${buildUrl(api.webhooks.listRequests.path, { id: webhookId })}?${params}`;
+      const res = await authFetch(url);
       
       // Load from localStorage
-      const storedRequests = getStoredRequests(webhookId);
+      const storedRequests = pageParam ? [] : getStoredRequests(webhookId);
       
       if (!res.ok) {
+        if (pageParam) throw new Error("Failed to load more requests");
         // If server request fails, use localStorage data
         console.log("Using stored requests from localStorage");
-        return storedRequests;
+        return { items: storedRequests, nextCursor: null };
       }
       
-      const serverRequests = api.webhooks.listRequests.responses[200].parse(await res.json());
-      
-      // Merge server requests with stored requests (remove duplicates based on id)
-      const merged = [...serverRequests];
-      const serverIds = new Set(serverRequests.map(r => r.id));
-      
-      storedRequests.forEach(req => {
-        if (!serverIds.has(req.id)) {
-          merged.push(req);
-        }
-      });
+      const page = api.webhooks.listRequests.responses[200].parse(await res.json());
+      if (storedRequests.length === 0) return page;
+
+      // Merge stored requests into the first page (remove duplicates based on id),
+      // but only those within its time range so later pages stay in order
+      const timeOf = (r: WebhookRequest) => (r.timestamp ? new Date(r.timestamp).getTime() : 0);
+      const oldest = page.nextCursor && page.items.length > 0 ? timeOf(page.items[page.items.length - 1]) : 0;
+      const serverIds = new Set(page.items.map(r => r.id));
+      const merged = [
+        ...page.items,
+        ...storedRequests.filter(r => !serverIds.has(r.id) && timeOf(r) >= oldest),
+      ];
       
       // Sort by timestamp (newest first)
-      merged.sort((a, b) => {
-        const aTime = a.timestamp ? new Date(a.timestamp).getTime() : 0;
-        const bTime = b.timestamp ? new Date(b.timestamp).getTime() : 0;
-        return bTime - aTime;
-      });
+      merged.sort((a, b) => timeOf(b) - timeOf(a));
       
-      return merged;
+      return { items: merged, nextCursor: page.nextCursor };
     },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!webhookId,
     refetchInterval: false, // We'll use websockets for updates
   });
 }
 
+// GET /api/webhooks/:id/search?q=
+export function useSearchRequests(webhookId: string, query: string) {
+  return useQuery({
+    queryKey: [api.webhooks.search.path, webhookId, query],
+    queryFn: async () => {
+      const url = `${buildUrl(api.webhooks.search.path, { id: webhookId })}?q=${encodeURIComponent(query)}`;
+      const res = await authFetch(url);
+      if (!res.ok) {
+        const error = await res.json().catch(() => null);
+        throw new Error(error?.message || "Failed to search requests");
+      }
+      return api.webhooks.search.responses[200].parse(await res.json());
+    },
+    enabled: !!webhookId && query.trim() !== "",
+    placeholderData: (previousData) => previousData,
+  });
+}
+
 // Clear webhook history
 export function useClearWebhookHistory() {
   const queryClient = useQueryClient();
@@ -89,8 +121,11 @@ export function useClearWebhookHistory() {
       return webhookId;
     },
     onSuccess: (webhookId) => {
-      // Update query cache to empty array
-      queryClient.setQueryData([api.webhooks.listRequests.path, webhookId], []);
+      // Update query cache to a single empty page
+      queryClient.setQueryData<RequestPages>([api.webhooks.listRequests.path, webhookId], {
+        pages: [{ items: [], nextCursor: null }],
+        pageParams: [null],
+      });
     },
   });
 }
@@ -105,9 +140,9 @@ export function useUpdateWebhookResponse() {
       config 
     }: { 
       webhookId: string; 
-      config: { responseStatus: string; responseHeaders: any; responseBody: string } 
+      config: { responseStatus: string; responseHeaders: any; responseBody: string; forwardUrl?: string; forwardMode?: string } 
     }) => {
-      const res = await fetch(`/api/webhooks/${webhookId}/response`, {
+      const res = await authFetch(`/api/webhooks/${webhookId}/response`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
@@ -123,3 +158,116 @@ export function useUpdateWebhookResponse() {
     },
   });
 }
+
+// PATCH /api/endpoints/:id
+export function useUpdateEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ webhookId, updates }: { webhookId: string; updates: UpdateEndpoint }): Promise<Webhook> => {
+      const url = buildUrl(api.endpoints.update.path, { id: webhookId });
+      const res = await authFetch(url, {
+        method: api.endpoints.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update endpoint");
+      }
+      return res.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData([api.webhooks.get.path, variables.webhookId], data);
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
+
+// DELETE /api/endpoints/:id
+export function useDeleteEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (webhookId: string) => {
+      const url = buildUrl(api.endpoints.delete.path, { id: webhookId });
+      const res = await authFetch(url, { method: api.endpoints.delete.method });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to delete endpoint");
+      }
+      clearStoredRequests(webhookId);
+      return webhookId;
+    },
+    onSuccess: (webhookId) => {
+      queryClient.removeQueries({ queryKey: [api.webhooks.get.path, webhookId] });
+      queryClient.removeQueries({ queryKey: [api.webhooks.listRequests.path, webhookId] });
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
+
+// GET /api/requests/:id/forwards
+export function useForwardAttempts(requestId: string | undefined) {
+  return useQuery({
+    queryKey: [api.requests.listForwards.path, requestId],
+    queryFn: async (): Promise<ForwardAttempt[]> => {
+      const url = buildUrl(api.requests.listForwards.path, { id: requestId! });
+      const res = await authFetch(url);
+      if (res.status === 404) return [];
+      if (!res.ok) throw new Error("Failed to fetch forward attempts");
+      return api.requests.listForwards.responses[200].parse(await res.json());
+    },
+    enabled: !!requestId,
+  });
+}
+
+// GET /api/requests/:id/replays
+export function useReplays(requestId: string | undefined) {
+  return useQuery({
+    queryKey: [api.requests.listReplays.path, requestId],
+    queryFn: async (): Promise<Replay[]> => {
+      const url = buildUrl(api.requests.listReplays.path, { id: requestId! });
+      const res = await authFetch(url);
+      if (res.status === 404) return [];
+      if (!res.ok) throw new Error("Failed to fetch replays");
+      return api.requests.listReplays.responses[200].parse(await res.json());
+    },
+    enabled: !!requestId,
+  });
+}
+
+// POST /api/requests/:id/replay
+export function useReplayRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      requestId,
+      input,
+    }: {
+      requestId: string;
+      input: z.infer<typeof api.requests.replay.input>;
+    }) => {
+      const url = buildUrl(api.requests.replay.path, { id: requestId });
+      const res = await authFetch(url, {
+        method: api.requests.replay.method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => null);
+        throw new Error(error?.message || "Failed to replay request");
+      }
+      return api.requests.replay.responses[201].parse(await res.json());
+    },
+    onSuccess: (replay) => {
+      queryClient.setQueryData(
+        [api.requests.listReplays.path, replay.requestId],
+        (oldData: Replay[] | undefined) => [replay, ...(oldData || [])]
+      );
+    },
+  });
+}
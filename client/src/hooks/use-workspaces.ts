@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl, workspaceSchema, workspaceDetailsSchema, workspaceMemberSchema } from "@shared/routes";
+import { WORKSPACE_ROLES, type WorkspaceRole } from "@shared/schema";
+import { z } from "zod";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { getCurrentWorkspaceId, setCurrentWorkspaceId } from "@/lib/localStorage";
+
+export type WorkspaceSummary = z.infer<typeof workspaceSchema>;
+export type WorkspaceDetails = z.infer<typeof workspaceDetailsSchema>;
+export type WorkspaceMemberSummary = z.infer<typeof workspaceMemberSchema>;
+export type InviteInput = z.infer<typeof api.workspaces.invite.input>;
+
+// WORKSPACE_ROLES is ordered highest first
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return !!role && WORKSPACE_ROLES.indexOf(role) <= WORKSPACE_ROLES.indexOf(required);
+}
+
+// GET /api/workspaces
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: [api.workspaces.list.path],
+    queryFn: async (context): Promise<WorkspaceSummary[]> => {
+      const data = await getQueryFn<unknown>({ on401: "returnNull" })(context);
+      return data ? api.workspaces.list.responses[200].parse(data) : [];
+    },
+  });
+}
+
+// GET /api/workspaces/:id
+export function useWorkspace(id: string) {
+  return useQuery({
+    queryKey: [api.workspaces.get.path, id],
+    queryFn: async (): Promise<WorkspaceDetails> => {
+      const res = await apiRequest("GET", buildUrl(api.workspaces.get.path, { id }));
+      return api.workspaces.get.responses[200].parse(await res.json());
+    },
+  });
+}
+
+/**
+ * The workspace picked in the switcher, remembered in this browser. Falls back to the
+ * personal account (null) when the remembered workspace is gone or was left.
+ */
+export function useCurrentWorkspace() {
+  const { data: workspaces, isLoading } = useWorkspaces();
+  const [workspaceId, setWorkspaceId] = useState(getCurrentWorkspaceId);
+
+  const workspace = workspaces?.find((candidate) => candidate.id === workspaceId) ?? null;
+
+  const select = (id: string | null) => {
+    setCurrentWorkspaceId(id);
+    setWorkspaceId(id);
+  };
+
+  return { workspace, workspaces: workspaces ?? [], isLoading, select };
+}
+
+function useInvalidateWorkspaces() {
+  const queryClient = useQueryClient();
+  return (id?: string) => {
+    queryClient.invalidateQueries({ queryKey: [api.workspaces.list.path] });
+    if (id) queryClient.invalidateQueries({ queryKey: [api.workspaces.get.path, id] });
+  };
+}
+
+// POST /api/workspaces
+export function useCreateWorkspace() {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest(api.workspaces.create.method, api.workspaces.create.path, { name });
+      return api.workspaces.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidate(),
+  });
+}
+
+// PATCH /api/workspaces/:id
+export function useRenameWorkspace(id: string) {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest(api.workspaces.update.method, buildUrl(api.workspaces.update.path, { id }), { name });
+      return api.workspaces.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidate(id),
+  });
+}
+
+// DELETE /api/workspaces/:id - endpoints move to the owner's personal account
+export function useDeleteWorkspace(id: string) {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest(api.workspaces.delete.method, buildUrl(api.workspaces.delete.path, { id }));
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.removeQueries({ queryKey: [api.workspaces.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.endpoints.list.path] });
+    },
+  });
+}
+
+// POST /api/workspaces/:id/invites
+export function useInviteMember(id: string) {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (input: InviteInput) => {
+      const res = await apiRequest(api.workspaces.invite.method, buildUrl(api.workspaces.invite.path, { id }), input);
+      return api.workspaces.invite.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidate(id),
+  });
+}
+
+// DELETE /api/workspaces/:id/invites/:inviteId
+export function useRevokeInvite(id: string) {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (inviteId: string) => {
+      await apiRequest(api.workspaces.revokeInvite.method, buildUrl(api.workspaces.revokeInvite.path, { id, inviteId }));
+    },
+    onSuccess: () => invalidate(id),
+  });
+}
+
+// PATCH /api/workspaces/:id/members/:userId
+export function useUpdateMemberRole(id: string) {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: z.infer<typeof api.workspaces.updateMember.input>["role"] }) => {
+      const url = buildUrl(api.workspaces.updateMember.path, { id, userId });
+      const res = await apiRequest(api.workspaces.updateMember.method, url, { role });
+      return api.workspaces.updateMember.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidate(id),
+  });
+}
+
+// DELETE /api/workspaces/:id/members/:userId - removing yourself leaves the workspace
+export function useRemoveMember(id: string) {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest(api.workspaces.removeMember.method, buildUrl(api.workspaces.removeMember.path, { id, userId }));
+    },
+    onSuccess: () => invalidate(id),
+  });
+}
+
+// GET /api/invites/preview?token=
+export function useInvitePreview(token: string) {
+  return useQuery({
+    queryKey: [api.invites.preview.path, token],
+    queryFn: async () => {
+      const res = await fetch(`${api.invites.preview.path}?token=${encodeURIComponent(token)}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Invalid invite");
+      return api.invites.preview.responses[200].parse(data);
+    },
+    enabled: !!token,
+  });
+}
+
+// POST /api/invites/accept
+export function useAcceptInvite() {
+  const invalidate = useInvalidateWorkspaces();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest(api.invites.accept.method, api.invites.accept.path, { token });
+      return api.invites.accept.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidate(),
+  });
+}
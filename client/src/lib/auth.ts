@@ -0,0 +1,149 @@
+import { api, authTokensSchema } from "@shared/routes";
+import { z } from "zod";
+
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+
+const AUTH_STORAGE_KEY = "testwebhook-auth";
+const REFRESH_LOCK_NAME = "testwebhook-refresh";
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const listeners = new Set<() => void>();
+let refreshing: Promise<AuthTokens | null> | null = null;
+
+/**
+ * Get the stored access and refresh tokens, if signed in
+ */
+export function getTokens(): AuthTokens | null {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = authTokensSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    console.error("Error reading from localStorage:", error);
+    return null;
+  }
+}
+
+/**
+ * Store new tokens (or clear them with null) and notify subscribers
+ */
+export function setTokens(tokens: AuthTokens | null): void {
+  try {
+    if (tokens) {
+      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(tokens));
+    } else {
+      localStorage.removeItem(AUTH_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error writing to localStorage:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to sign-in and sign-out, including changes made in other tabs; returns an unsubscribe function
+ */
+export function subscribeTokens(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === AUTH_STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+// Read the exp claim without verifying; the server remains the authority
+function isExpired(token: string): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.exp === "number" && payload.exp * 1000 - EXPIRY_MARGIN_MS < Date.now();
+  } catch {
+    return true;
+  }
+}
+
+// Refresh tokens are single-use, so tabs must not refresh at the same time
+function withRefreshLock<T>(callback: () => Promise<T>): Promise<T> {
+  return navigator.locks ? navigator.locks.request(REFRESH_LOCK_NAME, callback) : callback();
+}
+
+/**
+ * Exchange the refresh token for a new pair. Concurrent callers share one request,
+ * and a rejected refresh token signs the user out.
+ */
+export function refreshTokens(): Promise<AuthTokens | null> {
+  if (refreshing) return refreshing;
+
+  const previous = getTokens();
+  if (!previous) return Promise.resolve(null);
+
+  refreshing = withRefreshLock(async () => {
+    // Another tab may have rotated the tokens while this one waited for the lock
+    const current = getTokens();
+    if (!current) return null;
+    if (current.refreshToken !== previous.refreshToken) return current;
+
+    try {
+      const res = await fetch(api.auth.refresh.path, {
+        method: api.auth.refresh.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken: current.refreshToken }),
+      });
+
+      if (res.status === 400 || res.status === 401) {
+        setTokens(null);
+        return null;
+      }
+      if (!res.ok) return current;
+
+      const tokens = api.auth.refresh.responses[200].parse(await res.json());
+      setTokens(tokens);
+      return tokens;
+    } catch (error) {
+      console.error("Token refresh failed:", error);
+      return current;
+    }
+  }).finally(() => {
+    refreshing = null;
+  });
+
+  return refreshing;
+}
+
+/**
+ * End the session on the server, then forget the tokens locally
+ */
+export async function signOut(): Promise<void> {
+  const tokens = getTokens();
+  setTokens(null);
+  if (!tokens) return;
+
+  try {
+    await fetch(api.auth.logout.path, {
+      method: api.auth.logout.method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+    });
+  } catch (error) {
+    console.error("Logout failed:", error);
+  }
+}
+
+/**
+ * Get an access token that is not about to expire, refreshing it first if needed
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const tokens = getTokens();
+  if (!tokens) return null;
+  if (!isExpired(tokens.accessToken)) return tokens.accessToken;
+
+  const refreshed = await refreshTokens();
+  return refreshed?.accessToken ?? null;
+}
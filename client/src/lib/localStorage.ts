@@ -1,6 +1,7 @@
 import { type WebhookRequest } from "@shared/schema";
 
 const STORAGE_PREFIX = "testwebhook_";
+// Offline cache of the newest requests only; full history is paged from the server
 const MAX_REQUESTS_PER_WEBHOOK = 100; // Limit to prevent localStorage from growing too large
 
 /**
@@ -79,3 +80,111 @@ export function clearAllStoredWebhooks(): void {
     console.error("Error clearing all webhooks:", error);
   }
 }
+
+// Kept outside STORAGE_PREFIX so it is not mistaken for a webhook's request cache
+const ANONYMOUS_ENDPOINTS_KEY = "testwebhook-anonymous-endpoints";
+
+/**
+ * Get the IDs of anonymous endpoints created in this browser, so they can be claimed after sign-in
+ */
+export function getAnonymousEndpointIds(): string[] {
+  try {
+    const stored = localStorage.getItem(ANONYMOUS_ENDPOINTS_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error reading from localStorage:", error);
+    return [];
+  }
+}
+
+/**
+ * Remember an anonymous endpoint created in this browser
+ */
+export function rememberAnonymousEndpoint(webhookId: string): void {
+  try {
+    const existing = getAnonymousEndpointIds().filter((id) => id !== webhookId);
+    localStorage.setItem(ANONYMOUS_ENDPOINTS_KEY, JSON.stringify([webhookId, ...existing]));
+  } catch (error) {
+    console.error("Error writing to localStorage:", error);
+  }
+}
+
+/**
+ * Forget anonymous endpoints once they are claimed or gone
+ */
+export function forgetAnonymousEndpoints(webhookIds: string[]): void {
+  try {
+    const remaining = getAnonymousEndpointIds().filter((id) => !webhookIds.includes(id));
+    localStorage.setItem(ANONYMOUS_ENDPOINTS_KEY, JSON.stringify(remaining));
+
+    // Claimed endpoints are authorized by account, so their viewer tokens are no longer needed
+    const tokens = getViewerTokens();
+    webhookIds.forEach((id) => delete tokens[id]);
+    localStorage.setItem(VIEWER_TOKENS_KEY, JSON.stringify(tokens));
+  } catch (error) {
+    console.error("Error writing to localStorage:", error);
+  }
+}
+
+const VIEWER_TOKENS_KEY = "testwebhook-viewer-tokens";
+
+function getViewerTokens(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(VIEWER_TOKENS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.error("Error reading from localStorage:", error);
+    return {};
+  }
+}
+
+/**
+ * Get the token that lets this browser watch an anonymous endpoint live
+ */
+export function getViewerToken(webhookId: string): string | undefined {
+  return getViewerTokens()[webhookId];
+}
+
+/**
+ * Remember the viewer token returned when an anonymous endpoint is created
+ */
+export function rememberViewerToken(webhookId: string, token: string): void {
+  try {
+    localStorage.setItem(VIEWER_TOKENS_KEY, JSON.stringify({ ...getViewerTokens(), [webhookId]: token }));
+  } catch (error) {
+    console.error("Error writing to localStorage:", error);
+  }
+}
+
+const CURRENT_WORKSPACE_KEY = "testwebhook-current-workspace";
+
+/**
+ * Get the workspace picked in the switcher; null means the personal account
+ */
+export function getCurrentWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_WORKSPACE_KEY);
+  } catch (error) {
+    console.error("Error reading from localStorage:", error);
+    return null;
+  }
+}
+
+/**
+ * Remember the workspace picked in the switcher
+ */
+export function setCurrentWorkspaceId(workspaceId: string | null): void {
+  try {
+    if (workspaceId) {
+      localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(CURRENT_WORKSPACE_KEY);
+    }
+  } catch (error) {
+    console.error("Error writing to localStorage:", error);
+  }
+}
@@ -1,4 +1,23 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { getAccessToken, refreshTokens } from "./auth";
+
+function withAuthorization(init: RequestInit, token: string | null): RequestInit {
+  if (!token) return init;
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+// fetch() that sends the signed-in user's Bearer token and retries once after a silent refresh on 401
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = await getAccessToken();
+  const res = await fetch(input, withAuthorization(init, token));
+  if (res.status !== 401 || !token) return res;
+
+  const refreshed = await refreshTokens();
+  if (!refreshed || refreshed.accessToken === token) return res;
+  return await fetch(input, withAuthorization(init, refreshed.accessToken));
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -12,7 +31,7 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
@@ -29,7 +48,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await authFetch(queryKey.join("/") as string, {
       credentials: "include",
     });
 
@@ -0,0 +1,93 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
+import { Loader2, Users, UserX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { useInvitePreview, useAcceptInvite } from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+import { setCurrentWorkspaceId } from "@/lib/localStorage";
+
+export default function AcceptInvite() {
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { data: invite, isLoading, error } = useInvitePreview(token);
+  const { mutate: acceptInvite, isPending: isAccepting } = useAcceptInvite();
+
+  const next = encodeURIComponent(`/invite?token=${encodeURIComponent(token)}`);
+  const isOtherAccount = !!user && !!invite && user.email.toLowerCase() !== invite.email.toLowerCase();
+
+  const handleAccept = () => {
+    acceptInvite(token, {
+      onSuccess: (workspace) => {
+        setCurrentWorkspaceId(workspace.id);
+        toast({ title: `Joined ${workspace.name}` });
+        setLocation("/endpoints");
+      },
+      onError: (error) => {
+        toast({ title: "Could not accept invite", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          {isLoading || isAuthLoading ? (
+            <Loader2 className="w-10 h-10 animate-spin text-muted-foreground" />
+          ) : invite ? (
+            <Users className="w-10 h-10 text-primary" />
+          ) : (
+            <UserX className="w-10 h-10 text-red-400" />
+          )}
+          <CardTitle className="pt-2">
+            {invite ? `Join ${invite.workspaceName}` : isLoading ? "Loading invite..." : "Invite unavailable"}
+          </CardTitle>
+          {invite && (
+            <CardDescription>
+              {invite.invitedBy ?? "A team member"} invited <span className="font-mono">{invite.email}</span> as{" "}
+              {invite.role === "admin" ? "an" : "a"} {invite.role}. Expires {format(invite.expiresAt, "PP")}.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="text-center text-sm text-muted-foreground space-y-4">
+          {!token && <p>This invite link is incomplete.</p>}
+          {error && <p>{error.message}. Ask for a new invite.</p>}
+
+          {invite && !isAuthLoading && !user && (
+            <>
+              <p>Sign in or create an account with {invite.email} to accept.</p>
+              <div className="flex justify-center gap-2">
+                <Button asChild>
+                  <Link href={`/login?next=${next}`}>Sign in</Link>
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href={`/register?next=${next}`}>Create account</Link>
+                </Button>
+              </div>
+            </>
+          )}
+
+          {invite && isOtherAccount && (
+            <p>
+              You are signed in as {user?.email}. Sign in with {invite.email} to accept this invite.
+            </p>
+          )}
+
+          {invite && user && !isOtherAccount && (
+            <Button className="w-full" onClick={handleAccept} disabled={isAccepting}>
+              {isAccepting ? "Joining..." : "Accept invite"}
+            </Button>
+          )}
+
+          {!invite && !isLoading && (
+            <Link href="/endpoints" className="text-primary hover:underline">Go to my endpoints</Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRoute } from "wouter";
-import { useWebhook, useWebhookRequests, useClearWebhookHistory } from "@/hooks/use-webhooks";
+import { formatDistanceToNow } from "date-fns";
+import { useWebhook, useWebhookRequests, useClearWebhookHistory, useSearchRequests } from "@/hooks/use-webhooks";
 import { useSocket } from "@/hooks/use-socket";
 import { Header } from "@/components/layout/Header";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { RequestDetail } from "@/components/request/RequestDetail";
-import { Loader2, AlertCircle, Menu, X } from "lucide-react";
+import { Loader2, AlertCircle, Menu, X, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -15,12 +16,30 @@ export default function Dashboard() {
   const webhookId = params?.id;
 
   const { data: webhook, isLoading: loadingWebhook, error: webhookError } = useWebhook(webhookId || "");
-  const { data: requests, isLoading: loadingRequests } = useWebhookRequests(webhookId || "");
-  const { connected } = useSocket(webhookId);
+  const {
+    data: requestPages,
+    isLoading: loadingRequests,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useWebhookRequests(webhookId || "");
+  const requests = useMemo(() => requestPages?.pages.flatMap((page) => page.items), [requestPages]);
+  const { connected, subscribeError, lastRejection, tunnels } = useSocket(webhookId);
   const { mutate: clearHistory } = useClearWebhookHistory();
   
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [debouncedFilter, setDebouncedFilter] = useState("");
+
+  // Only hit the search API once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilter(filter.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filter]);
+
+  const { data: searchResults, isFetching: searching, error: searchError } = useSearchRequests(webhookId || "", debouncedFilter);
+  const visibleRequests = debouncedFilter ? searchResults : requests;
 
   // Auto-select first request when data loads if nothing selected
   useEffect(() => {
@@ -61,20 +80,64 @@ export default function Dashboard() {
     );
   }
 
-  const selectedRequest = requests?.find(r => r.id === selectedRequestId);
+  const selectedRequest = requests?.find(r => r.id === selectedRequestId)
+    || searchResults?.find(r => r.id === selectedRequestId);
+
+  // Mirror the ingestion route's 410/429 checks so the user knows why requests stopped
+  const isExpired = !!webhook.expiresAt && new Date(webhook.expiresAt).getTime() < Date.now();
+  const isOverQuota = !!webhook.requestQuota && (webhook.requestCount || 0) >= webhook.requestQuota;
+  const limitMessage = isExpired
+    ? "This endpoint has expired and no longer accepts requests."
+    : webhook.archivedAt
+      ? "This endpoint is archived and no longer accepts requests."
+      : !webhook.isActive
+        ? "This endpoint is inactive and no longer accepts requests."
+        : isOverQuota
+          ? `This endpoint has reached its quota of ${webhook.requestQuota} requests.`
+          : null;
+
+  // Deliveries rejected with a 429 in the last day, by rate limits or the quota
+  const lastRejectedAt = webhook.lastRejectedAt ? new Date(webhook.lastRejectedAt) : null;
+  const showRejections = !!lastRejectedAt && !!webhook.rejectedCount
+    && Date.now() - lastRejectedAt.getTime() < 24 * 60 * 60 * 1000;
 
   return (
     <div className="h-screen flex flex-col bg-background text-foreground overflow-hidden font-sans">
-      <Header webhook={webhook} />
+      <Header webhook={webhook} tunnels={tunnels} />
+
+      {limitMessage && (
+        <div className="px-6 py-2 text-xs font-medium flex items-center gap-2 bg-destructive/10 text-destructive border-b border-destructive/20">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {limitMessage}
+        </div>
+      )}
+
+      {showRejections && lastRejectedAt && (
+        <div className="px-6 py-2 text-xs font-medium flex items-center gap-2 bg-yellow-500/10 text-yellow-500 border-b border-yellow-500/20">
+          <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">
+            {webhook.rejectedCount} {webhook.rejectedCount === 1 ? "delivery was" : "deliveries were"} rejected with 429,
+            most recently {formatDistanceToNow(lastRejectedAt, { addSuffix: true })}
+            {lastRejection && `: ${lastRejection.method} ${lastRejection.path} - ${lastRejection.message}`}
+          </span>
+        </div>
+      )}
 
       <div className="flex-1 flex overflow-hidden relative">
         {/* Desktop Sidebar */}
         <div className="hidden md:flex w-80 lg:w-96 flex-shrink-0 h-full">
           <Sidebar 
-            requests={requests || []} 
+            requests={visibleRequests || []} 
             selectedId={selectedRequestId}
             onSelect={setSelectedRequestId}
             onClearHistory={handleClearHistory}
+            filter={filter}
+            onFilterChange={setFilter}
+            isFiltering={searching}
+            filterError={debouncedFilter ? searchError?.message : null}
+            onLoadMore={debouncedFilter ? undefined : fetchNextPage}
+            hasMore={!debouncedFilter && hasNextPage}
+            isLoadingMore={isFetchingNextPage}
             className="h-full w-full"
           />
         </div>
@@ -89,13 +152,20 @@ export default function Dashboard() {
             </SheetTrigger>
             <SheetContent side="left" className="p-0 w-80">
               <Sidebar 
-                requests={requests || []} 
+                requests={visibleRequests || []} 
                 selectedId={selectedRequestId}
                 onSelect={(id) => {
                   setSelectedRequestId(id);
                   setIsMobileMenuOpen(false);
                 }}
                 onClearHistory={handleClearHistory}
+                filter={filter}
+                onFilterChange={setFilter}
+                isFiltering={searching}
+                filterError={debouncedFilter ? searchError?.message : null}
+                onLoadMore={debouncedFilter ? undefined : fetchNextPage}
+                hasMore={!debouncedFilter && hasNextPage}
+                isLoadingMore={isFetchingNextPage}
                 className="h-full border-none"
               />
             </SheetContent>
@@ -108,14 +178,19 @@ export default function Dashboard() {
           
           {/* Connection Status Indicator */}
           <div className="absolute bottom-4 right-4 z-20">
-            <div className={cn(
-              "px-3 py-1.5 rounded-full text-[10px] font-mono font-medium border flex items-center gap-1.5 transition-all shadow-lg",
-              connected 
-                ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500" 
-                : "bg-red-500/10 border-red-500/20 text-red-500"
-            )}>
-              <div className={cn("w-1.5 h-1.5 rounded-full", connected ? "bg-emerald-500" : "bg-red-500")} />
-              {connected ? "Socket Connected" : "Reconnecting..."}
+            <div
+              className={cn(
+                "px-3 py-1.5 rounded-full text-[10px] font-mono font-medium border flex items-center gap-1.5 transition-all shadow-lg",
+                connected && !subscribeError
+                  ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500"
+                  : connected
+                    ? "bg-amber-500/10 border-amber-500/20 text-amber-500"
+                    : "bg-red-500/10 border-red-500/20 text-red-500"
+              )}
+              title={subscribeError ?? undefined}
+            >
+              <div className={cn("w-1.5 h-1.5 rounded-full", connected && !subscribeError ? "bg-emerald-500" : connected ? "bg-amber-500" : "bg-red-500")} />
+              {!connected ? "Reconnecting..." : subscribeError ? "Live Updates Unavailable" : "Socket Connected"}
             </div>
           </div>
         </main>
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { type Webhook, type WorkspaceRole } from "@shared/schema";
+import {
+  Plus, Pencil, Archive, ArchiveRestore, Trash2, Check, X, ExternalLink, Loader2, Inbox, FolderInput,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useMyEndpoints, useCreateEndpoint, useClaimAnonymousEndpoints, useMoveEndpoint } from "@/hooks/use-endpoints";
+import { useUpdateEndpoint, useDeleteEndpoint } from "@/hooks/use-webhooks";
+import { useCurrentWorkspace, hasWorkspaceRole } from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { WorkspaceSwitcher } from "@/components/workspace/WorkspaceSwitcher";
+import { getAnonymousEndpointIds } from "@/lib/localStorage";
+
+function endpointStatus(endpoint: Webhook): { label: string; className: string } {
+  if (endpoint.archivedAt) return { label: "Archived", className: "text-muted-foreground border-border" };
+  if (endpoint.expiresAt && new Date(endpoint.expiresAt).getTime() < Date.now()) {
+    return { label: "Expired", className: "text-red-400 border-red-500/30" };
+  }
+  if (!endpoint.isActive) return { label: "Inactive", className: "text-yellow-400 border-yellow-500/30" };
+  return { label: "Active", className: "text-green-400 border-green-500/30" };
+}
+
+// Where an endpoint can be moved; a null id is the personal account
+interface MoveDestination {
+  id: string | null;
+  name: string;
+}
+
+interface EndpointRowProps {
+  endpoint: Webhook;
+  role: WorkspaceRole; // The viewer's role where the endpoint lives
+  destinations: MoveDestination[];
+}
+
+function EndpointRow({ endpoint, role, destinations }: EndpointRowProps) {
+  const { toast } = useToast();
+  const { mutate: updateEndpoint, isPending: isUpdating } = useUpdateEndpoint();
+  const { mutate: deleteEndpoint, isPending: isDeleting } = useDeleteEndpoint();
+  const { mutate: moveEndpoint, isPending: isMoving } = useMoveEndpoint();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(endpoint.name || "");
+
+  const status = endpointStatus(endpoint);
+  const webhookUrl = `${window.location.origin}/webhook/${endpoint.uniqueSlug}`;
+
+  const onError = (error: Error) => {
+    toast({ title: "Update failed", description: error.message, variant: "destructive" });
+  };
+
+  const handleRename = () => {
+    updateEndpoint(
+      { webhookId: endpoint.id, updates: { name: name.trim() || null } },
+      { onSuccess: () => setIsRenaming(false), onError }
+    );
+  };
+
+  const handleArchive = () => {
+    updateEndpoint(
+      { webhookId: endpoint.id, updates: { archivedAt: endpoint.archivedAt ? null : new Date() } },
+      { onError }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm("Delete this endpoint and all of its captured requests? This cannot be undone.")) return;
+    deleteEndpoint(endpoint.id, { onError });
+  };
+
+  const handleMove = (destination: MoveDestination) => {
+    moveEndpoint(
+      { id: endpoint.id, workspaceId: destination.id },
+      {
+        onSuccess: () => toast({ title: `Moved to ${destination.name}` }),
+        onError: (error) => toast({ title: "Move failed", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const canEdit = hasWorkspaceRole(role, "member");
+  const canManage = hasWorkspaceRole(role, "admin");
+
+  return (
+    <div className="flex items-center gap-4 px-4 py-3">
+      <div className="flex-1 min-w-0 space-y-1">
+        {isRenaming ? (
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleRename()}
+              placeholder="Untitled endpoint"
+              className="h-8 max-w-xs"
+              autoFocus
+            />
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleRename} disabled={isUpdating}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setIsRenaming(false)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Link href={`/${endpoint.id}`} className="font-medium truncate hover:underline">
+              {endpoint.name || "Untitled endpoint"}
+            </Link>
+            <Badge variant="outline" className={status.className}>{status.label}</Badge>
+          </div>
+        )}
+        <div className="text-xs font-mono text-muted-foreground truncate">{webhookUrl}</div>
+      </div>
+
+      <div className="hidden md:block w-28 text-right text-xs text-muted-foreground">
+        <div className="font-mono text-foreground">
+          {endpoint.requestCount ?? 0}
+          {endpoint.requestQuota ? ` / ${endpoint.requestQuota}` : ""}
+        </div>
+        requests
+      </div>
+
+      <div className="hidden md:block w-36 text-right text-xs text-muted-foreground">
+        {endpoint.lastRequestAt
+          ? formatDistanceToNow(new Date(endpoint.lastRequestAt), { addSuffix: true })
+          : "No requests yet"}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button size="icon" variant="ghost" className="h-8 w-8" title="Open" asChild>
+          <Link href={`/${endpoint.id}`}>
+            <ExternalLink className="w-4 h-4" />
+          </Link>
+        </Button>
+        {canEdit && (
+          <>
+            <Button size="icon" variant="ghost" className="h-8 w-8" title="Rename" onClick={() => setIsRenaming(true)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title={endpoint.archivedAt ? "Unarchive" : "Archive"}
+              onClick={handleArchive}
+              disabled={isUpdating}
+            >
+              {endpoint.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+            </Button>
+          </>
+        )}
+        {canManage && destinations.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-8 w-8" title="Move" disabled={isMoving}>
+                <FolderInput className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Move to</DropdownMenuLabel>
+              {destinations.map((destination) => (
+                <DropdownMenuItem key={destination.id ?? "personal"} onSelect={() => handleMove(destination)}>
+                  {destination.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {canManage && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            title="Delete"
+            onClick={handleDelete}
+            disabled={isDeleting}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface EndpointListProps {
+  title: string;
+  endpoints: Webhook[];
+  role: WorkspaceRole;
+  destinations: MoveDestination[];
+}
+
+function EndpointList({ title, endpoints, role, destinations }: EndpointListProps) {
+  if (endpoints.length === 0) return null;
+
+  return (
+    <div className="border border-border rounded-xl overflow-hidden">
+      <div className="bg-secondary/30 px-4 py-2 text-sm font-medium text-muted-foreground">
+        {title} ({endpoints.length})
+      </div>
+      <div className="divide-y divide-border">
+        {endpoints.map((endpoint) => (
+          <EndpointRow key={endpoint.id} endpoint={endpoint} role={role} destinations={destinations} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function Endpoints() {
+  const { toast } = useToast();
+  const { workspace, workspaces, select: selectWorkspace } = useCurrentWorkspace();
+  const { data: endpoints, isLoading } = useMyEndpoints(workspace?.id ?? null);
+  const { mutate: createEndpoint, isPending: isCreating } = useCreateEndpoint();
+  const { mutate: claimEndpoints, isPending: isClaiming } = useClaimAnonymousEndpoints();
+  const [name, setName] = useState("");
+  const [claimable, setClaimable] = useState(() => getAnonymousEndpointIds().length);
+
+  const handleCreate = () => {
+    createEndpoint({ name: name.trim(), workspaceId: workspace?.id }, {
+      onSuccess: () => setName(""),
+      onError: (error) => {
+        toast({ title: "Create failed", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleClaim = () => {
+    claimEndpoints(undefined, {
+      onSuccess: (claimed) => {
+        setClaimable(getAnonymousEndpointIds().length);
+        toast({ title: `Claimed ${claimed} endpoint${claimed === 1 ? "" : "s"}` });
+      },
+      onError: (error) => {
+        toast({ title: "Claim failed", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const active = endpoints?.filter((endpoint) => !endpoint.archivedAt) ?? [];
+  const archived = endpoints?.filter((endpoint) => endpoint.archivedAt) ?? [];
+
+  // The personal account is yours alone; workspaces can only receive endpoints from members and up
+  const role: WorkspaceRole = workspace?.role ?? "owner";
+  const destinations: MoveDestination[] = [
+    ...(workspace ? [{ id: null, name: "Personal" }] : []),
+    ...workspaces
+      .filter((candidate) => candidate.id !== workspace?.id && hasWorkspaceRole(candidate.role, "member"))
+      .map((candidate) => ({ id: candidate.id, name: candidate.name })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <PageHeader title={workspace ? workspace.name : "My Endpoints"} />
+
+      <main className="max-w-4xl mx-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints === null ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground">Sign in to see and manage your endpoints.</p>
+            <div className="flex justify-center gap-2">
+              <Button asChild>
+                <Link href="/login?next=/endpoints">Sign in</Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/">Create an anonymous endpoint</Link>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <WorkspaceSwitcher current={workspace} workspaces={workspaces} onSelect={selectWorkspace} />
+              {hasWorkspaceRole(role, "member") && (
+                <>
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                    placeholder="New endpoint name (optional)"
+                  />
+                  <Button onClick={handleCreate} disabled={isCreating}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    {isCreating ? "Creating..." : "Create"}
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {!workspace && claimable > 0 && (
+              <div className="flex items-center justify-between gap-4 rounded-xl border border-primary/30 bg-primary/10 px-4 py-3 text-sm">
+                <span>
+                  {claimable} endpoint{claimable === 1 ? " was" : "s were"} created in this browser before you signed in.
+                </span>
+                <Button size="sm" onClick={handleClaim} disabled={isClaiming}>
+                  {isClaiming ? "Claiming..." : "Add to my account"}
+                </Button>
+              </div>
+            )}
+
+            {endpoints && endpoints.length === 0 && (
+              <div className="flex flex-col items-center gap-2 py-16 text-muted-foreground">
+                <Inbox className="w-8 h-8" />
+                No endpoints yet
+              </div>
+            )}
+
+            <EndpointList title="Endpoints" endpoints={active} role={role} destinations={destinations} />
+            <EndpointList title="Archived" endpoints={archived} role={role} destinations={destinations} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Zap, Mail } from "lucide-react";
+import { api } from "@shared/routes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+
+  const { mutate, isPending, isSuccess, error } = useMutation({
+    mutationFn: async () => {
+      await apiRequest(api.auth.forgotPassword.method, api.auth.forgotPassword.path, { email });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-blue-600 flex items-center justify-center mb-2">
+            <Zap className="w-6 h-6 text-white fill-white" />
+          </div>
+          <CardTitle>Forgot your password?</CardTitle>
+          <CardDescription>We will email you a link to choose a new one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSuccess ? (
+            <p className="text-sm text-center text-muted-foreground">
+              If an account exists for <span className="text-foreground">{email}</span>, a reset link is on its way.
+              The link expires in 1 hour.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forgot-email">Email</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">Could not send the reset link. Please try again.</p>}
+
+              <Button type="submit" className="w-full" disabled={isPending}>
+                <Mail className="w-4 h-4 mr-2" />
+                {isPending ? "Sending..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            <Link href="/login" className="text-primary hover:underline">
+              Back to sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Zap, LogIn, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+
+// Only follow same-site paths from ?next= so the form cannot be used as an open redirect
+export function nextPath(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/endpoints";
+}
+
+interface TwoFactorStepProps {
+  challengeToken: string;
+  onSignedIn: () => void;
+  onCancel: () => void;
+}
+
+// Second sign-in step for accounts with 2FA: a code from the app, or a recovery code
+function TwoFactorStep({ challengeToken, onSignedIn, onCancel }: TwoFactorStepProps) {
+  const { loginTwoFactor } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const submit = (factor: { code?: string; recoveryCode?: string }) => {
+    loginTwoFactor.mutate({ challengeToken, ...factor }, {
+      onSuccess: onSignedIn,
+      onError: () => setCode(""),
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    submit(useRecoveryCode ? { recoveryCode } : { code });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="login-recovery-code">Recovery code</Label>
+          <Input
+            id="login-recovery-code"
+            autoComplete="off"
+            className="font-mono"
+            placeholder="xxxxx-xxxxx"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            autoFocus
+            required
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Authentication code</Label>
+          <InputOTP
+            maxLength={6}
+            pattern={REGEXP_ONLY_DIGITS}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => submit({ code: value })}
+            disabled={loginTwoFactor.isPending}
+            containerClassName="justify-center"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      {loginTwoFactor.error && <p className="text-sm text-red-400">{loginTwoFactor.error.message}</p>}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={loginTwoFactor.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+      >
+        <ShieldCheck className="w-4 h-4 mr-2" />
+        {loginTwoFactor.isPending ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-xs">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-primary hover:underline"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            loginTwoFactor.reset();
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-primary hover:underline" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { login } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    login.mutate({ email, password }, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setChallengeToken(result.challengeToken);
+          return;
+        }
+        setLocation(nextPath(search));
+      },
+    });
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="items-center text-center">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-blue-600 flex items-center justify-center mb-2">
+              <ShieldCheck className="w-6 h-6 text-white" />
+            </div>
+            <CardTitle>Two-factor authentication</CardTitle>
+            <CardDescription>Enter the 6-digit code from your authenticator app.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorStep
+              challengeToken={challengeToken}
+              onSignedIn={() => setLocation(nextPath(search))}
+              onCancel={() => {
+                setChallengeToken(null);
+                setPassword("");
+                login.reset();
+              }}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-blue-600 flex items-center justify-center mb-2">
+            <Zap className="w-6 h-6 text-white fill-white" />
+          </div>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Keep your endpoints and request history across sessions.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-email">Email</Label>
+              <Input
+                id="login-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="login-password">Password</Label>
+                <Link href="/forgot-password" className="text-xs text-muted-foreground hover:text-primary hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {login.error && <p className="text-sm text-red-400">{login.error.message}</p>}
+
+            <Button type="submit" className="w-full" disabled={login.isPending}>
+              <LogIn className="w-4 h-4 mr-2" />
+              {login.isPending ? "Signing in..." : "Sign in"}
+            </Button>
+          </form>
+
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            No account yet?{" "}
+            <Link href={`/register${search ? `?${search}` : ""}`} className="text-primary hover:underline">
+              Create one
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Zap, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { nextPath } from "./Login";
+
+export default function Register() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { register } = useAuth();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    register.mutate(
+      { email, password, name: name.trim() || undefined },
+      { onSuccess: () => setLocation(nextPath(search)) }
+    );
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-blue-600 flex items-center justify-center mb-2">
+            <Zap className="w-6 h-6 text-white fill-white" />
+          </div>
+          <CardTitle>Create an account</CardTitle>
+          <CardDescription>Endpoints you create while signed in never expire on their own.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="register-name">Name</Label>
+              <Input
+                id="register-name"
+                autoComplete="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-email">Email</Label>
+              <Input
+                id="register-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-password">Password</Label>
+              <Input
+                id="register-password"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+            </div>
+
+            {register.error && <p className="text-sm text-red-400">{register.error.message}</p>}
+
+            <Button type="submit" className="w-full" disabled={register.isPending}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              {register.isPending ? "Creating account..." : "Create account"}
+            </Button>
+          </form>
+
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            Already have an account?{" "}
+            <Link href={`/login${search ? `?${search}` : ""}`} className="text-primary hover:underline">
+              Sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Zap, KeyRound } from "lucide-react";
+import { api } from "@shared/routes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { mutate, isPending, isSuccess, error } = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.auth.resetPassword.path, {
+        method: api.auth.resetPassword.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Failed to reset password");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password !== confirmPassword) {
+      alert("Passwords do not match.");
+      return;
+    }
+    mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-blue-600 flex items-center justify-center mb-2">
+            <Zap className="w-6 h-6 text-white fill-white" />
+          </div>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>Every device signed in to your account will be signed out.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-center text-red-400">This reset link is incomplete. Request a new one.</p>
+          ) : isSuccess ? (
+            <p className="text-sm text-center text-muted-foreground">Your password has been updated.</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">New password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={8}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm">Confirm password</Label>
+                <Input
+                  id="reset-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={8}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error.message}</p>}
+
+              <Button type="submit" className="w-full" disabled={isPending}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                {isPending ? "Saving..." : "Set password"}
+              </Button>
+            </form>
+          )}
+
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            {isSuccess ? (
+              <Link href="/login" className="text-primary hover:underline">Sign in</Link>
+            ) : (
+              <Link href="/forgot-password" className="text-primary hover:underline">Request a new link</Link>
+            )}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { ApiKeys } from "@/components/settings/ApiKeys";
+import { Account } from "@/components/settings/Account";
+import { Password } from "@/components/settings/Password";
+import { Sessions } from "@/components/settings/Sessions";
+import { TwoFactor } from "@/components/settings/TwoFactor";
+import { DangerZone } from "@/components/settings/DangerZone";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function Settings() {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <PageHeader title="Settings" />
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !user ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground">Sign in to manage your account settings.</p>
+            <Button asChild>
+              <Link href="/login?next=/settings">Sign in</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            <Account user={user} />
+            <Password />
+            <TwoFactor />
+            <Sessions />
+            <ApiKeys />
+            <DangerZone user={user} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { useAuth } from "@/hooks/use-auth";
+import { useUsage } from "@/hooks/use-usage";
+
+const chartConfig = {
+  requests: {
+    label: "Requests",
+    color: "hsl(var(--primary))",
+  },
+  rejected: {
+    label: "Rejected",
+    color: "hsl(var(--destructive))",
+  },
+} satisfies ChartConfig;
+
+interface StatProps {
+  label: string;
+  value: number;
+  limit?: number;
+}
+
+function Stat({ label, value, limit }: StatProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl font-mono">
+          {value.toLocaleString()}
+          {limit !== undefined && (
+            <span className="text-sm text-muted-foreground font-normal"> / {limit.toLocaleString()}</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      {limit !== undefined && (
+        <CardContent>
+          <Progress value={Math.min(100, (value / limit) * 100)} className="h-1.5" />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function Usage() {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { data: usage, isLoading } = useUsage();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <PageHeader title="Usage" />
+
+      <main className="max-w-5xl mx-auto p-6 space-y-6">
+        {isAuthLoading || (user && isLoading) ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !user || !usage ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground">Sign in to see how much traffic your endpoints receive.</p>
+            <Button asChild>
+              <Link href="/login?next=/usage">Sign in</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <Stat label="Endpoints" value={usage.totalEndpoints} limit={usage.limits.endpoints} />
+              <Stat label="Requests today" value={usage.requestsToday} limit={usage.limits.requestsPerDay} />
+              <Stat label="Requests this month" value={usage.requestsThisMonth} />
+              <Stat label="Rejected this month" value={usage.rejectedThisMonth} />
+              <Stat label="Total requests" value={usage.totalRequests} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Requests per day</CardTitle>
+                <CardDescription>
+                  Last 30 days (UTC) on the {usage.plan} plan, which allows {usage.limits.requestsPerMinute.toLocaleString()}{" "}
+                  requests per minute per endpoint. Deliveries over a limit are rejected with 429.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={usage.daily} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                      tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+                    />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                    <ChartTooltip
+                      cursor={false}
+                      content={
+                        <ChartTooltipContent labelFormatter={(date: string) => format(parseISO(date), "PP")} />
+                      }
+                    />
+                    <Bar dataKey="requests" stackId="usage" fill="var(--color-requests)" />
+                    <Bar dataKey="rejected" stackId="usage" fill="var(--color-rejected)" radius={[3, 3, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
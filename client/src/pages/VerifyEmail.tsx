@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, MailCheck, MailX } from "lucide-react";
+import { api } from "@shared/routes";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const queryClient = useQueryClient();
+
+  const { mutate, isSuccess, isError, error } = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.auth.verifyEmail.path, {
+        method: api.auth.verifyEmail.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Failed to verify email");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.auth.profile.path] });
+    },
+  });
+
+  // Verify once on load; the token is single-use
+  useEffect(() => {
+    if (token) mutate();
+  }, [token, mutate]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          {isSuccess ? (
+            <MailCheck className="w-10 h-10 text-green-400" />
+          ) : isError || !token ? (
+            <MailX className="w-10 h-10 text-red-400" />
+          ) : (
+            <Loader2 className="w-10 h-10 animate-spin text-muted-foreground" />
+          )}
+          <CardTitle className="pt-2">
+            {isSuccess ? "Email verified" : isError || !token ? "Verification failed" : "Verifying..."}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-center text-sm text-muted-foreground space-y-4">
+          {isError && <p>{error.message}. You can send a new link from your settings.</p>}
+          {!token && <p>This verification link is incomplete.</p>}
+          <Link href="/settings" className="text-primary hover:underline">Go to settings</Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
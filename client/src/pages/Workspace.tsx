@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { Loader2, Building2, LogOut, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { WorkspaceMembers } from "@/components/workspace/WorkspaceMembers";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  hasWorkspaceRole,
+  useWorkspace,
+  useRenameWorkspace,
+  useDeleteWorkspace,
+  useRemoveMember,
+} from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+import { getCurrentWorkspaceId, setCurrentWorkspaceId } from "@/lib/localStorage";
+
+export default function Workspace() {
+  const [, params] = useRoute("/workspaces/:id");
+  const id = params?.id || "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { data: workspace, isLoading, error } = useWorkspace(id);
+  const { mutate: renameWorkspace, isPending: isRenaming } = useRenameWorkspace(id);
+  const { mutate: deleteWorkspace, isPending: isDeleting } = useDeleteWorkspace(id);
+  const { mutate: removeMember, isPending: isLeaving } = useRemoveMember(id);
+
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (workspace) setName(workspace.name);
+  }, [workspace?.name]);
+
+  // Back to the personal account when the switcher still points at this workspace
+  const leavePage = () => {
+    if (getCurrentWorkspaceId() === id) setCurrentWorkspaceId(null);
+    setLocation("/endpoints");
+  };
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    renameWorkspace(name.trim(), {
+      onSuccess: () => toast({ title: "Workspace renamed" }),
+      onError: (error) => toast({ title: "Could not rename workspace", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleLeave = () => {
+    if (!user || !workspace) return;
+    if (!confirm(`Leave ${workspace.name}? You will need a new invite to rejoin.`)) return;
+    removeMember(user.id, {
+      onSuccess: leavePage,
+      onError: (error) => toast({ title: "Could not leave workspace", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!workspace) return;
+    if (!confirm(`Delete ${workspace.name}? Its endpoints move to your personal account and members lose access.`)) return;
+    deleteWorkspace(undefined, {
+      onSuccess: () => {
+        toast({ title: "Workspace deleted" });
+        leavePage();
+      },
+      onError: (error) => toast({ title: "Could not delete workspace", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <PageHeader title={workspace?.name ?? "Workspace"} />
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {isAuthLoading || (user && isLoading) ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !user ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground">Sign in to manage this workspace.</p>
+            <Button asChild>
+              <Link href={`/login?next=${encodeURIComponent(`/workspaces/${id}`)}`}>Sign in</Link>
+            </Button>
+          </div>
+        ) : !workspace ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground">{error ? "This workspace does not exist or you are not a member." : "Workspace not found."}</p>
+            <Button variant="outline" asChild>
+              <Link href="/endpoints">Back to endpoints</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Building2 className="w-4 h-4" />
+                  Workspace
+                </CardTitle>
+                <CardDescription>
+                  You are {workspace.role === "admin" || workspace.role === "owner" ? "an" : "a"}{" "}
+                  <span className="capitalize">{workspace.role}</span>. Endpoints in this workspace count against the owner's plan.
+                </CardDescription>
+              </CardHeader>
+              {hasWorkspaceRole(workspace.role, "admin") && (
+                <CardContent>
+                  <form onSubmit={handleRename} className="space-y-2">
+                    <Label htmlFor="workspace-name">Name</Label>
+                    <div className="flex gap-2">
+                      <Input id="workspace-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+                      <Button type="submit" disabled={isRenaming || !name.trim() || name.trim() === workspace.name}>
+                        {isRenaming ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              )}
+            </Card>
+
+            <WorkspaceMembers workspace={workspace} currentUserId={user.id} />
+
+            <Card className="border-red-500/30">
+              <CardContent className="pt-6">
+                {workspace.role === "owner" ? (
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-muted-foreground">
+                      Delete the workspace. Its endpoints and their requests move to your personal account.
+                    </span>
+                    <Button size="sm" variant="outline" className="text-red-400 hover:text-red-300" onClick={handleDelete} disabled={isDeleting}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      {isDeleting ? "Deleting..." : "Delete workspace"}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-muted-foreground">Stop seeing this workspace's endpoints and requests.</span>
+                    <Button size="sm" variant="outline" className="text-red-400 hover:text-red-300" onClick={handleLeave} disabled={isLeaving}>
+                      <LogOut className="w-4 h-4 mr-2" />
+                      {isLeaving ? "Leaving..." : "Leave workspace"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "sqlite",
+  // Full-text search index is managed by server/search.ts
+  tablesFilter: ["!requests_fts*"],
   dbCredentials: {
     url: process.env.DATABASE_URL || "file:./dev.db",
   },
@@ -59,6 +59,20 @@ async function buildAll() {
     external: externals,
     logLevel: "info",
   });
+
+  // The CLI is published on its own, so everything it uses is bundled in
+  console.log("building cli...");
+  await esbuild({
+    entryPoints: ["cli/index.ts"],
+    platform: "node",
+    bundle: true,
+    format: "cjs",
+    outfile: "dist/cli.cjs",
+    banner: { js: "#!/usr/bin/env node" },
+    minify: true,
+    external: ["bufferutil", "utf-8-validate"],
+    logLevel: "info",
+  });
 }
 
 buildAll().catch((err) => {
@@ -0,0 +1,77 @@
+import { startTestServer, type TestServer } from "./test/server";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ApiKeyScope } from "@shared/schema";
+
+describe("API keys", () => {
+  let server: TestServer;
+  let token: string;
+  let endpointId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    ({ accessToken: token } = await server.register("keys@example.com"));
+    endpointId = (await server.request("POST", "/api/webhooks", { token, body: {} })).body.id;
+  });
+
+  after(() => server.close());
+
+  const createKey = async (scopes: ApiKeyScope[], expiresAt?: string) => {
+    const created = await server.request("POST", "/api/keys", { token, body: { name: scopes.join(","), scopes, expiresAt } });
+    assert.equal(created.status, 201);
+    return created.body as { apiKey: { id: string; prefix: string }; key: string };
+  };
+  const withKey = (key: string) => ({ "x-api-key": key });
+
+  test("returns the plain key once and only lists its prefix", async () => {
+    const { apiKey, key } = await createKey(["requests:read"]);
+    assert.match(key, /^twk_/);
+    assert.ok(key.startsWith(apiKey.prefix));
+
+    const listed = (await server.request("GET", "/api/keys", { token })).body;
+    assert.equal(listed.length, 1);
+    assert.equal(JSON.stringify(listed).includes(key), false);
+    assert.equal(listed[0].keyHash, undefined);
+  });
+
+  test("allows what its scopes cover and nothing else", async () => {
+    const { key } = await createKey(["requests:read"]);
+    const headers = withKey(key);
+
+    assert.equal((await server.request("GET", `/api/webhooks/${endpointId}`, { headers })).status, 200);
+    assert.equal((await server.request("GET", `/api/webhooks/${endpointId}/requests`, { headers })).status, 200);
+
+    const update = await server.request("PATCH", `/api/endpoints/${endpointId}`, { headers, body: { name: "renamed" } });
+    assert.equal(update.status, 403);
+    assert.match(update.body.message, /endpoints:manage/);
+    assert.equal((await server.request("POST", "/api/webhooks", { headers, body: {} })).status, 403);
+  });
+
+  test("lets an endpoints:manage key change endpoints but not read requests", async () => {
+    const { key } = await createKey(["endpoints:manage"]);
+    const headers = withKey(key);
+
+    const update = await server.request("PATCH", `/api/endpoints/${endpointId}`, { headers, body: { name: "renamed" } });
+    assert.equal(update.status, 200);
+    assert.equal(update.body.name, "renamed");
+    assert.equal((await server.request("GET", `/api/webhooks/${endpointId}/requests`, { headers })).status, 403);
+  });
+
+  test("cannot manage keys or the account", async () => {
+    const { key } = await createKey(["requests:read", "endpoints:manage", "requests:replay"]);
+    const headers = withKey(key);
+
+    assert.equal((await server.request("GET", "/api/keys", { headers })).status, 403);
+    assert.equal((await server.request("POST", "/api/keys", { headers, body: { name: "more", scopes: ["requests:read"] } })).status, 403);
+    assert.equal((await server.request("GET", "/api/user/export", { headers })).status, 403);
+  });
+
+  test("stops working once revoked or expired", async () => {
+    const revoked = await createKey(["endpoints:manage"]);
+    assert.equal((await server.request("DELETE", `/api/keys/${revoked.apiKey.id}`, { token })).status, 200);
+    assert.equal((await server.request("GET", "/api/endpoints", { headers: withKey(revoked.key) })).status, 401);
+
+    const expired = await createKey(["endpoints:manage"], new Date(Date.now() - 1000).toISOString());
+    assert.equal((await server.request("GET", "/api/endpoints", { headers: withKey(expired.key) })).status, 401);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Express } from "express";
+import type { ApiKey } from "@shared/schema";
+import { api } from "@shared/routes";
+import { storage } from "./storage";
+import {
+  authenticate,
+  requireSession,
+  generateApiKey,
+  getApiKeyScopes,
+  type AuthRequest
+} from "./auth";
+import { z } from "zod";
+
+// Strip the hash before sending a key to its owner
+export function toPublicApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: getApiKeyScopes(apiKey),
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+export function registerApiKeyRoutes(app: Express): void {
+  // List the signed-in user's API keys
+  app.get(api.apiKeys.list.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const keys = await storage.getApiKeys(req.user!.id);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      res.status(500).json({ message: "Failed to list API keys" });
+    }
+  });
+
+  // Create an API key; the plain key is returned once and cannot be recovered
+  app.post(api.apiKeys.create.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const input = api.apiKeys.create.input.parse(req.body);
+      const { key, prefix, keyHash } = generateApiKey();
+
+      const apiKey = await storage.createApiKey({
+        userId: req.user!.id,
+        name: input.name,
+        prefix,
+        keyHash,
+        scopes: JSON.stringify(Array.from(new Set(input.scopes))),
+        expiresAt: input.expiresAt ?? null,
+      });
+
+      res.status(201).json({ apiKey: toPublicApiKey(apiKey), key });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  // Revoke an API key
+  app.delete(api.apiKeys.revoke.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteApiKey(req.params.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      res.json({ message: "API key revoked" });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+}
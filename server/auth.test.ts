@@ -0,0 +1,138 @@
+import { startTestServer, type TestServer } from "./test/server";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { eq } from "drizzle-orm";
+import { twoFactorChallenges } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { generateTotp } from "./totp";
+
+const PASSWORD = "correct horse battery";
+
+describe("auth", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  describe("refresh tokens", () => {
+    const refresh = (refreshToken: string) => server.request("POST", "/api/auth/refresh", { body: { refreshToken } });
+    const profile = (token: string) => server.request("GET", "/api/user/profile", { token });
+
+    test("rotates the refresh token on every use", async () => {
+      const first = await server.register("rotate@example.com", PASSWORD);
+
+      const second = await refresh(first.refreshToken);
+      assert.equal(second.status, 200);
+      assert.notEqual(second.body.refreshToken, first.refreshToken);
+      assert.equal((await profile(second.body.accessToken)).status, 200);
+
+      const third = await refresh(second.body.refreshToken);
+      assert.equal(third.status, 200);
+    });
+
+    test("revokes the whole session when a spent refresh token is presented again", async () => {
+      const first = await server.register("reuse@example.com", PASSWORD);
+      const rotated = (await refresh(first.refreshToken)).body;
+
+      const reused = await refresh(first.refreshToken);
+      assert.equal(reused.status, 401);
+      assert.match(reused.body.message, /already been used/);
+
+      // The legitimate holder is signed out too, since the token may have been copied
+      assert.equal((await refresh(rotated.refreshToken)).status, 401);
+      assert.equal((await profile(rotated.accessToken)).status, 401);
+    });
+
+    test("ends the session on logout", async () => {
+      const session = await server.register("logout@example.com", PASSWORD);
+      await server.request("POST", "/api/auth/logout", { body: { refreshToken: session.refreshToken } });
+      assert.equal((await refresh(session.refreshToken)).status, 401);
+      assert.equal((await profile(session.accessToken)).status, 401);
+    });
+
+    test("rejects access tokens and garbage as refresh tokens", async () => {
+      const session = await server.register("wrong-type@example.com", PASSWORD);
+      assert.equal((await refresh(session.accessToken)).status, 401);
+      assert.equal((await refresh("not-a-token")).status, 401);
+      assert.equal((await refresh("")).status, 400);
+    });
+  });
+
+  describe("two-factor sign-in", () => {
+    const email = "2fa@example.com";
+    let secret: string;
+    let recoveryCodes: string[];
+
+    before(async () => {
+      const { accessToken: token } = await server.register(email, PASSWORD);
+      secret = (await server.request("POST", "/api/auth/2fa/setup", { token })).body.secret;
+      const enabled = await server.request("POST", "/api/auth/2fa/enable", { token, body: { code: generateTotp(secret) } });
+      assert.equal(enabled.status, 200);
+      recoveryCodes = enabled.body.recoveryCodes;
+    });
+
+    const startLogin = async (): Promise<string> => {
+      const login = await server.request("POST", "/api/auth/login", { body: { email, password: PASSWORD } });
+      assert.equal(login.status, 200);
+      assert.equal(login.body.twoFactorRequired, true);
+      assert.equal(login.body.accessToken, undefined);
+      return login.body.challengeToken;
+    };
+    const finishLogin = (challengeToken: string, factor: { code?: string; recoveryCode?: string }) =>
+      server.request("POST", "/api/auth/login/2fa", { body: { challengeToken, ...factor } });
+
+    test("signs in with the password and a code, once per challenge", async () => {
+      const challengeToken = await startLogin();
+      assert.equal((await finishLogin(challengeToken, { code: "000000" })).status, 401);
+
+      // Enabling used the current time step, so sign in with the next one
+      const code = generateTotp(secret, Date.now() + 30_000);
+      const session = await finishLogin(challengeToken, { code });
+      assert.equal(session.status, 200);
+      assert.ok(session.body.accessToken);
+
+      const again = await finishLogin(challengeToken, { recoveryCode: recoveryCodes[0] });
+      assert.equal(again.status, 401);
+      assert.match(again.body.message, /expired/);
+    });
+
+    test("stores the attempts with the challenge and stops after five", async () => {
+      const challengeToken = await startLogin();
+      const { jti } = jwt.decode(challengeToken) as { jti: string };
+
+      for (let i = 0; i < 5; i++) {
+        const wrong = await finishLogin(challengeToken, { recoveryCode: "aaaaa-aaaaa" });
+        assert.equal(wrong.status, 401);
+        assert.match(wrong.body.message, /Invalid authentication code/);
+      }
+      assert.equal((await storage.getTwoFactorChallenge(jti))?.attempts, 5);
+
+      const blocked = await finishLogin(challengeToken, { recoveryCode: recoveryCodes[1] });
+      assert.equal(blocked.status, 401);
+      assert.match(blocked.body.message, /Too many attempts/);
+
+      // The blocked attempt did not spend the recovery code
+      assert.equal((await finishLogin(await startLogin(), { recoveryCode: recoveryCodes[1] })).status, 200);
+    });
+
+    test("rejects an expired challenge", async () => {
+      const challengeToken = await startLogin();
+      const { jti } = jwt.decode(challengeToken) as { jti: string };
+      await db.update(twoFactorChallenges).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(twoFactorChallenges.id, jti));
+
+      const expired = await finishLogin(challengeToken, { recoveryCode: recoveryCodes[2] });
+      assert.equal(expired.status, 401);
+      assert.match(expired.body.message, /expired/);
+    });
+
+    test("rejects other tokens as a challenge", async () => {
+      const { accessToken } = await server.register("no-2fa@example.com", PASSWORD);
+      assert.equal((await finishLogin(accessToken, { recoveryCode: recoveryCodes[2] })).status, 401);
+    });
+  });
+});
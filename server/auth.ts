@@ -1,32 +1,309 @@
 import type { Request, Response, NextFunction } from "express";
+import type { Socket } from "socket.io";
 import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import { storage } from "./storage";
-import type { User } from "@shared/schema";
+import { verifyTotp, normalizeRecoveryCode } from "./totp";
+import type { User, ApiKey, ApiKeyScope, Session, EmailToken, EmailTokenPurpose, WorkspaceInvite, WorkspaceRole } from "@shared/schema";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
 const JWT_EXPIRES_IN = "7d";
 const REFRESH_TOKEN_EXPIRES_IN = "30d";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Matches REFRESH_TOKEN_EXPIRES_IN
+const EMAIL_TOKEN_TTL_MS: Record<EmailTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+};
+const WORKSPACE_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000; // Time to enter the code after the password
+const TWO_FACTOR_MAX_ATTEMPTS = 5; // Codes that may be tried per challenge before signing in again
+
+const API_KEY_PREFIX = "twk_";
+const API_KEY_DISPLAY_LENGTH = 12;
 
 export interface AuthRequest extends Request {
   user?: User;
+  apiKey?: ApiKey; // Set when the request authenticated with an API key instead of a session
+  sessionId?: string; // Session the access token belongs to
+}
+
+export interface TokenPayload {
+  userId: string;
+  type: string;
+  sid?: string; // Session id
+  jti?: string; // Refresh token id, checked against the session for rotation; the invite or endpoint id for other types
+  exp?: number;
 }
 
 // Generate JWT token
-export function generateToken(userId: string, type: "access" | "refresh" = "access"): string {
+export function generateToken(
+  userId: string,
+  type: "access" | "refresh",
+  sessionId: string,
+  tokenId?: string
+): string {
   const expiresIn = type === "access" ? JWT_EXPIRES_IN : REFRESH_TOKEN_EXPIRES_IN;
-  return jwt.sign({ userId, type }, JWT_SECRET, { expiresIn });
+  return jwt.sign({ userId, type, sid: sessionId }, JWT_SECRET, tokenId ? { expiresIn, jwtid: tokenId } : { expiresIn });
 }
 
 // Verify JWT token
-export function verifyToken(token: string): { userId: string; type: string } | null {
+export function verifyToken(token: string): TokenPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as { userId: string; type: string };
+    return jwt.verify(token, JWT_SECRET) as TokenPayload;
   } catch (error) {
     return null;
   }
 }
 
+function issueTokens(session: Session, refreshTokenId: string) {
+  return {
+    accessToken: generateToken(session.userId, "access", session.id),
+    refreshToken: generateToken(session.userId, "refresh", session.id, refreshTokenId),
+  };
+}
+
+function isSessionActive(session: Session | undefined, userId: string): session is Session {
+  return !!session
+    && session.userId === userId
+    && !session.revokedAt
+    && session.expiresAt.getTime() > Date.now();
+}
+
+// Start a session for a device that just signed in
+export async function startSession(user: User, req: Request) {
+  await storage.deleteExpiredSessions(user.id, new Date());
+
+  const refreshTokenId = randomUUID();
+  const session = await storage.createSession({
+    id: randomUUID(),
+    userId: user.id,
+    refreshTokenId,
+    userAgent: req.headers["user-agent"]?.slice(0, 255) || null,
+    ipAddress: req.ip || null,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+
+  return issueTokens(session, refreshTokenId);
+}
+
+export class RefreshTokenError extends Error {}
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token works once: presenting
+ * an already rotated token means it was copied, so the whole session is revoked.
+ */
+export async function rotateSession(refreshToken: string) {
+  const decoded = verifyToken(refreshToken);
+  if (!decoded || decoded.type !== "refresh" || !decoded.sid || !decoded.jti) {
+    throw new RefreshTokenError("Invalid refresh token");
+  }
+
+  const session = await storage.getSession(decoded.sid);
+  if (!isSessionActive(session, decoded.userId)) {
+    throw new RefreshTokenError("Session has ended");
+  }
+
+  if (session.refreshTokenId !== decoded.jti) {
+    await storage.revokeSession(session.id, session.userId);
+    console.warn(`Refresh token reuse detected, revoked session ${session.id}`);
+    throw new RefreshTokenError("Refresh token has already been used");
+  }
+
+  const refreshTokenId = randomUUID();
+  await storage.rotateSession(session.id, refreshTokenId, new Date(Date.now() + SESSION_TTL_MS));
+  return issueTokens(session, refreshTokenId);
+}
+
+// End the session a refresh token belongs to; unknown tokens are ignored
+export async function endSession(refreshToken: string): Promise<void> {
+  const decoded = verifyToken(refreshToken);
+  if (!decoded || decoded.type !== "refresh" || !decoded.sid) return;
+  await storage.revokeSession(decoded.sid, decoded.userId);
+}
+
+// Issue a signed, single-use token for a link sent by email
+export async function issueEmailToken(user: User, purpose: EmailTokenPurpose): Promise<string> {
+  const ttl = EMAIL_TOKEN_TTL_MS[purpose];
+  const record = await storage.createEmailToken({
+    id: randomUUID(),
+    userId: user.id,
+    purpose,
+    email: user.email,
+    expiresAt: new Date(Date.now() + ttl),
+  });
+
+  return jwt.sign({ userId: user.id, type: purpose }, JWT_SECRET, {
+    expiresIn: Math.floor(ttl / 1000),
+    jwtid: record.id,
+  });
+}
+
+export class EmailTokenError extends Error {}
+
+// Check an emailed token and spend it; it cannot be used again afterwards
+export async function consumeEmailToken(token: string, purpose: EmailTokenPurpose): Promise<EmailToken> {
+  const decoded = verifyToken(token);
+  if (!decoded || decoded.type !== purpose || !decoded.jti) {
+    throw new EmailTokenError("Invalid or expired link");
+  }
+
+  const record = await storage.getEmailToken(decoded.jti);
+  if (!record || record.purpose !== purpose || record.userId !== decoded.userId) {
+    throw new EmailTokenError("Invalid or expired link");
+  }
+  if (record.expiresAt.getTime() < Date.now() || !(await storage.useEmailToken(record.id))) {
+    throw new EmailTokenError("This link has expired or was already used");
+  }
+
+  return record;
+}
+
+// Record an invitation and sign the token for its email link
+export async function issueWorkspaceInvite(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole,
+  invitedBy: User
+): Promise<{ invite: WorkspaceInvite; token: string }> {
+  const invite = await storage.createWorkspaceInvite({
+    workspaceId,
+    email,
+    role,
+    invitedBy: invitedBy.id,
+    expiresAt: new Date(Date.now() + WORKSPACE_INVITE_TTL_MS),
+  });
+
+  const token = jwt.sign({ userId: invitedBy.id, type: "workspace_invite" }, JWT_SECRET, {
+    expiresIn: Math.floor(WORKSPACE_INVITE_TTL_MS / 1000),
+    jwtid: invite.id,
+  });
+  return { invite, token };
+}
+
+export class InviteError extends Error {}
+
+// Look up the invite behind a token without spending it
+export async function resolveInviteToken(token: string): Promise<WorkspaceInvite> {
+  const decoded = verifyToken(token);
+  if (!decoded || decoded.type !== "workspace_invite" || !decoded.jti) {
+    throw new InviteError("Invalid or expired invite");
+  }
+
+  const invite = await storage.getWorkspaceInvite(decoded.jti);
+  if (!invite) {
+    throw new InviteError("This invite was revoked");
+  }
+  if (invite.acceptedAt || invite.expiresAt.getTime() < Date.now()) {
+    throw new InviteError("This invite has expired or was already used");
+  }
+
+  return invite;
+}
+
+export interface SecondFactor {
+  code?: string; // From the authenticator app
+  recoveryCode?: string;
+}
+
+export class TwoFactorError extends Error {}
+
+// Recovery codes are random, so like API keys a fast hash is enough
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Check a TOTP or recovery code for a user with 2FA enabled; either kind only works once
+export async function verifySecondFactor(user: User, factor: SecondFactor): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) return false;
+
+  if (factor.code) {
+    const step = verifyTotp(user.totpSecret, factor.code);
+    return step !== null && await storage.useTotpStep(user.id, step);
+  }
+  if (factor.recoveryCode) {
+    return await storage.useRecoveryCode(user.id, hashRecoveryCode(factor.recoveryCode));
+  }
+  return false;
+}
+
+// Issue the short-lived token that proves the password step of a 2FA sign-in. Its attempts
+// are counted in the database, so the limit holds across restarts and server processes.
+export async function issueTwoFactorChallenge(user: User): Promise<string> {
+  const now = new Date();
+  await storage.deleteExpiredTwoFactorChallenges(user.id, now);
+  const challenge = await storage.createTwoFactorChallenge({
+    id: randomUUID(),
+    userId: user.id,
+    expiresAt: new Date(now.getTime() + TWO_FACTOR_CHALLENGE_TTL_MS),
+  });
+
+  return jwt.sign({ userId: user.id, type: "2fa_challenge" }, JWT_SECRET, {
+    expiresIn: Math.floor(TWO_FACTOR_CHALLENGE_TTL_MS / 1000),
+    jwtid: challenge.id,
+  });
+}
+
+/**
+ * Finish a 2FA sign-in. A challenge allows a few attempts and one success,
+ * after which the user has to enter their password again.
+ */
+export async function completeTwoFactorChallenge(challengeToken: string, factor: SecondFactor): Promise<User> {
+  const decoded = verifyToken(challengeToken);
+  if (!decoded || decoded.type !== "2fa_challenge" || !decoded.jti) {
+    throw new TwoFactorError("Sign-in attempt expired, please sign in again");
+  }
+
+  const now = new Date();
+  const challenge = await storage.getTwoFactorChallenge(decoded.jti);
+  if (!challenge || challenge.userId !== decoded.userId || challenge.usedAt || challenge.expiresAt < now) {
+    throw new TwoFactorError("Sign-in attempt expired, please sign in again");
+  }
+  if (!(await storage.recordTwoFactorAttempt(challenge.id, TWO_FACTOR_MAX_ATTEMPTS, now))) {
+    throw new TwoFactorError("Too many attempts, please sign in again");
+  }
+
+  const user = await storage.getUser(decoded.userId);
+  if (!user || !user.totpEnabledAt) {
+    throw new TwoFactorError("Sign-in attempt expired, please sign in again");
+  }
+
+  if (!(await verifySecondFactor(user, factor))) {
+    throw new TwoFactorError("Invalid authentication code");
+  }
+  if (!(await storage.useTwoFactorChallenge(challenge.id))) {
+    throw new TwoFactorError("Sign-in attempt expired, please sign in again");
+  }
+  return user;
+}
+
+// Resolve an access token to its user, as long as its session is still active
+async function resolveAccessToken(token: string): Promise<{ user: User; sessionId: string } | null> {
+  const decoded = verifyToken(token);
+  if (!decoded || decoded.type !== "access" || !decoded.sid) return null;
+
+  const session = await storage.getSession(decoded.sid);
+  if (!isSessionActive(session, decoded.userId)) return null;
+
+  const user = await storage.getUser(decoded.userId);
+  if (!user) return null;
+
+  return { user, sessionId: session.id };
+}
+
+/**
+ * Secret that lets the creator of an anonymous endpoint subscribe to it live. It does
+ * not expire, like the endpoint id itself, and is only handed out when the endpoint is created.
+ */
+export function issueViewerToken(endpointId: string): string {
+  return jwt.sign({ type: "endpoint_viewer" }, JWT_SECRET, { jwtid: endpointId });
+}
+
+export function verifyViewerToken(token: string, endpointId: string): boolean {
+  const decoded = verifyToken(token);
+  return !!decoded && decoded.type === "endpoint_viewer" && decoded.jti === endpointId;
+}
+
 // Hash password
 export async function hashPassword(password: string): Promise<string> {
   return await bcrypt.hash(password, 10);
@@ -37,6 +314,38 @@ export async function comparePassword(password: string, hashedPassword: string):
   return await bcrypt.compare(password, hashedPassword);
 }
 
+// Generate a new API key; only its hash and display prefix are stored
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Keys are long random strings, so a fast hash is enough to make a leaked table useless
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function getApiKeyScopes(apiKey: ApiKey): ApiKeyScope[] {
+  try {
+    return JSON.parse(apiKey.scopes);
+  } catch (error) {
+    return [];
+  }
+}
+
+// Resolve an API key to its owner, rejecting unknown and expired keys
+async function resolveApiKey(key: string): Promise<{ user: User; apiKey: ApiKey } | null> {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+  if (!apiKey) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() < Date.now()) return null;
+
+  const user = await storage.getUser(apiKey.userId);
+  if (!user) return null;
+
+  await storage.touchApiKey(apiKey.id);
+  return { user, apiKey };
+}
+
 // Authentication middleware
 export async function authenticate(
   req: AuthRequest,
@@ -44,6 +353,15 @@ export async function authenticate(
   next: NextFunction
 ): Promise<void> {
   try {
+    // Already resolved by optionalAuth earlier in the chain
+    if (req.user) {
+      return next();
+    }
+
+    if (req.headers["x-api-key"]) {
+      return await authenticateApiKey(req, res, next);
+    }
+
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -52,21 +370,15 @@ export async function authenticate(
     }
 
     const token = authHeader.substring(7);
-    const decoded = verifyToken(token);
+    const resolved = await resolveAccessToken(token);
 
-    if (!decoded || decoded.type !== "access") {
+    if (!resolved) {
       res.status(401).json({ message: "Invalid token" });
       return;
     }
 
-    const user = await storage.getUser(decoded.userId);
-
-    if (!user) {
-      res.status(401).json({ message: "User not found" });
-      return;
-    }
-
-    req.user = user;
+    req.user = resolved.user;
+    req.sessionId = resolved.sessionId;
     next();
   } catch (error) {
     res.status(401).json({ message: "Authentication failed" });
@@ -80,17 +392,24 @@ export async function optionalAuth(
   next: NextFunction
 ): Promise<void> {
   try {
+    if (req.user) {
+      return next();
+    }
+
+    const apiKey = req.headers["x-api-key"];
     const authHeader = req.headers.authorization;
-    
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      const token = authHeader.substring(7);
-      const decoded = verifyToken(token);
-
-      if (decoded && decoded.type === "access") {
-        const user = await storage.getUser(decoded.userId);
-        if (user) {
-          req.user = user;
-        }
+
+    if (typeof apiKey === "string" && apiKey) {
+      const resolved = await resolveApiKey(apiKey);
+      if (resolved) {
+        req.user = resolved.user;
+        req.apiKey = resolved.apiKey;
+      }
+    } else if (authHeader && authHeader.startsWith("Bearer ")) {
+      const resolved = await resolveAccessToken(authHeader.substring(7));
+      if (resolved) {
+        req.user = resolved.user;
+        req.sessionId = resolved.sessionId;
       }
     }
     
@@ -114,10 +433,78 @@ export async function authenticateApiKey(
       return;
     }
 
-    // TODO: Implement API key validation from database
-    // For now, just pass through
+    const resolved = await resolveApiKey(apiKey);
+    if (!resolved) {
+      res.status(401).json({ message: "Invalid API key" });
+      return;
+    }
+
+    req.user = resolved.user;
+    req.apiKey = resolved.apiKey;
     next();
   } catch (error) {
     res.status(401).json({ message: "Invalid API key" });
   }
 }
+
+// Identity resolved for a socket during the handshake, kept in socket.data
+export interface SocketAuth {
+  user?: User;
+  apiKey?: ApiKey;
+}
+
+/**
+ * Socket.IO middleware: resolve the access token or API key sent in the handshake's
+ * auth payload ({ token } or { apiKey }) or headers. Sockets without credentials
+ * connect anonymously; bad credentials are refused so clients notice.
+ */
+export async function authenticateSocket(socket: Socket, next: (err?: Error) => void): Promise<void> {
+  try {
+    const auth = socket.handshake.auth ?? {};
+    const headers = socket.handshake.headers;
+    const authHeader = headers.authorization;
+
+    const apiKey = typeof auth.apiKey === "string" && auth.apiKey
+      ? auth.apiKey
+      : typeof headers["x-api-key"] === "string" ? headers["x-api-key"] : undefined;
+    const token = typeof auth.token === "string" && auth.token
+      ? auth.token
+      : authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
+
+    const data = socket.data as SocketAuth;
+    if (apiKey) {
+      const resolved = await resolveApiKey(apiKey);
+      if (!resolved) return next(new Error("Invalid API key"));
+      data.user = resolved.user;
+      data.apiKey = resolved.apiKey;
+    } else if (token) {
+      const resolved = await resolveAccessToken(token);
+      if (!resolved) return next(new Error("Invalid token"));
+      data.user = resolved.user;
+    }
+
+    next();
+  } catch (error) {
+    next(new Error("Authentication failed"));
+  }
+}
+
+// Restrict API-key requests to keys holding the scope; session requests always pass
+export function requireScope(scope: ApiKeyScope) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !getApiKeyScopes(req.apiKey).includes(scope)) {
+      res.status(403).json({ message: `API key is missing the ${scope} scope` });
+      return;
+    }
+    next();
+  };
+}
+
+// Reject API keys on routes that must only be reachable from a signed-in session
+export function requireSession(req: AuthRequest, res: Response, next: NextFunction): void {
+  if (req.apiKey) {
+    res.status(403).json({ message: "This action requires a signed-in session" });
+    return;
+  }
+  next();
+}
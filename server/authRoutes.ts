@@ -1,32 +1,129 @@
 import type { Express } from "express";
-import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { storage, type DailyUsage } from "./storage";
+import { getMailer } from "./mailer";
 import { 
-  generateToken, 
-  verifyToken, 
+  startSession,
+  rotateSession,
+  endSession,
+  RefreshTokenError,
+  issueEmailToken,
+  consumeEmailToken,
+  EmailTokenError,
+  issueTwoFactorChallenge,
+  completeTwoFactorChallenge,
+  verifySecondFactor,
+  hashRecoveryCode,
+  TwoFactorError,
   hashPassword, 
   comparePassword,
   authenticate,
+  requireSession,
   type AuthRequest 
 } from "./auth";
+import { toPublicApiKey } from "./apiKeyRoutes";
+import { getPlanLimits, planOf } from "./plans";
+import { generateTotpSecret, totpUri, verifyTotp, generateRecoveryCodes } from "./totp";
+import { api } from "@shared/routes";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 
-const registerSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(8),
-  name: z.string().optional(),
-});
+// Links in emails point at the dashboard. They never come from the request's Host header,
+// which the sender controls, so production refuses to start without APP_URL.
+function loadAppUrl(): string {
+  const value = process.env.APP_URL;
+  if (value) {
+    if (!z.string().url().safeParse(value).success) {
+      throw new Error("APP_URL must be an absolute URL, e.g. https://test-webhook.com");
+    }
+    return value.replace(/\/$/, "");
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL must be set in production so emailed links point at the dashboard");
+  }
+  return `http://localhost:${process.env.PORT || "3000"}`;
+}
+
+const APP_URL = loadAppUrl();
+
+export function appUrl(pathname: string, token: string): string {
+  return `${APP_URL}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+function toAuthUser(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    plan: user.plan,
+  };
+}
+
+function toProfile(user: User) {
+  return {
+    ...toAuthUser(user),
+    username: user.username,
+    emailVerifiedAt: user.emailVerifiedAt,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    createdAt: user.createdAt,
+  };
+}
+
+const USAGE_SERIES_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One entry per day from start, with zero for days the rollup has no rows for
+function fillDailySeries(rows: DailyUsage[], start: Date, days: number): DailyUsage[] {
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(start.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+    return { date, requests: byDate.get(date)?.requests ?? 0, rejected: byDate.get(date)?.rejected ?? 0 };
+  });
+}
 
-const loginSchema = z.object({
-  email: z.string().email(),
-  password: z.string(),
-});
+// Replace any previous recovery codes; the plain codes are only ever returned here
+async function issueRecoveryCodes(user: User): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await issueEmailToken(user, "email_verification");
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: [
+      "Confirm this address for your test-webhook.com account:",
+      "",
+      appUrl("/verify-email", token),
+      "",
+      "The link expires in 24 hours.",
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = await issueEmailToken(user, "password_reset");
+  await getMailer().send({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      "Someone asked to reset the password for your test-webhook.com account.",
+      "If it was you, choose a new password here:",
+      "",
+      appUrl("/reset-password", token),
+      "",
+      "The link expires in 1 hour and works once. If you did not ask for this, ignore this email.",
+    ].join("\n"),
+  });
+}
 
 export function registerAuthRoutes(app: Express): void {
   // Register new user
-  app.post("/api/auth/register", async (req, res) => {
+  app.post(api.auth.register.path, async (req, res) => {
     try {
-      const { email, password, name } = registerSchema.parse(req.body);
+      const { email, password, name } = api.auth.register.input.parse(req.body);
 
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
@@ -47,17 +144,16 @@ export function registerAuthRoutes(app: Express): void {
         updatedAt: new Date(),
       });
 
-      // Generate tokens
-      const accessToken = generateToken(user.id, "access");
-      const refreshToken = generateToken(user.id, "refresh");
+      // Start a session for this device
+      const { accessToken, refreshToken } = await startSession(user, req);
+
+      // A mail failure must not fail the signup; the user can resend from settings
+      sendVerificationEmail(user).catch((error) => {
+        console.error("Verification email error:", error);
+      });
 
       res.status(201).json({
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          plan: user.plan,
-        },
+        user: toAuthUser(user),
         accessToken,
         refreshToken,
       });
@@ -71,9 +167,9 @@ export function registerAuthRoutes(app: Express): void {
   });
 
   // Login
-  app.post("/api/auth/login", async (req, res) => {
+  app.post(api.auth.login.path, async (req, res) => {
     try {
-      const { email, password } = loginSchema.parse(req.body);
+      const { email, password } = api.auth.login.input.parse(req.body);
 
       // Find user
       const user = await storage.getUserByEmail(email);
@@ -87,17 +183,16 @@ export function registerAuthRoutes(app: Express): void {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Generate tokens
-      const accessToken = generateToken(user.id, "access");
-      const refreshToken = generateToken(user.id, "refresh");
+      // With 2FA the password alone is not enough; the session starts at /api/auth/login/2fa
+      if (user.totpEnabledAt) {
+        return res.json({ twoFactorRequired: true, challengeToken: await issueTwoFactorChallenge(user) });
+      }
+
+      // Start a session for this device
+      const { accessToken, refreshToken } = await startSession(user, req);
 
       res.json({
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          plan: user.plan,
-        },
+        user: toAuthUser(user),
         accessToken,
         refreshToken,
       });
@@ -110,8 +205,33 @@ export function registerAuthRoutes(app: Express): void {
     }
   });
 
+  // Second login step: trade the challenge token and a code for a session
+  app.post(api.auth.loginTwoFactor.path, async (req, res) => {
+    try {
+      const { challengeToken, code, recoveryCode } = api.auth.loginTwoFactor.input.parse(req.body);
+      const user = await completeTwoFactorChallenge(challengeToken, { code, recoveryCode });
+
+      const { accessToken, refreshToken } = await startSession(user, req);
+
+      res.json({
+        user: toAuthUser(user),
+        accessToken,
+        refreshToken,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
   // Refresh token
-  app.post("/api/auth/refresh", async (req, res) => {
+  app.post(api.auth.refresh.path, async (req, res) => {
     try {
       const { refreshToken } = req.body;
 
@@ -119,90 +239,429 @@ export function registerAuthRoutes(app: Express): void {
         return res.status(400).json({ message: "Refresh token required" });
       }
 
-      const decoded = verifyToken(refreshToken);
-      if (!decoded || decoded.type !== "refresh") {
-        return res.status(401).json({ message: "Invalid refresh token" });
+      // Rotate: the presented token is spent and a new pair is issued
+      const tokens = await rotateSession(refreshToken);
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof RefreshTokenError) {
+        return res.status(401).json({ message: error.message });
       }
+      console.error("Token refresh error:", error);
+      res.status(500).json({ message: "Token refresh failed" });
+    }
+  });
 
-      const user = await storage.getUser(decoded.userId);
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
+  // Logout: end the session the refresh token belongs to
+  app.post(api.auth.logout.path, async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+      if (refreshToken) {
+        await endSession(refreshToken);
+      }
+      res.json({ message: "Logged out" });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // Request a password reset link; the response never reveals whether the email exists
+  app.post(api.auth.forgotPassword.path, async (req, res) => {
+    try {
+      const { email } = api.auth.forgotPassword.input.parse(req.body);
+
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        await sendPasswordResetEmail(user);
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Password reset request error:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  // Set a new password with a reset token and sign out every device
+  app.post(api.auth.resetPassword.path, async (req, res) => {
+    try {
+      const { token, password } = api.auth.resetPassword.input.parse(req.body);
+      const record = await consumeEmailToken(token, "password_reset");
+
+      await storage.setUserPassword(record.userId, await hashPassword(password));
+      await storage.revokeOtherSessions(record.userId, null);
+
+      // Receiving the link proves the user controls the address
+      await storage.markEmailVerified(record.userId, record.email);
+
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof EmailTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Send (or resend) the verification link to the signed-in user
+  app.post(api.auth.sendVerification.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email is already verified" });
       }
 
-      // Generate new tokens
-      const accessToken = generateToken(user.id, "access");
-      const newRefreshToken = generateToken(user.id, "refresh");
+      await sendVerificationEmail(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Verification email error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Confirm an email address with a verification token
+  app.post(api.auth.verifyEmail.path, async (req, res) => {
+    try {
+      const { token } = api.auth.verifyEmail.input.parse(req.body);
+      const record = await consumeEmailToken(token, "email_verification");
+
+      await storage.markEmailVerified(record.userId, record.email);
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof EmailTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // List the signed-in devices of the current user
+  app.get(api.auth.sessions.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.getActiveSessions(req.user!.id, new Date());
+      res.json(sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.sessionId,
+      })));
+    } catch (error) {
+      console.error("Session list error:", error);
+      res.status(500).json({ message: "Failed to list sessions" });
+    }
+  });
+
+  // Revoke one session
+  app.delete(api.auth.revokeSession.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await storage.revokeSession(req.params.id, req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Session revoke error:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Revoke every session except the one making the request
+  app.delete(api.auth.revokeOtherSessions.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await storage.revokeOtherSessions(req.user!.id, req.sessionId ?? null);
+      res.json({ message: `${revoked} sessions revoked`, revoked });
+    } catch (error) {
+      console.error("Session revoke error:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // Two-factor status of the signed-in user
+  app.get(api.auth.twoFactor.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      const remaining = user.totpEnabledAt ? await storage.getUnusedRecoveryCodes(user.id) : [];
 
       res.json({
-        accessToken,
-        refreshToken: newRefreshToken,
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        recoveryCodesRemaining: remaining.length,
       });
     } catch (error) {
-      console.error("Token refresh error:", error);
-      res.status(500).json({ message: "Token refresh failed" });
+      console.error("Two-factor status error:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Start enrollment: a new secret that becomes active once a code from it is confirmed
+  app.post(api.auth.twoFactorSetup.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      const secret = generateTotpSecret();
+
+      if (!(await storage.setPendingTotpSecret(user.id, secret))) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      res.json({ secret, otpauthUrl: totpUri(secret, user.email) });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Confirm enrollment with a code from the app; returns the recovery codes once
+  app.post(api.auth.twoFactorEnable.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { code } = api.auth.twoFactorEnable.input.parse(req.body);
+      const user = req.user!;
+
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(user.totpSecret, code);
+      if (step === null || !(await storage.enableTotp(user.id, step))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      res.json({ recoveryCodes: await issueRecoveryCodes(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Turn 2FA off; needs the password and a current code so a stolen session cannot do it
+  app.post(api.auth.twoFactorDisable.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { password, code, recoveryCode } = api.auth.twoFactorDisable.input.parse(req.body);
+      const user = req.user!;
+
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!user.passwordHash || !(await comparePassword(password, user.passwordHash))) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.disableTotp(user.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replace the recovery codes, invalidating the old ones
+  app.post(api.auth.regenerateRecoveryCodes.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { code } = api.auth.regenerateRecoveryCodes.input.parse(req.body);
+      const user = req.user!;
+
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(user, { code }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      res.json({ recoveryCodes: await issueRecoveryCodes(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Recovery code error:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
     }
   });
 
   // Get current user profile
-  app.get("/api/user/profile", authenticate, async (req: AuthRequest, res) => {
+  app.get(api.auth.profile.path, authenticate, async (req: AuthRequest, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
 
-      res.json({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        username: user.username,
-        plan: user.plan,
-        createdAt: user.createdAt,
-      });
+      res.json(toProfile(user));
     } catch (error) {
       console.error("Profile fetch error:", error);
       res.status(500).json({ message: "Failed to fetch profile" });
     }
   });
 
-  // Update user profile
-  app.patch("/api/user/profile", authenticate, async (req: AuthRequest, res) => {
+  // Update name and username
+  app.patch(api.auth.updateProfile.path, authenticate, requireSession, async (req: AuthRequest, res) => {
     try {
-      const user = req.user;
-      if (!user) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const updates = api.auth.updateProfile.input.parse(req.body);
+      const user = req.user!;
 
-      const { name, username } = req.body;
+      if (updates.username && updates.username !== user.username) {
+        const existing = await storage.getUserByUsername(updates.username);
+        if (existing && existing.id !== user.id) {
+          return res.status(409).json({ message: "Username is already taken" });
+        }
+      }
 
-      // TODO: Implement user update in storage
-      res.json({
-        message: "Profile update not yet implemented",
+      const updated = await storage.updateUser(user.id, {
+        ...updates,
+        ...(updates.name !== undefined && { name: updates.name || null }),
       });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(toProfile(updated));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       console.error("Profile update error:", error);
       res.status(500).json({ message: "Failed to update profile" });
     }
   });
 
-  // Get user usage statistics
-  app.get("/api/user/usage", authenticate, async (req: AuthRequest, res) => {
+  // Change the password and sign out every other device
+  app.post(api.auth.changePassword.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { currentPassword, newPassword } = api.auth.changePassword.input.parse(req.body);
+      const user = req.user!;
+
+      if (!user.passwordHash || !(await comparePassword(currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.setUserPassword(user.id, await hashPassword(newPassword));
+      const revoked = await storage.revokeOtherSessions(user.id, req.sessionId ?? null);
+
+      res.json({ message: "Password updated", revoked });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Password change error:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Download everything stored for the account as JSON; secrets and hashes are left out
+  app.get(api.auth.exportAccount.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.getAccountData(req.user!.id);
+      if (!data) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const exportedAt = new Date().toISOString();
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="test-webhook-export-${exportedAt.slice(0, 10)}.json"`
+      );
+      res.json({
+        exportedAt,
+        profile: toProfile(data.user),
+        endpoints: data.endpoints,
+        requests: data.requests,
+        forwardAttempts: data.forwardAttempts,
+        replays: data.replays,
+        apiKeys: data.apiKeys.map(toPublicApiKey),
+        sessions: data.sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          revokedAt: session.revokedAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Account export error:", error);
+      res.status(500).json({ message: "Failed to export account" });
+    }
+  });
+
+  // Delete the account with its endpoints, requests, keys and sessions
+  app.delete(api.auth.deleteAccount.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { password, code, recoveryCode } = api.auth.deleteAccount.input.parse(req.body);
+      const user = req.user!;
+
+      if (!user.passwordHash || !(await comparePassword(password, user.passwordHash))) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      if (user.totpEnabledAt && !(await verifySecondFactor(user, { code, recoveryCode }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.deleteUser(user.id);
+      res.json({ message: "Account deleted" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Account deletion error:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Usage statistics, read from the hourly rollup
+  app.get(api.auth.usage.path, authenticate, async (req: AuthRequest, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
 
-      // TODO: Implement usage statistics
+      const now = new Date();
+      const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const seriesStart = new Date(dayStart.getTime() - (USAGE_SERIES_DAYS - 1) * DAY_MS);
+
+      const [totals, month, today, daily] = await Promise.all([
+        storage.getEndpointTotals(user.id),
+        storage.getUsageSince(user.id, monthStart),
+        storage.getUsageSince(user.id, dayStart),
+        storage.getDailyUsage(user.id, seriesStart),
+      ]);
+
       res.json({
-        totalEndpoints: 0,
-        totalRequests: 0,
-        requestsThisMonth: 0,
-        plan: user.plan,
-        limits: {
-          endpoints: user.plan === "pro" ? 100 : 10,
-          requestsPerDay: user.plan === "pro" ? 50000 : 1000,
-        },
+        plan: planOf(user),
+        totalEndpoints: totals.endpoints,
+        totalRequests: totals.requests,
+        requestsThisMonth: month.requests,
+        requestsToday: today.requests,
+        rejectedThisMonth: month.rejected,
+        rejectedToday: today.rejected,
+        limits: getPlanLimits(planOf(user)),
+        daily: fillDailySeries(daily, seriesStart, USAGE_SERIES_DAYS),
       });
     } catch (error) {
       console.error("Usage fetch error:", error);
@@ -0,0 +1,123 @@
+import type { Request } from "express";
+import { isUtf8 } from "buffer";
+import { parse as parseQueryString } from "querystring";
+
+export interface CapturedBody {
+  body: string | null; // Parsed view (JSON, text or multipart summary)
+  rawBody: string | null; // Untouched bytes, utf8 or base64 encoded
+  rawBodyEncoding: "utf8" | "base64" | null;
+  bodySize: number;
+}
+
+interface MultipartPart {
+  name: string | null;
+  filename: string | null;
+  contentType: string | null;
+  size: number;
+  value?: string;
+}
+
+const TEXT_CONTENT_TYPES = [
+  /^text\//,
+  /^application\/(.+\+)?json/,
+  /^application\/(.+\+)?xml/,
+  /^application\/x-www-form-urlencoded/,
+  /^application\/(javascript|ecmascript|graphql|x-ndjson)/,
+];
+
+function isTextContentType(contentType: string): boolean {
+  return TEXT_CONTENT_TYPES.some((pattern) => pattern.test(contentType));
+}
+
+// Get the untouched request bytes captured by the body parsers in server/index.ts
+export function getRawBody(req: Request): Buffer | null {
+  if (Buffer.isBuffer(req.rawBody)) return req.rawBody;
+  if (Buffer.isBuffer(req.body)) return req.body;
+  return null;
+}
+
+// Split a multipart/form-data payload into fields and file summaries
+function parseMultipart(raw: Buffer, contentType: string): MultipartPart[] | null {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!match) return null;
+
+  const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+  const parts: MultipartPart[] = [];
+  let start = raw.indexOf(delimiter);
+
+  while (start !== -1) {
+    const next = raw.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    // Each part is: CRLF headers CRLF CRLF content CRLF
+    const part = raw.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headerText = part.subarray(0, headerEnd).toString("utf8");
+      const content = part.subarray(headerEnd + 4);
+      const disposition = headerText.match(/content-disposition:([^\r\n]*)/i)?.[1] || "";
+      const partType = headerText.match(/content-type:\s*([^\r\n]*)/i)?.[1]?.trim() || null;
+      const filename = disposition.match(/filename="([^"]*)"/i)?.[1] ?? null;
+
+      parts.push({
+        name: disposition.match(/\bname="([^"]*)"/i)?.[1] ?? null,
+        filename,
+        contentType: partType,
+        size: content.length,
+        // Inline field values, summarise files
+        ...(filename === null && isUtf8(content) ? { value: content.toString("utf8") } : {}),
+      });
+    }
+
+    start = next;
+  }
+
+  return parts;
+}
+
+// Build the parsed view of a request body from its raw bytes. Webhook bodies arrive
+// unparsed, so JSON that fails to parse is kept as text instead of being rejected.
+function parseBody(raw: Buffer, contentType: string): string | null {
+  if (/^application\/(.+\+)?json/.test(contentType) && isUtf8(raw)) {
+    const text = raw.toString("utf8");
+    try {
+      return JSON.stringify(JSON.parse(text));
+    } catch {
+      return text;
+    }
+  }
+
+  if (contentType.startsWith("application/x-www-form-urlencoded") && isUtf8(raw)) {
+    return JSON.stringify({ ...parseQueryString(raw.toString("utf8")) });
+  }
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const parts = parseMultipart(raw, contentType);
+    return parts ? JSON.stringify(parts) : null;
+  }
+
+  if (isTextContentType(contentType) && isUtf8(raw)) {
+    return raw.toString("utf8");
+  }
+
+  // Binary payloads only have a raw representation
+  return null;
+}
+
+// Capture the raw bytes and parsed view of an ingested request
+export function captureBody(req: Request): CapturedBody {
+  const raw = getRawBody(req);
+  if (!raw || raw.length === 0) {
+    return { body: null, rawBody: null, rawBodyEncoding: null, bodySize: 0 };
+  }
+
+  const contentType = (req.get("content-type") || "").toLowerCase();
+  const encoding = isUtf8(raw) ? "utf8" : "base64";
+
+  return {
+    body: parseBody(raw, contentType),
+    rawBody: raw.toString(encoding),
+    rawBodyEncoding: encoding,
+    bodySize: raw.length,
+  };
+}
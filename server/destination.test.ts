@@ -0,0 +1,80 @@
+import "./test/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { assertPublicDestination, DestinationError, fetchPublic, setDestinationResolver } from "./destination";
+import { sendUpstream } from "./forwarding";
+
+describe("destination guard", () => {
+  let local: Server;
+  let port: number;
+  let hits: number;
+
+  before(async () => {
+    local = createServer((_req, res) => {
+      hits += 1;
+      res.end("internal");
+    });
+    await new Promise<void>((resolve) => local.listen(0, "127.0.0.1", resolve));
+    port = (local.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    local.close();
+  });
+
+  beforeEach(() => {
+    hits = 0;
+  });
+
+  test("rejects loopback, private and link-local addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1/",
+      "http://10.0.0.5/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://0x7f000001/",
+    ]) {
+      await assert.rejects(assertPublicDestination(url), DestinationError, url);
+    }
+  });
+
+  test("rejects schemes other than http and https", async () => {
+    await assert.rejects(assertPublicDestination("file:///etc/passwd"), /must use http or https/);
+  });
+
+  test("rejects a host when any of its addresses is private", async () => {
+    setDestinationResolver(async () => [
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.1.2.3", family: 4 },
+    ]);
+    await assert.rejects(assertPublicDestination("http://mixed.test/"), /resolves to 10\.1\.2\.3/);
+  });
+
+  test("accepts a host that only resolves to public addresses", async () => {
+    setDestinationResolver(async () => [{ address: "93.184.216.34", family: 4 }]);
+    await assertPublicDestination("https://public.test/hook");
+  });
+
+  test("connects with the checked address when DNS changes its answer", async () => {
+    // A rebinding host answers with a public address first, then with loopback
+    const answers = ["93.184.216.34", "127.0.0.1"];
+    let lookups = 0;
+    setDestinationResolver(async () => [{ address: answers[Math.min(lookups++, answers.length - 1)], family: 4 }]);
+
+    await assertPublicDestination(`http://rebind.test:${port}/`);
+    await assert.rejects(fetchPublic(`http://rebind.test:${port}/`, {}), /resolves to 127\.0\.0\.1/);
+    assert.equal(hits, 0);
+  });
+
+  test("forwards record a blocked destination as an error without sending", async () => {
+    setDestinationResolver(async () => [{ address: "127.0.0.1", family: 4 }]);
+    const result = await sendUpstream("POST", `http://internal.test:${port}/`, {}, Buffer.from("{}"));
+    assert.equal(result.response, null);
+    assert.match(result.error ?? "", /private or reserved address/);
+    assert.equal(hits, 0);
+  });
+});
@@ -0,0 +1,121 @@
+import { lookup as dnsLookup } from "dns/promises";
+import type { LookupAddress } from "dns";
+import { BlockList, isIP, isIPv4, type LookupFunction } from "net";
+import { Agent, fetch, type RequestInit, type Response } from "undici";
+
+// Addresses a forward or replay must not reach: loopback, private networks, link-local
+// (including cloud metadata at 169.254.169.254) and other non-public ranges. IPv4-mapped
+// IPv6 addresses such as ::ffff:127.0.0.1 are checked against the IPv4 rules.
+const blockedAddresses = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv6"));
+
+// Self-hosters forwarding to their own network can opt out with ALLOW_PRIVATE_DESTINATIONS=true
+const allowPrivateDestinations = process.env.ALLOW_PRIVATE_DESTINATIONS === "true";
+
+export class DestinationError extends Error {}
+
+export type DestinationResolver = (host: string) => Promise<LookupAddress[]>;
+
+let resolver: DestinationResolver = (host) => dnsLookup(host, { all: true, verbatim: true });
+
+// Swap the DNS resolver, e.g. for tests; the default uses the system resolver
+export function setDestinationResolver(next: DestinationResolver): void {
+  resolver = next;
+}
+
+function isBlockedAddress(address: string): boolean {
+  return blockedAddresses.check(address, isIPv4(address) ? "ipv4" : "ipv6");
+}
+
+// Host to resolve for an http(s) destination; URL keeps the brackets around IPv6 literals
+function destinationHost(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new DestinationError(`Invalid destination URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new DestinationError(`Destination must use http or https, not ${parsed.protocol}`);
+  }
+  return parsed.hostname.replace(/^\[|\]$/g, "");
+}
+
+// Resolve a host once and throw a DestinationError unless every address is public
+async function resolvePublicAddresses(host: string): Promise<LookupAddress[]> {
+  const family = isIP(host);
+  let addresses: LookupAddress[];
+  if (family) {
+    addresses = [{ address: host, family }];
+  } else {
+    try {
+      addresses = await resolver(host);
+    } catch {
+      throw new DestinationError(`Could not resolve ${host}`);
+    }
+    if (addresses.length === 0) throw new DestinationError(`Could not resolve ${host}`);
+  }
+  if (allowPrivateDestinations) return addresses;
+
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) {
+    throw new DestinationError(`Destination ${host} resolves to ${blocked.address}, a private or reserved address`);
+  }
+  return addresses;
+}
+
+// Connections resolve through the check itself, so they use the addresses that passed it
+const pinnedLookup = ((hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+  resolvePublicAddresses(hostname).then(
+    (addresses) => (options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family)),
+    (error) => callback(error)
+  );
+}) as LookupFunction;
+
+const publicDispatcher = new Agent({ connect: { lookup: pinnedLookup } });
+
+/**
+ * Throw a DestinationError unless the URL is http(s) and every address its host resolves
+ * to is public. Lets callers reject a target up front; fetchPublic checks again when it
+ * connects.
+ */
+export async function assertPublicDestination(url: string): Promise<void> {
+  await resolvePublicAddresses(destinationHost(url));
+}
+
+/**
+ * fetch that only connects to public addresses. The host is resolved and checked while
+ * connecting, and the connection uses the checked address, so a second DNS answer cannot
+ * point it somewhere else. Blocked destinations throw a DestinationError.
+ */
+export async function fetchPublic(url: string, init: RequestInit): Promise<Response> {
+  const host = destinationHost(url);
+  // IP literals connect without a lookup
+  if (isIP(host)) await resolvePublicAddresses(host);
+
+  try {
+    return await fetch(url, { ...init, dispatcher: publicDispatcher });
+  } catch (error) {
+    if (error instanceof Error && error.cause instanceof DestinationError) throw error.cause;
+    throw error;
+  }
+}
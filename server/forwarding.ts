@@ -0,0 +1,149 @@
+import { isUtf8 } from "buffer";
+import type { Endpoint, Request, ForwardAttempt } from "@shared/schema";
+import { storage } from "./storage";
+import { fetchPublic } from "./destination";
+
+const FORWARD_TIMEOUT_MS = 10 * 1000;
+
+// Headers that describe the incoming connection rather than the payload
+const HOP_BY_HOP_HEADERS = new Set([
+  "host",
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-length",
+]);
+
+// Build the upstream URL: forwardUrl + captured sub-path + original query string
+export function buildForwardUrl(forwardUrl: string, request: Request): string {
+  const base = forwardUrl.replace(/\/+$/, "");
+  const queryIndex = request.path?.indexOf("?") ?? -1;
+  const query = queryIndex !== -1 ? request.path!.slice(queryIndex) : "";
+  return `${base}${request.subPath || ""}${query}`;
+}
+
+export function buildForwardHeaders(request: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const original = JSON.parse(request.headers) as Record<string, string | string[]>;
+
+  Object.entries(original).forEach(([key, value]) => {
+    if (HOP_BY_HOP_HEADERS.has(key.toLowerCase())) return;
+    headers[key] = Array.isArray(value) ? value.join(", ") : value;
+  });
+
+  return headers;
+}
+
+// Response headers that can be sent back to a caller once the body has been decoded
+export function relayableHeaders(headers: Record<string, string>): Record<string, string> {
+  const relayHeaders: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+    if (HOP_BY_HOP_HEADERS.has(name) || name === "content-encoding") return;
+    relayHeaders[key] = value;
+  });
+  return relayHeaders;
+}
+
+export function decodeRawBody(request: Request): Buffer | undefined {
+  if (!request.rawBody) return undefined;
+  return Buffer.from(request.rawBody, request.rawBodyEncoding === "base64" ? "base64" : "utf8");
+}
+
+// Store a response body like a captured one: utf8 when it is text, base64 otherwise
+export function encodeResponseBody(body: Buffer): { responseBody: string; responseBodyEncoding: "utf8" | "base64" } {
+  const encoding = isUtf8(body) ? "utf8" : "base64";
+  return { responseBody: body.toString(encoding), responseBodyEncoding: encoding };
+}
+
+export interface UpstreamResponse {
+  status: number;
+  headers: Record<string, string>; // As received, for recording
+  relayHeaders: Record<string, string>; // Safe to send back to a caller
+  body: Buffer;
+}
+
+export interface UpstreamResult {
+  response: UpstreamResponse | null;
+  durationMs: number;
+  error: string | null;
+}
+
+// Send an HTTP request upstream, never throwing on network errors, timeouts or blocked
+// destinations. Redirects are returned as they are rather than followed, so a public
+// target cannot bounce the request to a private address.
+export async function sendUpstream(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Buffer | undefined
+): Promise<UpstreamResult> {
+  const startTime = Date.now();
+
+  try {
+    const response = await fetchPublic(url, {
+      method,
+      headers,
+      body: method === "GET" || method === "HEAD" ? undefined : body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+    });
+
+    const responseBody = Buffer.from(await response.arrayBuffer());
+    const responseHeaders = Object.fromEntries(response.headers.entries());
+
+    // fetch already decoded the body, so the upstream encoding and length no longer apply
+    return {
+      response: {
+        status: response.status,
+        headers: responseHeaders,
+        relayHeaders: relayableHeaders(responseHeaders),
+        body: responseBody,
+      },
+      durationMs: Date.now() - startTime,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      response: null,
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export interface ForwardResult {
+  attempt: ForwardAttempt;
+  // Upstream response (null on error or timeout)
+  response: UpstreamResponse | null;
+}
+
+// Relay a captured request to the endpoint's forwardUrl and record the attempt
+export async function forwardRequest(endpoint: Endpoint, request: Request): Promise<ForwardResult> {
+  const targetUrl = buildForwardUrl(endpoint.forwardUrl!, request);
+  const { response, durationMs, error } = await sendUpstream(
+    request.method,
+    targetUrl,
+    buildForwardHeaders(request),
+    decodeRawBody(request)
+  );
+
+  const attempt = await storage.createForwardAttempt({
+    requestId: request.id,
+    endpointId: endpoint.id,
+    targetUrl,
+    mode: endpoint.forwardMode || "async",
+    responseStatus: response?.status ?? null,
+    responseHeaders: response ? JSON.stringify(response.headers) : null,
+    ...(response ? encodeResponseBody(response.body) : { responseBody: null, responseBodyEncoding: null }),
+    durationMs,
+    error,
+  });
+
+  return { attempt, response };
+}
@@ -1,7 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
-import { createServer } from "http";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 
 const app = express();
 const httpServer = createServer(app);
@@ -12,15 +12,30 @@ declare module "http" {
   }
 }
 
+const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+// Webhook ingestion accepts any content type (XML, text, multipart, binary)
+// and keeps the untouched bytes for storage and signature checks. It runs first
+// so malformed or large JSON is captured rather than rejected by express.json;
+// server/body.ts parses it leniently.
+app.use(
+  "/webhook",
+  express.raw({
+    type: () => true,
+    limit: "10mb",
+    verify: captureRawBody,
+  }),
+);
+
 app.use(
   express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
+    verify: captureRawBody,
   }),
 );
 
-app.use(express.urlencoded({ extended: false }));
+app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -33,26 +48,16 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Log method, path, status and timing only. Response bodies carry API keys, tokens, TOTP
+// secrets, recovery codes and account exports, so they never reach the log.
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
 
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      log(logLine);
+      log(`${req.method} ${path} ${res.statusCode} in ${duration}ms`);
     }
   });
 
@@ -0,0 +1,45 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default mailer: appends every message to a local outbox file so flows work offline
+export class OutboxMailer implements Mailer {
+  constructor(private readonly outboxPath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry = [
+      `Date: ${new Date().toISOString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "",
+      "-".repeat(72),
+      "",
+    ].join("\n");
+
+    await mkdir(path.dirname(this.outboxPath), { recursive: true });
+    await appendFile(this.outboxPath, entry, "utf8");
+    console.log(`Mail to ${message.to} written to ${this.outboxPath}: ${message.subject}`);
+  }
+}
+
+let mailer: Mailer = new OutboxMailer(process.env.MAIL_OUTBOX_PATH || "./outbox/mail.log");
+
+export function getMailer(): Mailer {
+  return mailer;
+}
+
+// Swap in a real transport (SMTP, an email API, ...) at startup
+export function setMailer(next: Mailer): void {
+  mailer = next;
+}
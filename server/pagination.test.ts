@@ -0,0 +1,62 @@
+import { createTestSchema } from "./test/database";
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { requests } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { decodeCursor, encodeCursor, parsePageSize, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE } from "./pagination";
+
+describe("request pagination", () => {
+  let endpointId: string;
+  // Request ids in the order they were received
+  const received: string[] = [];
+
+  before(async () => {
+    await createTestSchema();
+    endpointId = (await storage.createEndpoint()).id;
+
+    // Seven requests within one second: random ids must not decide their order
+    const second = new Date("2026-03-01T12:00:00Z");
+    for (let i = 0; i < 7; i++) {
+      const request = await storage.createRequest({ endpointId, method: "POST", headers: "{}", body: `{"n":${i}}` });
+      await db.update(requests).set({ timestamp: second }).where(eq(requests.id, request.id));
+      received.push(request.id);
+    }
+  });
+
+  test("lists requests that share a timestamp newest first, in the order they arrived", async () => {
+    const page = await storage.getRequests(endpointId);
+    assert.deepEqual(page.map((request) => request.id), [...received].reverse());
+  });
+
+  test("walks older pages without skipping or repeating requests", async () => {
+    const seen: string[] = [];
+    let cursor = undefined;
+    for (;;) {
+      const page = await storage.getRequests(endpointId, { limit: 3, cursor });
+      if (page.length === 0) break;
+      seen.push(...page.map((request) => request.id));
+      cursor = decodeCursor(encodeCursor(page[page.length - 1])) ?? undefined;
+    }
+    assert.deepEqual(seen, [...received].reverse());
+  });
+
+  test("walks newer pages from a cursor, still newest first", async () => {
+    const oldest = (await storage.getRequest(received[0]))!;
+    const page = await storage.getRequests(endpointId, { limit: 3, cursor: decodeCursor(encodeCursor(oldest))!, direction: "newer" });
+    assert.deepEqual(page.map((request) => request.id), [received[3], received[2], received[1]]);
+  });
+
+  test("rejects malformed cursors", () => {
+    assert.equal(decodeCursor("not-a-cursor"), null);
+    assert.equal(decodeCursor(Buffer.from("abc:id").toString("base64url")), null);
+  });
+
+  test("clamps the page size", () => {
+    assert.equal(parsePageSize(undefined), DEFAULT_PAGE_SIZE);
+    assert.equal(parsePageSize("0"), DEFAULT_PAGE_SIZE);
+    assert.equal(parsePageSize("20"), 20);
+    assert.equal(parsePageSize(String(MAX_PAGE_SIZE + 1)), MAX_PAGE_SIZE);
+  });
+});
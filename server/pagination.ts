@@ -0,0 +1,29 @@
+import type { Request } from "@shared/schema";
+import type { RequestCursor } from "./storage";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Opaque cursor: base64url("<timestamp ms>:<request id>")
+export function encodeCursor(request: Request): string {
+  const timestamp = request.timestamp ? request.timestamp.getTime() : 0;
+  return Buffer.from(`${timestamp}:${request.id}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): RequestCursor | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const separator = decoded.indexOf(":");
+  if (separator === -1) return null;
+
+  const timestamp = parseInt(decoded.slice(0, separator), 10);
+  const id = decoded.slice(separator + 1);
+  if (isNaN(timestamp) || !id) return null;
+
+  return { timestamp: new Date(timestamp), id };
+}
+
+export function parsePageSize(value: unknown): number {
+  const limit = parseInt(String(value ?? DEFAULT_PAGE_SIZE), 10);
+  if (isNaN(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
@@ -0,0 +1,101 @@
+import type { Endpoint, User, WorkspaceRole } from "@shared/schema";
+import { storage } from "./storage";
+import { getApiKeyScopes, verifyViewerToken, type SocketAuth } from "./auth";
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export function hasRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * What a caller may do with an endpoint:
+ * - view: read the endpoint, its requests, forwards and replays
+ * - edit: change settings and the response, replay requests, clear history
+ * - manage: delete the endpoint or move it to another workspace
+ */
+export type EndpointAction = "view" | "edit" | "manage";
+
+const ENDPOINT_ACTION_ROLES: Record<EndpointAction, WorkspaceRole> = {
+  view: "viewer",
+  edit: "member",
+  manage: "admin",
+};
+
+// The caller's role on an endpoint, or null when they have no access
+export async function getEndpointRole(endpoint: Endpoint, user: User | undefined): Promise<WorkspaceRole | null> {
+  if (endpoint.workspaceId) {
+    return await getWorkspaceRole(endpoint.workspaceId, user);
+  }
+
+  if (endpoint.userId) {
+    return endpoint.userId === user?.id ? "owner" : null;
+  }
+
+  // Anonymous endpoints are managed by whoever holds the id
+  return "owner";
+}
+
+export async function canAccessEndpoint(
+  endpoint: Endpoint,
+  user: User | undefined,
+  action: EndpointAction
+): Promise<boolean> {
+  return hasRole(await getEndpointRole(endpoint, user), ENDPOINT_ACTION_ROLES[action]);
+}
+
+/**
+ * Whether a socket may join an endpoint's live room. Anonymous endpoints have no owner
+ * to check, so they require the viewer token handed out when they were created.
+ */
+export async function canSubscribe(
+  endpoint: Endpoint,
+  auth: SocketAuth,
+  viewerToken: string | undefined,
+  action: EndpointAction
+): Promise<boolean> {
+  if (!endpoint.userId && !endpoint.workspaceId) {
+    return !!viewerToken && verifyViewerToken(viewerToken, endpoint.id);
+  }
+
+  if (auth.apiKey && !getApiKeyScopes(auth.apiKey).includes("requests:read")) {
+    return false;
+  }
+  return await canAccessEndpoint(endpoint, auth.user, action);
+}
+
+// The caller's role in a workspace, or null when they are not a member
+export async function getWorkspaceRole(workspaceId: string, user: User | undefined): Promise<WorkspaceRole | null> {
+  if (!user) return null;
+  const member = await storage.getWorkspaceMember(workspaceId, user.id);
+  return member ? member.role as WorkspaceRole : null;
+}
+
+/**
+ * Whether actor may change or remove a member holding targetRole. The owner cannot be
+ * changed; admins manage members and viewers, and only the owner manages admins.
+ */
+export function canManageMember(actorRole: WorkspaceRole | null, targetRole: WorkspaceRole): boolean {
+  if (targetRole === "owner" || !hasRole(actorRole, "admin")) return false;
+  return actorRole === "owner" || !hasRole(targetRole, "admin");
+}
+
+/**
+ * Where an endpoint added to a workspace belongs, or null if the caller may not add
+ * endpoints there. Workspace endpoints count against the workspace owner's plan.
+ */
+export async function resolveWorkspaceOwner(
+  workspaceId: string,
+  user: User | undefined
+): Promise<{ userId: string; workspaceId: string } | null> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace || !hasRole(await getWorkspaceRole(workspace.id, user), "member")) {
+    return null;
+  }
+  return { userId: workspace.ownerId, workspaceId: workspace.id };
+}
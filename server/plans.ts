@@ -0,0 +1,68 @@
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export const PLANS = ["anonymous", "free", "pro", "enterprise"] as const;
+export type Plan = typeof PLANS[number];
+
+export interface PlanLimits {
+  endpoints: number; // Endpoints a user may own
+  requestsPerMinute: number; // Webhook ingestion, per endpoint
+  requestsPerDay: number; // Webhook ingestion, per owner (per endpoint for anonymous endpoints)
+  apiRequestsPerHour: number; // REST API calls, per user (per IP when signed out)
+}
+
+const DEFAULT_PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  anonymous: { endpoints: 0, requestsPerMinute: 30, requestsPerDay: 500, apiRequestsPerHour: 300 },
+  free: { endpoints: 10, requestsPerMinute: 60, requestsPerDay: 1000, apiRequestsPerHour: 1000 },
+  pro: { endpoints: 100, requestsPerMinute: 600, requestsPerDay: 50000, apiRequestsPerHour: 10000 },
+  enterprise: { endpoints: 1000, requestsPerMinute: 3000, requestsPerDay: 1000000, apiRequestsPerHour: 100000 },
+};
+
+const ENV_NAMES: Record<keyof PlanLimits, string> = {
+  endpoints: "ENDPOINTS",
+  requestsPerMinute: "REQUESTS_PER_MINUTE",
+  requestsPerDay: "REQUESTS_PER_DAY",
+  apiRequestsPerHour: "API_REQUESTS_PER_HOUR",
+};
+
+// Any limit can be overridden with RATE_LIMIT_<PLAN>_<LIMIT>, e.g. RATE_LIMIT_FREE_REQUESTS_PER_DAY=5000
+function loadPlanLimits(): Record<Plan, PlanLimits> {
+  const limits = {} as Record<Plan, PlanLimits>;
+
+  for (const plan of PLANS) {
+    limits[plan] = { ...DEFAULT_PLAN_LIMITS[plan] };
+    for (const field of Object.keys(ENV_NAMES) as (keyof PlanLimits)[]) {
+      const name = `RATE_LIMIT_${plan.toUpperCase()}_${ENV_NAMES[field]}`;
+      const value = Number(process.env[name]);
+      if (process.env[name] && Number.isInteger(value) && value > 0) {
+        limits[plan][field] = value;
+      } else if (process.env[name]) {
+        console.warn(`Ignoring ${name}: expected a positive integer`);
+      }
+    }
+  }
+
+  return limits;
+}
+
+const PLAN_LIMITS = loadPlanLimits();
+
+// Unknown plans fall back to free so a typo in the database cannot lift every limit
+export function planOf(user: User | null | undefined): Plan {
+  if (!user) return "anonymous";
+  return (PLANS as readonly string[]).includes(user.plan || "") && user.plan !== "anonymous"
+    ? user.plan as Plan
+    : "free";
+}
+
+export function getPlanLimits(plan: Plan): PlanLimits {
+  return PLAN_LIMITS[plan];
+}
+
+// Why the user cannot own another endpoint on their plan, or null while they can
+export async function endpointLimitMessage(userId: string): Promise<string | null> {
+  const plan = planOf(await storage.getUser(userId));
+  const limit = getPlanLimits(plan).endpoints;
+  const { endpoints } = await storage.getEndpointTotals(userId);
+  return endpoints >= limit ? `The ${plan} plan is limited to ${limit} endpoints` : null;
+}
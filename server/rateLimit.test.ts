@@ -0,0 +1,79 @@
+import { createTestSchema } from "./test/database";
+import { afterEach, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { consume, DbRateLimitStore, MemoryRateLimitStore, setRateLimitStore, type RateLimitStore } from "./rateLimit";
+
+const MINUTE_MS = 60 * 1000;
+// A window boundary, so tests can place hits at known points in a window
+const WINDOW_START = Math.ceil(Date.now() / MINUTE_MS) * MINUTE_MS;
+
+const stores: [string, () => RateLimitStore][] = [
+  ["memory", () => new MemoryRateLimitStore()],
+  ["database", () => new DbRateLimitStore()],
+];
+
+before(() => createTestSchema());
+
+for (const [name, createStore] of stores) {
+  describe(`sliding window rate limit (${name} store)`, () => {
+    let key = 0;
+    const at = (ms: number) => mock.method(Date, "now", () => WINDOW_START + ms);
+    const hit = (id: number, limit: number, ms: number) => {
+      at(ms);
+      return consume(`test:${id}`, limit, MINUTE_MS);
+    };
+
+    before(() => {
+      setRateLimitStore(createStore());
+    });
+
+    afterEach(() => {
+      mock.restoreAll();
+      key += 1;
+    });
+
+    test("allows the limit within a window and rejects the next hit", async () => {
+      for (let i = 0; i < 3; i++) {
+        const result = await hit(key, 3, 1000);
+        assert.equal(result.allowed, true);
+        assert.equal(result.remaining, 2 - i);
+        assert.equal(result.resetAt, WINDOW_START + MINUTE_MS);
+      }
+      const rejected = await hit(key, 3, 2000);
+      assert.equal(rejected.allowed, false);
+      assert.equal(rejected.remaining, 0);
+    });
+
+    test("weights the previous window by how much of it still overlaps", async () => {
+      for (let i = 0; i < 4; i++) await hit(key, 4, 0);
+
+      // Halfway through the next window, half of the 4 earlier hits still count
+      const first = await hit(key, 4, MINUTE_MS + MINUTE_MS / 2);
+      assert.equal(first.allowed, true);
+      assert.equal(first.remaining, 1);
+      assert.equal((await hit(key, 4, MINUTE_MS + MINUTE_MS / 2)).allowed, true);
+
+      const rejected = await hit(key, 4, MINUTE_MS + MINUTE_MS / 2);
+      assert.equal(rejected.allowed, false);
+      // Retry once the earlier hits have slid out, at the end of this window
+      assert.equal(rejected.resetAt, WINDOW_START + 2 * MINUTE_MS);
+    });
+
+    test("counts rejected hits, so retrying early stays limited", async () => {
+      await hit(key, 1, 0);
+      for (let i = 0; i < 3; i++) assert.equal((await hit(key, 1, 1000)).allowed, false);
+      assert.equal((await hit(key, 1, MINUTE_MS + 1000)).allowed, false);
+    });
+
+    test("forgets hits older than the previous window", async () => {
+      for (let i = 0; i < 5; i++) await hit(key, 2, 0);
+      assert.equal((await hit(key, 2, 2 * MINUTE_MS)).allowed, true);
+    });
+
+    test("keeps keys apart", async () => {
+      await hit(key, 1, 0);
+      assert.equal((await hit(key, 1, 0)).allowed, false);
+      assert.equal((await hit(key + 1000, 1, 0)).allowed, true);
+    });
+  });
+}
@@ -1,123 +1,225 @@
-import type { Request, Response, NextFunction } from "express";
+import type { Response, NextFunction } from "express";
+import { lt, sql } from "drizzle-orm";
+import { rateLimits, type Endpoint, type User } from "@shared/schema";
+import { db } from "./db";
 import type { AuthRequest } from "./auth";
+import { getPlanLimits, planOf } from "./plans";
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetAt: number;
-  };
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hit counts for a key's current window and the one before it
+export interface WindowCounts {
+  windowStart: number; // Epoch milliseconds, aligned to the window length
+  count: number;
+  previousCount: number;
 }
 
-const rateLimitStore: RateLimitStore = {};
+export interface RateLimitStore {
+  // Atomically count one hit in the window containing `now`, rolling the windows forward as needed
+  increment(key: string, windowMs: number, now: number): Promise<WindowCounts>;
+  // Forget keys whose windows have both slid out
+  prune(now: number): Promise<void>;
+}
 
-// Clean up expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(rateLimitStore).forEach((key) => {
-    if (rateLimitStore[key].resetAt < now) {
-      delete rateLimitStore[key];
+function alignWindow(now: number, windowMs: number): number {
+  return now - (now % windowMs);
+}
+
+// Process-local store; limits reset on restart and are not shared between processes
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, WindowCounts & { expiresAt: number }>();
+
+  async increment(key: string, windowMs: number, now: number): Promise<WindowCounts> {
+    const windowStart = alignWindow(now, windowMs);
+    const entry = this.entries.get(key);
+
+    let next: WindowCounts;
+    if (entry && entry.windowStart >= windowStart) {
+      next = { windowStart: entry.windowStart, count: entry.count + 1, previousCount: entry.previousCount };
+    } else {
+      const previousCount = entry && entry.windowStart === windowStart - windowMs ? entry.count : 0;
+      next = { windowStart, count: 1, previousCount };
     }
+
+    this.entries.set(key, { ...next, expiresAt: next.windowStart + 2 * windowMs });
+    return next;
+  }
+
+  async prune(now: number): Promise<void> {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt < now) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Store backed by the rate_limits table. Each hit is a single upsert, so processes
+ * sharing the database (e.g. a pm2 cluster) count against the same limits and the
+ * counts survive restarts.
+ */
+export class DbRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number, now: number): Promise<WindowCounts> {
+    const windowStart = alignWindow(now, windowMs);
+    // SET expressions see the row as it was before the update
+    const [row] = await db.insert(rateLimits)
+      .values({ key, windowStart, count: 1, previousCount: 0, expiresAt: windowStart + 2 * windowMs })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          previousCount: sql`CASE
+            WHEN ${rateLimits.windowStart} >= ${windowStart} THEN ${rateLimits.previousCount}
+            WHEN ${rateLimits.windowStart} = ${windowStart - windowMs} THEN ${rateLimits.count}
+            ELSE 0 END`,
+          count: sql`CASE WHEN ${rateLimits.windowStart} >= ${windowStart} THEN ${rateLimits.count} + 1 ELSE 1 END`,
+          windowStart: sql`MAX(${rateLimits.windowStart}, ${windowStart})`,
+          expiresAt: sql`MAX(${rateLimits.windowStart}, ${windowStart}) + ${2 * windowMs}`,
+        },
+      })
+      .returning();
+
+    return { windowStart: row.windowStart, count: row.count, previousCount: row.previousCount };
+  }
+
+  async prune(now: number): Promise<void> {
+    await db.delete(rateLimits).where(lt(rateLimits.expiresAt, now));
+  }
+}
+
+let rateLimitStore: RateLimitStore = process.env.RATE_LIMIT_STORE === "memory"
+  ? new MemoryRateLimitStore()
+  : new DbRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return rateLimitStore;
+}
+
+// Swap in another backend (Redis, ...) at startup
+export function setRateLimitStore(next: RateLimitStore): void {
+  rateLimitStore = next;
+}
+
+// Clean up expired entries every 5 minutes; the timer alone does not keep the process alive
+setInterval(() => {
+  rateLimitStore.prune(Date.now()).catch((error) => {
+    console.error("Rate limit cleanup error:", error);
   });
-}, 5 * 60 * 1000);
+}, 5 * 60 * 1000).unref();
 
-export interface RateLimitOptions {
-  windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Max requests per window
-  message?: string;
-  skipSuccessfulRequests?: boolean;
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds: end of the current window, or when a rejected caller may retry
 }
 
-// Rate limiting middleware factory
-export function rateLimit(options: RateLimitOptions) {
-  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      // Determine the key for rate limiting
-      // Use user ID if authenticated, otherwise use IP
-      const key = req.user?.id || req.ip || "anonymous";
-      
-      const now = Date.now();
-      const resetAt = now + options.windowMs;
-
-      // Initialize or get the current rate limit data
-      if (!rateLimitStore[key] || rateLimitStore[key].resetAt < now) {
-        rateLimitStore[key] = {
-          count: 0,
-          resetAt,
-        };
-      }
+// When the next hit would be allowed, given counts that are over the limit
+function nextAllowedAt({ windowStart, count, previousCount }: WindowCounts, limit: number, windowMs: number): number {
+  if (count < limit) {
+    // Enough of the previous window has to slide out
+    return windowStart + windowMs * (1 - (limit - 1 - count) / Math.max(previousCount, 1));
+  }
+  // The current window alone is full, so wait for it to slide out in turn
+  return windowStart + windowMs * (2 - (limit - 1) / count);
+}
 
-      const rateLimit = rateLimitStore[key];
-      rateLimit.count++;
-
-      // Set rate limit headers
-      res.setHeader("X-RateLimit-Limit", options.maxRequests);
-      res.setHeader("X-RateLimit-Remaining", Math.max(0, options.maxRequests - rateLimit.count));
-      res.setHeader("X-RateLimit-Reset", new Date(rateLimit.resetAt).toISOString());
-
-      // Check if rate limit exceeded
-      if (rateLimit.count > options.maxRequests) {
-        res.status(429).json({
-          message: options.message || "Too many requests, please try again later",
-          retryAfter: Math.ceil((rateLimit.resetAt - now) / 1000),
-        });
-        return;
-      }
+/**
+ * Count one hit against key using a sliding window: the previous window's hits are
+ * weighted by how much of it still overlaps the last windowMs. Rejected hits count
+ * too, so callers that keep retrying early stay limited.
+ */
+export async function consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const now = Date.now();
+  const counts = await rateLimitStore.increment(key, windowMs, now);
 
-      // Handle successful requests
-      if (options.skipSuccessfulRequests) {
-        res.on("finish", () => {
-          if (res.statusCode < 400) {
-            rateLimit.count--;
-          }
-        });
-      }
+  const overlap = Math.min(1, Math.max(0, 1 - (now - counts.windowStart) / windowMs));
+  const used = counts.previousCount * overlap + counts.count;
+  const allowed = used <= limit;
 
-      next();
-    } catch (error) {
-      console.error("Rate limiting error:", error);
-      next();
-    }
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    resetAt: allowed ? counts.windowStart + windowMs : Math.ceil(nextAllowedAt(counts, limit, windowMs)),
   };
 }
 
-// Preset rate limiters
-export const anonymousRateLimit = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  maxRequests: 100,
-  message: "Anonymous users are limited to 100 requests per hour",
-});
-
-export const freeUserRateLimit = rateLimit({
-  windowMs: 24 * 60 * 60 * 1000, // 24 hours
-  maxRequests: 1000,
-  message: "Free plan is limited to 1000 requests per day",
-});
-
-export const proUserRateLimit = rateLimit({
-  windowMs: 24 * 60 * 60 * 1000, // 24 hours
-  maxRequests: 50000,
-  message: "Pro plan is limited to 50,000 requests per day",
-});
-
-// Dynamic rate limiter based on user plan
-export async function dynamicRateLimit(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
-  const user = req.user;
-
-  if (!user) {
-    // Anonymous user
-    await anonymousRateLimit(req, res, next);
-    return;
+export function retryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+}
+
+export function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  res.setHeader("X-RateLimit-Limit", result.limit);
+  res.setHeader("X-RateLimit-Remaining", result.remaining);
+  res.setHeader("X-RateLimit-Reset", new Date(result.resetAt).toISOString());
+  if (!result.allowed) {
+    res.setHeader("Retry-After", retryAfterSeconds(result));
   }
+}
+
+/**
+ * Limit REST API calls per user, or per IP when signed out, by plan. Mount after
+ * optionalAuth so req.user is already resolved.
+ */
+export async function apiRateLimit(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const plan = planOf(req.user);
+    const { apiRequestsPerHour } = getPlanLimits(plan);
+    const key = req.user ? `api:user:${req.user.id}` : `api:ip:${req.ip || "unknown"}`;
+
+    const result = await consume(key, apiRequestsPerHour, HOUR_MS);
+    setRateLimitHeaders(res, result);
+
+    if (!result.allowed) {
+      res.status(429).json({
+        message: `The ${plan} plan is limited to ${apiRequestsPerHour} API requests per hour`,
+        retryAfter: retryAfterSeconds(result),
+      });
+      return;
+    }
 
-  // Apply rate limit based on plan
-  switch (user.plan) {
-    case "pro":
-    case "enterprise":
-      await proUserRateLimit(req, res, next);
-      break;
-    case "free":
-    default:
-      await freeUserRateLimit(req, res, next);
-      break;
+    next();
+  } catch (error) {
+    console.error("Rate limiting error:", error);
+    next();
   }
 }
+
+export interface IngestionLimitResult extends RateLimitResult {
+  message?: string; // Why the request was rejected
+}
+
+/**
+ * Check a webhook delivery against the endpoint's per-minute limit and the owner's
+ * daily limit, both taken from the owner's plan. Anonymous endpoints get their own
+ * daily allowance. Returns the limit closest to running out, for the headers.
+ */
+export async function checkIngestionLimits(endpoint: Endpoint, owner: User | undefined): Promise<IngestionLimitResult> {
+  const plan = planOf(owner);
+  const limits = getPlanLimits(plan);
+
+  const perMinute = await consume(`ingest:endpoint:${endpoint.id}`, limits.requestsPerMinute, MINUTE_MS);
+  if (!perMinute.allowed) {
+    return {
+      ...perMinute,
+      message: `Endpoint is limited to ${limits.requestsPerMinute} requests per minute on the ${plan} plan`,
+    };
+  }
+
+  const perDay = owner
+    ? await consume(`ingest:owner:${owner.id}`, limits.requestsPerDay, DAY_MS)
+    : await consume(`ingest:anonymous:${endpoint.id}`, limits.requestsPerDay, DAY_MS);
+  if (!perDay.allowed) {
+    return {
+      ...perDay,
+      message: owner
+        ? `The ${plan} plan is limited to ${limits.requestsPerDay} requests per day across all endpoints`
+        : `Anonymous endpoints are limited to ${limits.requestsPerDay} requests per day`,
+    };
+  }
+
+  return perDay.remaining < perMinute.remaining ? perDay : perMinute;
+}
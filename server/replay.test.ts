@@ -0,0 +1,56 @@
+import { createTestSchema } from "./test/database";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { Request } from "@shared/schema";
+import { storage } from "./storage";
+import { DestinationError, setDestinationResolver } from "./destination";
+import { replayRequest } from "./replay";
+
+describe("replayRequest", () => {
+  let local: Server;
+  let port: number;
+  let hits = 0;
+  let request: Request;
+
+  before(async () => {
+    await createTestSchema();
+    local = createServer((_req, res) => {
+      hits += 1;
+      res.end("internal");
+    });
+    await new Promise<void>((resolve) => local.listen(0, "127.0.0.1", resolve));
+    port = (local.address() as AddressInfo).port;
+
+    const endpoint = await storage.createEndpoint();
+    request = await storage.createRequest({
+      endpointId: endpoint.id,
+      method: "POST",
+      headers: JSON.stringify({ "content-type": "application/json" }),
+      body: "{}",
+      rawBody: "{}",
+      rawBodyEncoding: "utf8",
+    });
+  });
+
+  after(() => {
+    local.close();
+  });
+
+  test("rejects a private target without recording a replay", async () => {
+    setDestinationResolver(async () => [{ address: "10.0.0.8", family: 4 }]);
+    await assert.rejects(replayRequest(request, { targetUrl: `http://internal.test:${port}/` }), DestinationError);
+    assert.equal((await storage.getReplays(request.id)).length, 0);
+  });
+
+  test("connects with the checked address when DNS changes its answer", async () => {
+    let lookups = 0;
+    setDestinationResolver(async () => [{ address: lookups++ === 0 ? "93.184.216.34" : "127.0.0.1", family: 4 }]);
+
+    const replay = await replayRequest(request, { targetUrl: `http://rebind.test:${port}/` });
+    assert.equal(replay.responseStatus, null);
+    assert.match(replay.error ?? "", /resolves to 127\.0\.0\.1/);
+    assert.equal(hits, 0);
+  });
+});
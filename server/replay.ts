@@ -0,0 +1,60 @@
+import { isUtf8 } from "buffer";
+import type { Request, Replay } from "@shared/schema";
+import { storage } from "./storage";
+import { buildForwardHeaders, decodeRawBody, encodeResponseBody, sendUpstream } from "./forwarding";
+import { assertPublicDestination } from "./destination";
+
+export interface ReplayOptions {
+  targetUrl: string;
+  method?: string;
+  headers?: Record<string, string | null>; // null removes the header
+  body?: string; // Replaces the stored raw body
+}
+
+// Apply header overrides case-insensitively on top of the original headers
+function applyHeaderOverrides(
+  original: Record<string, string>,
+  overrides: Record<string, string | null> = {}
+): Record<string, string> {
+  const headers = { ...original };
+
+  Object.entries(overrides).forEach(([name, value]) => {
+    Object.keys(headers)
+      .filter((key) => key.toLowerCase() === name.toLowerCase())
+      .forEach((key) => delete headers[key]);
+
+    if (value !== null) headers[name] = value;
+  });
+
+  return headers;
+}
+
+// Re-send a captured request to an arbitrary target and record the result. Throws a
+// DestinationError, without recording anything, when the target is not a public address.
+// sendUpstream connects to the address that passed the check, so a target whose DNS answer
+// changes afterwards is recorded as a failed replay instead of being sent.
+export async function replayRequest(request: Request, options: ReplayOptions): Promise<Replay> {
+  await assertPublicDestination(options.targetUrl);
+
+  const method = (options.method || request.method).toUpperCase();
+  const headers = applyHeaderOverrides(buildForwardHeaders(request), options.headers);
+  const body = options.body !== undefined ? Buffer.from(options.body, "utf8") : decodeRawBody(request);
+
+  const { response, durationMs, error } = await sendUpstream(method, options.targetUrl, headers, body);
+  const bodyEncoding = body && !isUtf8(body) ? "base64" : "utf8";
+
+  return await storage.createReplay({
+    requestId: request.id,
+    endpointId: request.endpointId,
+    targetUrl: options.targetUrl,
+    method,
+    requestHeaders: JSON.stringify(headers),
+    requestBody: body ? body.toString(bodyEncoding) : null,
+    requestBodyEncoding: body ? bodyEncoding : null,
+    responseStatus: response?.status ?? null,
+    responseHeaders: response ? JSON.stringify(response.headers) : null,
+    ...(response ? encodeResponseBody(response.body) : { responseBody: null, responseBodyEncoding: null }),
+    durationMs,
+    error,
+  });
+}
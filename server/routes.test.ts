@@ -0,0 +1,128 @@
+import { startTestServer, type TestServer } from "./test/server";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getPlanLimits } from "./plans";
+
+describe("endpoint routes", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer();
+    ({ accessToken: token } = await server.register("owner@example.com"));
+  });
+
+  after(() => server.close());
+
+  describe("ingestion", () => {
+    const createEndpoint = async (body: object = {}) =>
+      (await server.request("POST", "/api/webhooks", { token, body })).body as { id: string; uniqueSlug: string };
+    const updateEndpoint = (id: string, body: object) => server.request("PATCH", `/api/endpoints/${id}`, { token, body });
+    const deliver = (slug: string) => server.request("POST", `/webhook/${slug}`, { body: { event: "ping" } });
+
+    test("returns 404 for an unknown slug", async () => {
+      assert.equal((await deliver("missing")).status, 404);
+    });
+
+    test("returns 410 once an endpoint is expired, archived or inactive", async () => {
+      const changes = [
+        { expiresAt: new Date(Date.now() - 1000).toISOString() },
+        { archivedAt: new Date().toISOString() },
+        { isActive: false },
+      ];
+      for (const change of changes) {
+        const endpoint = await createEndpoint();
+        assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+        assert.equal((await updateEndpoint(endpoint.id, change)).status, 200);
+        assert.equal((await deliver(endpoint.uniqueSlug)).status, 410, JSON.stringify(change));
+      }
+    });
+
+    test("returns 429 once the request quota is used up, and counts the rejection", async () => {
+      const endpoint = await createEndpoint({ requestQuota: 2 });
+      assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+      assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+
+      const rejected = await deliver(endpoint.uniqueSlug);
+      assert.equal(rejected.status, 429);
+      assert.match(rejected.body, /quota of 2/);
+
+      const stored = (await server.request("GET", `/api/webhooks/${endpoint.id}`, { token })).body;
+      assert.equal(stored.requestCount, 2);
+      assert.equal(stored.rejectedCount, 1);
+
+      await updateEndpoint(endpoint.id, { requestQuota: null });
+      assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+    });
+
+    test("returns 429 past the plan's per-minute limit, with rate limit headers", async () => {
+      const endpoint = await createEndpoint();
+      const { requestsPerMinute } = getPlanLimits("free");
+      for (let i = 0; i < requestsPerMinute; i++) {
+        assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+      }
+
+      const rejected = await deliver(endpoint.uniqueSlug);
+      assert.equal(rejected.status, 429);
+      assert.match(rejected.body, /requests per minute on the free plan/);
+      assert.equal(rejected.headers.get("X-RateLimit-Limit"), String(requestsPerMinute));
+      assert.equal(rejected.headers.get("X-RateLimit-Remaining"), "0");
+      assert.ok(Number(rejected.headers.get("Retry-After")) >= 1);
+
+      const stored = (await server.request("GET", `/api/webhooks/${endpoint.id}`, { token })).body;
+      assert.equal(stored.requestCount, requestsPerMinute);
+      assert.equal(stored.rejectedCount, 1);
+    });
+
+    test("keeps accepting requests past maxRequests and keeps only the newest", async () => {
+      const endpoint = await createEndpoint({ maxRequests: 2 });
+      for (let i = 0; i < 4; i++) {
+        assert.equal((await deliver(endpoint.uniqueSlug)).status, 200);
+      }
+      const page = (await server.request("GET", `/api/webhooks/${endpoint.id}/requests`, { token })).body;
+      assert.equal(page.items.length, 2);
+    });
+  });
+
+  describe("PATCH /api/webhooks/:id/response", () => {
+    let endpoint: { id: string; uniqueSlug: string };
+
+    before(async () => {
+      endpoint = (await server.request("POST", "/api/webhooks", { token, body: {} })).body;
+    });
+
+    const update = (body: unknown) => server.request("PATCH", `/api/webhooks/${endpoint.id}/response`, { token, body });
+
+    test("stores the response the endpoint answers deliveries with", async () => {
+      const updated = await update({ responseStatus: "202", responseHeaders: { "X-Custom": "yes" }, responseBody: "queued" });
+      assert.equal(updated.status, 200);
+      assert.equal(updated.body.responseStatus, 202);
+
+      const delivery = await server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: { event: "ping" } });
+      assert.equal(delivery.status, 202);
+      assert.equal(delivery.headers.get("x-custom"), "yes");
+      assert.equal(delivery.body, "queued");
+    });
+
+    test("rejects a status that is not an HTTP status code", async () => {
+      for (const responseStatus of ["abc", 42, 600]) {
+        assert.equal((await update({ responseStatus })).status, 400, String(responseStatus));
+      }
+    });
+
+    test("rejects headers that are not an object of strings", async () => {
+      for (const responseHeaders of ["X-Custom: yes", ["X-Custom"], { "X-Count": 1 }, null]) {
+        assert.equal((await update({ responseHeaders })).status, 400, JSON.stringify(responseHeaders));
+      }
+      const delivery = await server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: {} });
+      assert.equal(delivery.status, 202);
+    });
+
+    test("validates the forward URL and mode, and clears the URL with an empty string", async () => {
+      assert.equal((await update({ forwardUrl: "not a url" })).status, 400);
+      assert.equal((await update({ forwardMode: "sometimes" })).status, 400);
+      assert.equal((await update({ forwardUrl: "https://example.com/hook", forwardMode: "proxy" })).body.forwardMode, "proxy");
+      assert.equal((await update({ forwardUrl: "" })).body.forwardUrl, null);
+    });
+  });
+});
@@ -3,11 +3,48 @@ import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
-import { WS_EVENTS } from "@shared/schema";
+import {
+  WS_EVENTS,
+  type Endpoint,
+  type RegisterTunnelPayload,
+  type RequestRejectedEvent,
+  type SubscribeAck,
+  type SubscribePayload,
+  type TunnelsEvent,
+} from "@shared/schema";
 import { z } from "zod";
-import { authenticate, optionalAuth, type AuthRequest } from "./auth";
-import { dynamicRateLimit, anonymousRateLimit } from "./rateLimit";
+import {
+  authenticate,
+  authenticateSocket,
+  issueViewerToken,
+  optionalAuth,
+  requireScope,
+  type AuthRequest,
+  type SocketAuth,
+} from "./auth";
+import { apiRateLimit, checkIngestionLimits, setRateLimitHeaders } from "./rateLimit";
+import { endpointLimitMessage } from "./plans";
 import { registerAuthRoutes } from "./authRoutes";
+import { registerApiKeyRoutes } from "./apiKeyRoutes";
+import { registerWorkspaceRoutes } from "./workspaceRoutes";
+import { canAccessEndpoint, canSubscribe, getWorkspaceRole, resolveWorkspaceOwner, type EndpointAction } from "./permissions";
+import { captureBody } from "./body";
+import { buildForwardUrl, forwardRequest } from "./forwarding";
+import {
+  closeTunnels,
+  getTunnelClients,
+  hadRecentTunnel,
+  handleTunnelResponse,
+  openTunnel,
+  queueTunnelDelivery,
+  routeTunnel,
+  tunnelRequest,
+} from "./tunnel";
+import { startEndpointSweeper } from "./sweeper";
+import { replayRequest } from "./replay";
+import { DestinationError } from "./destination";
+import { decodeCursor, encodeCursor, parsePageSize } from "./pagination";
+import { ensureSearchIndex, filtersFromParams, SearchQueryError } from "./search";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -20,52 +57,234 @@ export async function registerRoutes(
     },
   });
 
+  io.use(authenticateSocket);
+
   io.on("connection", (socket) => {
-    socket.on(WS_EVENTS.JOIN_DASHBOARD, (endpointId) => {
-      socket.join(`dashboard:${endpointId}`);
-    });
+    // Join a room only after checking the socket may see the endpoint; dashboards need to
+    // view it, tunnels serve its traffic and need to edit it
+    const subscribe = (
+      room: "dashboard" | "tunnel",
+      action: EndpointAction,
+      onJoin: (endpoint: Endpoint, payload: Partial<RegisterTunnelPayload>) => Promise<void> | void
+    ) =>
+      async (payload: SubscribePayload | RegisterTunnelPayload | string, ack?: (result: SubscribeAck) => void) => {
+        const reply = typeof ack === "function" ? ack : () => {};
+        try {
+          const subscription: Partial<RegisterTunnelPayload> = typeof payload === "string" ? { endpointId: payload } : payload ?? {};
+          const { endpointId, viewerToken } = subscription;
+          const endpoint = typeof endpointId === "string" ? await storage.getEndpoint(endpointId) : undefined;
+          if (!endpoint) {
+            return reply({ ok: false, message: "Endpoint not found" });
+          }
+
+          if (!(await canSubscribe(endpoint, socket.data as SocketAuth, viewerToken, action))) {
+            return reply({ ok: false, message: "Forbidden" });
+          }
+
+          socket.join(`${room}:${endpoint.id}`);
+          reply({ ok: true });
+          await onJoin(endpoint, subscription);
+        } catch (error) {
+          console.error(`Error joining ${room}:`, error);
+          reply({ ok: false, message: "Failed to subscribe" });
+        }
+      };
 
-    socket.on(WS_EVENTS.REGISTER_TUNNEL, (endpointId) => {
-      socket.join(`tunnel:${endpointId}`);
+    // Dashboards start with the tunnels already connected
+    socket.on(WS_EVENTS.JOIN_DASHBOARD, subscribe("dashboard", "view", (endpoint) => {
+      const event: TunnelsEvent = { endpointId: endpoint.id, tunnels: getTunnelClients(endpoint.id) };
+      socket.emit(WS_EVENTS.TUNNELS, event);
+    }));
+    // Unnamed clients, such as older CLIs, share the name "default"
+    socket.on(WS_EVENTS.REGISTER_TUNNEL, subscribe("tunnel", "edit", (endpoint, { name }) => {
+      const tunnelName = typeof name === "string" && name.trim() ? name.trim().slice(0, 64) : "default";
+      return openTunnel(io, socket, endpoint.id, tunnelName);
+    }));
+    socket.on(WS_EVENTS.TUNNEL_RESPONSE, (payload) => {
+      handleTunnelResponse(io, socket, payload).catch((error) => {
+        console.error("Error handling tunnel response:", error);
+      });
+    });
+    socket.on("disconnecting", () => {
+      closeTunnels(io, socket).catch((error) => {
+        console.error("Error closing tunnel:", error);
+      });
     });
   });
 
+  // Full-text index over captured requests
+  ensureSearchIndex();
+
+  // Expire endpoints and prune request history in the background
+  startEndpointSweeper();
+
+  // Count every API call against the caller's plan; routes reuse the identity resolved here
+  app.use("/api", optionalAuth, apiRateLimit);
+
+  // Turned-away deliveries are counted and pushed to the dashboard instead of vanishing
+  const rejectDelivery = async (
+    endpoint: Endpoint,
+    req: { method: string; originalUrl: string },
+    reason: RequestRejectedEvent["reason"],
+    message: string
+  ): Promise<void> => {
+    try {
+      await storage.recordEndpointRejection(endpoint);
+      const event: RequestRejectedEvent = {
+        endpointId: endpoint.id,
+        method: req.method,
+        path: req.originalUrl,
+        reason,
+        message,
+        timestamp: new Date().toISOString(),
+      };
+      io.to(`dashboard:${endpoint.id}`).emit(WS_EVENTS.REQUEST_REJECTED, event);
+    } catch (error) {
+      console.error("Error recording rejected request:", error);
+    }
+  };
+
   // Register authentication routes
   registerAuthRoutes(app);
+  registerApiKeyRoutes(app);
+  registerWorkspaceRoutes(app);
 
   // API Routes - Endpoints Management
   // Create endpoint (optional auth - can be anonymous or authenticated)
-  app.post(api.webhooks.create.path, optionalAuth, async (req: AuthRequest, res) => {
+  app.post(api.webhooks.create.path, optionalAuth, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
-      const userId = req.user?.id;
+      const { workspaceId, ...fields } = api.webhooks.create.input.parse(req.body) ?? {};
+      let owner: { userId?: string; workspaceId?: string } = { userId: req.user?.id };
+      if (workspaceId) {
+        const workspaceOwner = await resolveWorkspaceOwner(workspaceId, req.user);
+        if (!workspaceOwner) {
+          return res.status(403).json({ message: "You cannot create endpoints in this workspace" });
+        }
+        owner = workspaceOwner;
+      }
+
+      // Workspace endpoints count against the workspace owner's plan
+      const limitMessage = owner.userId ? await endpointLimitMessage(owner.userId) : null;
+      if (limitMessage) {
+        return res.status(403).json({ message: limitMessage });
+      }
+
       const endpoint = await storage.createEndpoint({
-        ...req.body,
-        userId,
+        ...fields,
+        ...owner,
       });
-      res.status(201).json(endpoint);
+      // Anonymous endpoints have nobody to authorize live updates for, so the creator gets a token
+      res.status(201).json(endpoint.userId ? endpoint : { ...endpoint, viewerToken: issueViewerToken(endpoint.id) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       console.error("Error creating endpoint:", error);
       res.status(500).json({ message: "Failed to create endpoint" });
     }
   });
 
-  // List user's endpoints (authenticated)
-  app.get("/api/endpoints", authenticate, async (req: AuthRequest, res) => {
+  // List the user's personal endpoints, or a workspace's with ?workspaceId= (authenticated)
+  app.get(api.endpoints.list.path, authenticate, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
-      // TODO: Implement list user endpoints in storage
-      res.json([]);
+      const workspaceId = typeof req.query.workspaceId === "string" ? req.query.workspaceId : undefined;
+      if (workspaceId) {
+        if (!(await getWorkspaceRole(workspaceId, req.user))) {
+          return res.status(403).json({ message: "Not a member of this workspace" });
+        }
+        return res.json(await storage.getWorkspaceEndpoints(workspaceId));
+      }
+
+      const endpoints = await storage.getPersonalEndpoints(req.user!.id);
+      res.json(endpoints);
     } catch (error) {
       console.error("Error listing endpoints:", error);
       res.status(500).json({ message: "Failed to list endpoints" });
     }
   });
 
-  app.get(api.webhooks.get.path, async (req, res) => {
+  // Claim an anonymous endpoint into the signed-in account
+  app.post(api.endpoints.claim.path, authenticate, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
+    try {
+      const endpoint = await storage.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Endpoint not found" });
+      }
+
+      if (endpoint.userId === req.user!.id) {
+        return res.json(endpoint);
+      }
+
+      if (endpoint.userId) {
+        return res.status(409).json({ message: "Endpoint already belongs to another account" });
+      }
+
+      const limitMessage = await endpointLimitMessage(req.user!.id);
+      if (limitMessage) {
+        return res.status(403).json({ message: limitMessage });
+      }
+
+      const claimed = await storage.claimEndpoint(endpoint.id, req.user!.id);
+      res.json(claimed);
+    } catch (error) {
+      console.error("Error claiming endpoint:", error);
+      res.status(500).json({ message: "Failed to claim endpoint" });
+    }
+  });
+
+  // Move an endpoint into a workspace, or back to the caller's personal account
+  app.post(api.endpoints.move.path, authenticate, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
+      const input = api.endpoints.move.input.parse(req.body);
       const endpoint = await storage.getEndpoint(req.params.id);
       if (!endpoint) {
         return res.status(404).json({ message: "Endpoint not found" });
       }
+
+      if (!endpoint.userId) {
+        return res.status(400).json({ message: "Claim the endpoint before moving it" });
+      }
+
+      if (!(await canAccessEndpoint(endpoint, req.user, "manage"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      let owner: { userId: string; workspaceId: string | null } = { userId: req.user!.id, workspaceId: null };
+      if (input.workspaceId) {
+        const workspaceOwner = await resolveWorkspaceOwner(input.workspaceId, req.user);
+        if (!workspaceOwner) {
+          return res.status(403).json({ message: "You cannot move endpoints into this workspace" });
+        }
+        owner = workspaceOwner;
+      }
+
+      const limitMessage = owner.userId !== endpoint.userId ? await endpointLimitMessage(owner.userId) : null;
+      if (limitMessage) {
+        return res.status(403).json({ message: limitMessage });
+      }
+
+      const moved = await storage.moveEndpoint(endpoint.id, owner);
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error moving endpoint:", error);
+      res.status(500).json({ message: "Failed to move endpoint" });
+    }
+  });
+
+  app.get(api.webhooks.get.path, optionalAuth, requireScope("requests:read"), async (req: AuthRequest, res) => {
+    try {
+      const endpoint = await storage.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Endpoint not found" });
+      }
+
+      if (!(await canAccessEndpoint(endpoint, req.user, "view"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
       res.json(endpoint);
     } catch (error) {
       console.error("Error fetching endpoint:", error);
@@ -73,18 +292,67 @@ export async function registerRoutes(
     }
   });
 
-  app.get(api.webhooks.listRequests.path, async (req, res) => {
+  app.get(api.webhooks.listRequests.path, optionalAuth, requireScope("requests:read"), async (req: AuthRequest, res) => {
     try {
-      const requests = await storage.getRequests(req.params.id);
-      res.json(requests);
+      const endpoint = await storage.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Endpoint not found" });
+      }
+
+      if (!(await canAccessEndpoint(endpoint, req.user, "view"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const limit = parsePageSize(req.query.limit);
+      const direction = req.query.direction === "newer" ? "newer" : "older";
+      const cursor = typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : undefined;
+      if (cursor === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const page = await storage.getRequests(endpoint.id, { limit: limit + 1, cursor, direction });
+      const hasMore = page.length > limit;
+      const items = direction === "newer" ? page.slice(page.length - limit) : page.slice(0, limit);
+      const edge = direction === "newer" ? items[0] : items[items.length - 1];
+
+      res.json({
+        items,
+        nextCursor: hasMore && edge ? encodeCursor(edge) : null,
+      });
     } catch (error) {
       console.error("Error fetching requests:", error);
       res.status(500).json({ message: "Failed to fetch requests" });
     }
   });
 
-  // Update endpoint (authenticated, owner only)
-  app.patch("/api/endpoints/:id", authenticate, async (req: AuthRequest, res) => {
+  // Search captured requests
+  app.get(api.webhooks.search.path, optionalAuth, requireScope("requests:read"), async (req: AuthRequest, res) => {
+    try {
+      const endpoint = await storage.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Endpoint not found" });
+      }
+
+      if (!(await canAccessEndpoint(endpoint, req.user, "view"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const filters = filtersFromParams(req.query);
+      const limit = Math.min(parseInt(String(req.query.limit || "100"), 10) || 100, 500);
+      const requests = await storage.searchRequests(endpoint.id, filters, limit);
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error searching requests:", error);
+      res.status(500).json({ message: "Failed to search requests" });
+    }
+  });
+
+  // Update endpoint settings (members and up; anonymous endpoints are managed by whoever holds the id)
+  app.patch(api.endpoints.update.path, optionalAuth, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
       const endpoint = await storage.getEndpoint(id);
@@ -93,21 +361,24 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Endpoint not found" });
       }
 
-      // Check ownership
-      if (endpoint.userId && endpoint.userId !== req.user?.id) {
+      if (!(await canAccessEndpoint(endpoint, req.user, "edit"))) {
         return res.status(403).json({ message: "Forbidden" });
       }
 
-      // TODO: Implement full endpoint update
-      res.json({ message: "Endpoint update not fully implemented" });
+      const input = api.endpoints.update.input.parse(req.body);
+      const updated = await storage.updateEndpoint(id, input);
+      res.json(updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       console.error("Error updating endpoint:", error);
       res.status(500).json({ message: "Failed to update endpoint" });
     }
   });
 
-  // Delete endpoint (authenticated, owner only)
-  app.delete("/api/endpoints/:id", authenticate, async (req: AuthRequest, res) => {
+  // Delete endpoint and its captured history (admins and up)
+  app.delete(api.endpoints.delete.path, optionalAuth, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
       const endpoint = await storage.getEndpoint(id);
@@ -116,13 +387,12 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Endpoint not found" });
       }
 
-      // Check ownership
-      if (endpoint.userId && endpoint.userId !== req.user?.id) {
+      if (!(await canAccessEndpoint(endpoint, req.user, "manage"))) {
         return res.status(403).json({ message: "Forbidden" });
       }
 
-      // TODO: Implement endpoint deletion
-      res.json({ message: "Endpoint deletion not fully implemented" });
+      await storage.deleteEndpoint(id);
+      res.json({ message: "Endpoint deleted" });
     } catch (error) {
       console.error("Error deleting endpoint:", error);
       res.status(500).json({ message: "Failed to delete endpoint" });
@@ -130,31 +400,109 @@ export async function registerRoutes(
   });
 
   // Update endpoint response configuration
-  app.patch("/api/webhooks/:id/response", async (req, res) => {
+  app.patch(api.webhooks.updateResponse.path, optionalAuth, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
-      const { responseStatus, responseHeaders, responseBody } = req.body;
+      const input = api.webhooks.updateResponse.input.parse(req.body);
 
       const endpoint = await storage.getEndpoint(id);
       if (!endpoint) {
         return res.status(404).json({ message: "Endpoint not found" });
       }
 
-      const updated = await storage.updateEndpointResponse(id, {
-        responseStatus: responseStatus ? parseInt(responseStatus, 10) : undefined,
-        responseHeaders,
-        responseBody,
-      });
+      if (!(await canAccessEndpoint(endpoint, req.user, "edit"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const updated = await storage.updateEndpointResponse(id, input);
 
       res.json(updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       console.error("Error updating endpoint response:", error);
       res.status(500).json({ message: "Failed to update endpoint response" });
     }
   });
 
+  // List forwarding attempts for a captured request
+  app.get(api.requests.listForwards.path, optionalAuth, requireScope("requests:read"), async (req: AuthRequest, res) => {
+    try {
+      const request = await storage.getRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const endpoint = await storage.getEndpoint(request.endpointId);
+      if (endpoint && !(await canAccessEndpoint(endpoint, req.user, "view"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const attempts = await storage.getForwardAttempts(request.id);
+      res.json(attempts);
+    } catch (error) {
+      console.error("Error fetching forward attempts:", error);
+      res.status(500).json({ message: "Failed to fetch forward attempts" });
+    }
+  });
+
+  // Replay a captured request to an arbitrary target
+  app.post(api.requests.replay.path, optionalAuth, requireScope("requests:replay"), async (req: AuthRequest, res) => {
+    try {
+      const input = api.requests.replay.input.parse(req.body);
+      const request = await storage.getRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const endpoint = await storage.getEndpoint(request.endpointId);
+      if (endpoint && !(await canAccessEndpoint(endpoint, req.user, "edit"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const targetUrl = input.targetUrl ?? (endpoint?.forwardUrl ? buildForwardUrl(endpoint.forwardUrl, request) : null);
+      if (!targetUrl) {
+        return res.status(400).json({ message: "targetUrl is required when the endpoint has no forward URL" });
+      }
+
+      const replay = await replayRequest(request, { ...input, targetUrl });
+      res.status(201).json(replay);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof DestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error replaying request:", error);
+      res.status(500).json({ message: "Failed to replay request" });
+    }
+  });
+
+  // List replays of a captured request
+  app.get(api.requests.listReplays.path, optionalAuth, requireScope("requests:read"), async (req: AuthRequest, res) => {
+    try {
+      const request = await storage.getRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const endpoint = await storage.getEndpoint(request.endpointId);
+      if (endpoint && !(await canAccessEndpoint(endpoint, req.user, "view"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const replays = await storage.getReplays(request.id);
+      res.json(replays);
+    } catch (error) {
+      console.error("Error fetching replays:", error);
+      res.status(500).json({ message: "Failed to fetch replays" });
+    }
+  });
+
   // Clear endpoint history
-  app.delete("/api/webhooks/:id/requests", async (req, res) => {
+  app.delete("/api/webhooks/:id/requests", optionalAuth, requireScope("endpoints:manage"), async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
       const endpoint = await storage.getEndpoint(id);
@@ -163,6 +511,10 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Endpoint not found" });
       }
 
+      if (!(await canAccessEndpoint(endpoint, req.user, "edit"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
       await storage.deleteRequests(id);
       res.json({ message: "History cleared" });
     } catch (error) {
@@ -173,33 +525,74 @@ export async function registerRoutes(
 
   // Webhook Ingestion Route with rate limiting
   // Route `ALL /webhook/:slug` - Changed from :id to :slug for URL slug
-  app.all("/webhook/:slug", anonymousRateLimit, async (req, res) => {
+  // Route `ALL /webhook/:slug/*` - Sub-paths are captured against the same endpoint
+  app.all(["/webhook/:slug", "/webhook/:slug/*"], async (req, res) => {
     const startTime = Date.now();
     const slug = req.params.slug;
+    const subPath = req.params[0] ? `/${req.params[0]}` : null;
     
     try {
       const endpoint = await storage.getEndpointBySlug(slug);
 
-      if (!endpoint || !endpoint.isActive) {
-        return res.status(404).send("Endpoint not found or inactive");
+      if (!endpoint) {
+        return res.status(404).send("Endpoint not found");
+      }
+
+      if (endpoint.expiresAt && endpoint.expiresAt.getTime() < Date.now()) {
+        return res.status(410).send("Endpoint has expired");
+      }
+
+      if (endpoint.archivedAt) {
+        return res.status(410).send("Endpoint is archived");
+      }
+
+      if (!endpoint.isActive) {
+        return res.status(410).send("Endpoint is inactive");
+      }
+
+      // Unlike maxRequests, which only trims history, a quota stops accepting requests
+      if (endpoint.requestQuota && (endpoint.requestCount || 0) >= endpoint.requestQuota) {
+        const message = `Endpoint request quota of ${endpoint.requestQuota} exceeded`;
+        await rejectDelivery(endpoint, req, "quota", message);
+        return res.status(429).send(message);
+      }
+
+      // Limits follow the endpoint and its owner's plan, not the sender's IP
+      const owner = endpoint.userId ? await storage.getUser(endpoint.userId) : undefined;
+      const limit = await checkIngestionLimits(endpoint, owner);
+      setRateLimitHeaders(res, limit);
+      if (!limit.allowed) {
+        const message = limit.message || "Too many requests";
+        await rejectDelivery(endpoint, req, "rate_limit", message);
+        return res.status(429).send(message);
       }
 
       // Capture request details
+      const { body, rawBody, rawBodyEncoding, bodySize } = captureBody(req);
       const requestData = {
         endpointId: endpoint.id,
         method: req.method,
         path: req.originalUrl,
+        subPath,
         headers: JSON.stringify(req.headers),
-        body: req.body ? JSON.stringify(req.body) : null,
+        body,
+        rawBody,
+        rawBodyEncoding,
         queryParams: JSON.stringify(req.query),
         contentType: req.get("content-type") || null,
         ipAddress: req.ip || null,
         userAgent: req.get("user-agent") || null,
-        bodySize: req.body ? JSON.stringify(req.body).length : 0,
+        bodySize,
         processingTimeMs: null, // Will be set after processing
+        responseStatus: endpoint.responseStatus || 200, // Updated below if proxied
       };
 
       const savedRequest = await storage.createRequest(requestData);
+      await storage.recordEndpointActivity(endpoint);
+      // maxRequests caps the stored history: the oldest requests make room for new ones
+      if (endpoint.maxRequests) {
+        await storage.pruneRequests(endpoint.id);
+      }
       
       // Update processing time
       savedRequest.processingTimeMs = Date.now() - startTime;
@@ -207,8 +600,52 @@ export async function registerRoutes(
       // Emit to dashboard
       io.to(`dashboard:${endpoint.id}`).emit(WS_EVENTS.NEW_REQUEST, savedRequest);
 
-      // Emit to tunnel
-      io.to(`tunnel:${endpoint.id}`).emit(WS_EVENTS.TUNNEL_REQUEST, savedRequest);
+      // A connected tunnel answers with the local service's response, so forwards run in the background.
+      // Routing decides which tunnel clients get the request, if any.
+      const tunnelRoute = routeTunnel(endpoint, savedRequest);
+      const isTunnelled = !!tunnelRoute && tunnelRoute.clients.length > 0;
+
+      // Proxy mode: wait for the forward target and return its real response.
+      // The configured response below only applies on timeout or error.
+      if (endpoint.forwardUrl && endpoint.forwardMode === "proxy" && !isTunnelled) {
+        const { attempt, response } = await forwardRequest(endpoint, savedRequest);
+        io.to(`dashboard:${endpoint.id}`).emit(WS_EVENTS.FORWARD_RESULT, attempt);
+
+        if (response) {
+          savedRequest.responseStatus = response.status;
+          await storage.setRequestResponseStatus(savedRequest.id, response.status);
+          Object.entries(response.relayHeaders).forEach(([key, value]) => {
+            res.setHeader(key, value);
+          });
+          return res.status(response.status).send(response.body);
+        }
+      } else if (endpoint.forwardUrl) {
+        // Relay to the configured forward URL without delaying the response
+        forwardRequest(endpoint, savedRequest)
+          .then(({ attempt }) => {
+            io.to(`dashboard:${endpoint.id}`).emit(WS_EVENTS.FORWARD_RESULT, attempt);
+          })
+          .catch((error) => {
+            console.error("Error forwarding webhook:", error);
+          });
+      }
+
+      if (tunnelRoute && isTunnelled) {
+        const { attempt, response } = await tunnelRequest(io, endpoint, savedRequest, tunnelRoute);
+        io.to(`dashboard:${endpoint.id}`).emit(WS_EVENTS.FORWARD_RESULT, attempt);
+
+        if (response) {
+          savedRequest.responseStatus = response.status;
+          await storage.setRequestResponseStatus(savedRequest.id, response.status);
+          Object.entries(response.relayHeaders).forEach(([key, value]) => {
+            res.setHeader(key, value);
+          });
+          return res.status(response.status).send(response.body);
+        }
+      } else if (tunnelRoute && hadRecentTunnel(endpoint)) {
+        // The tunnel dropped out; keep the delivery for when it reconnects
+        await queueTunnelDelivery(endpoint, savedRequest, tunnelRoute);
+      }
 
       // Send configured response
       const statusCode = endpoint.responseStatus || 200;
@@ -0,0 +1,243 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+export type JsonValue = string | number | boolean | null;
+
+export interface RequestSearchFilters {
+  methods: string[];
+  statuses: { min: number; max: number }[];
+  contentTypes: string[];
+  headers: { name: string; value?: string }[];
+  ips: string[];
+  from?: Date;
+  to?: Date;
+  bodyContains: string[];
+  jsonPaths: { path: string; value: JsonValue }[];
+  text: string[]; // Free-text terms, matched through the FTS5 index
+}
+
+export function emptyFilters(): RequestSearchFilters {
+  return {
+    methods: [],
+    statuses: [],
+    contentTypes: [],
+    headers: [],
+    ips: [],
+    bodyContains: [],
+    jsonPaths: [],
+    text: [],
+  };
+}
+
+const RELATIVE_TIME = /^(\d+)(m|h|d)$/;
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export class SearchQueryError extends Error {}
+
+// Accept ISO dates or relative durations such as 15m, 2h, 7d (meaning "that long ago")
+function parseTime(value: string): Date {
+  const relative = value.match(RELATIVE_TIME);
+  if (relative) {
+    return new Date(Date.now() - parseInt(relative[1], 10) * RELATIVE_UNITS_MS[relative[2]]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new SearchQueryError(`Invalid time "${value}"`);
+  }
+  return date;
+}
+
+// Accept exact codes (404) or classes (4xx)
+function parseStatus(value: string): { min: number; max: number } {
+  const statusClass = value.match(/^([1-5])xx$/i);
+  if (statusClass) {
+    const base = parseInt(statusClass[1], 10) * 100;
+    return { min: base, max: base + 99 };
+  }
+
+  const code = parseInt(value, 10);
+  if (isNaN(code)) {
+    throw new SearchQueryError(`Invalid status "${value}"`);
+  }
+  return { min: code, max: code };
+}
+
+function parseJsonValue(value: string, quoted: boolean): JsonValue {
+  if (quoted) return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value === "null") return null;
+  if (value !== "" && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+interface Token {
+  key?: string;
+  operator?: ":" | "=";
+  value: string;
+  quoted: boolean;
+}
+
+// Split the query into terms, honouring double quotes: method:POST body:"two words" body.type = "a b"
+function tokenize(query: string): Token[] {
+  // Allow spaces around "=" outside quoted strings: body.type = "invoice.paid"
+  const normalized = query
+    .split('"')
+    .map((part, index) => (index % 2 === 0 ? part.replace(/\s*=\s*/g, "=") : part))
+    .join('"');
+  const pattern = /(?:([A-Za-z][\w.\-\[\]]*)(:|=))?(?:"((?:[^"\\]|\\.)*)"|(\S+))/g;
+  const tokens: Token[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    const quoted = match[3] !== undefined;
+    tokens.push({
+      key: match[1],
+      operator: match[2] as Token["operator"],
+      value: quoted ? match[3].replace(/\\(.)/g, "$1") : match[4],
+      quoted,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse the sidebar query language into structured filters.
+ *
+ *   method:POST status:4xx type:json ip:10.0.0.1
+ *   header:x-signature header:x-event=invoice.paid
+ *   after:2h before:2026-01-01 body:"customer_123"
+ *   body.type = "invoice.paid"  body.data.amount = 100
+ *
+ * Anything else is a free-text term matched against path, headers and body.
+ */
+export function parseSearchQuery(query: string): RequestSearchFilters {
+  const filters = emptyFilters();
+
+  for (const token of tokenize(query.trim())) {
+    const key = token.key?.toLowerCase();
+
+    if (key?.startsWith("body.") && token.operator === "=") {
+      filters.jsonPaths.push({
+        path: `$.${token.key!.slice(5)}`,
+        value: parseJsonValue(token.value, token.quoted),
+      });
+      continue;
+    }
+
+    switch (key) {
+      case "method":
+        filters.methods.push(token.value.toUpperCase());
+        break;
+      case "status":
+        filters.statuses.push(parseStatus(token.value));
+        break;
+      case "type":
+      case "content-type":
+        filters.contentTypes.push(token.value.toLowerCase());
+        break;
+      case "header": {
+        const separator = token.value.search(/[=:]/);
+        filters.headers.push(
+          separator === -1
+            ? { name: token.value.toLowerCase() }
+            : { name: token.value.slice(0, separator).toLowerCase(), value: token.value.slice(separator + 1) }
+        );
+        break;
+      }
+      case "ip":
+        filters.ips.push(token.value);
+        break;
+      case "after":
+      case "since":
+        filters.from = parseTime(token.value);
+        break;
+      case "before":
+      case "until":
+        filters.to = parseTime(token.value);
+        break;
+      case "body":
+        filters.bodyContains.push(token.value);
+        break;
+      default:
+        // Unknown keys are searched as plain text, e.g. "invoice:paid"
+        filters.text.push(token.key ? `${token.key}${token.operator}${token.value}` : token.value);
+    }
+  }
+
+  return filters;
+}
+
+const STRUCTURED_PARAMS = ["method", "status", "type", "header", "ip", "after", "before", "body"];
+
+// Build filters from ?q= plus structured params (?method=POST&status=4xx), which are shorthand for query terms
+export function filtersFromParams(params: Record<string, unknown>): RequestSearchFilters {
+  const terms = [typeof params.q === "string" ? params.q : ""];
+
+  STRUCTURED_PARAMS.forEach((key) => {
+    const values = ([] as unknown[]).concat(params[key] ?? []);
+    values.forEach((value) => {
+      if (typeof value === "string" && value !== "") {
+        terms.push(`${key}:"${value.replace(/"/g, '\\"')}"`);
+      }
+    });
+  });
+
+  return parseSearchQuery(terms.join(" "));
+}
+
+// Quote each term so user input can never be interpreted as FTS5 syntax
+export function toFtsMatch(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(" ");
+}
+
+/**
+ * Create the FTS5 index over requests and the triggers that keep it in sync.
+ * drizzle-kit cannot manage virtual tables, so this runs on startup
+ * (drizzle.config.ts excludes requests_fts* from db:push).
+ */
+export function ensureSearchIndex(): void {
+  const requestsTable = db.get<{ name: string } | undefined>(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'requests'`
+  );
+  if (!requestsTable) {
+    console.warn("Search index skipped: requests table missing, run `npm run db:push`");
+    return;
+  }
+
+  const existing = db.get<{ name: string } | undefined>(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'requests_fts'`
+  );
+
+  db.run(sql.raw(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS requests_fts
+      USING fts5(path, headers, body, content='requests', content_rowid='rowid')
+  `));
+  db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS requests_fts_insert AFTER INSERT ON requests BEGIN
+      INSERT INTO requests_fts(rowid, path, headers, body) VALUES (new.rowid, new.path, new.headers, new.body);
+    END
+  `));
+  db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS requests_fts_delete AFTER DELETE ON requests BEGIN
+      INSERT INTO requests_fts(requests_fts, rowid, path, headers, body) VALUES ('delete', old.rowid, old.path, old.headers, old.body);
+    END
+  `));
+  db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS requests_fts_update AFTER UPDATE OF path, headers, body ON requests BEGIN
+      INSERT INTO requests_fts(requests_fts, rowid, path, headers, body) VALUES ('delete', old.rowid, old.path, old.headers, old.body);
+      INSERT INTO requests_fts(rowid, path, headers, body) VALUES (new.rowid, new.path, new.headers, new.body);
+    END
+  `));
+
+  // Index requests captured before the search index existed
+  if (!existing) {
+    db.run(sql.raw(`INSERT INTO requests_fts(requests_fts) VALUES ('rebuild')`));
+  }
+}
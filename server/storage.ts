@@ -1,21 +1,180 @@
 import { db } from "./db";
-import { users, endpoints, requests, type User, type InsertUser, type Endpoint, type Request, type InsertEndpoint, type InsertRequest } from "@shared/schema";
+import { users, endpoints, requests, forwardAttempts, tunnelDeliveries, replays, apiKeys, sessions, emailTokens, recoveryCodes, twoFactorChallenges, usageHourly, workspaces, workspaceMembers, workspaceInvites, type User, type InsertUser, type Endpoint, type Request, type CreateEndpoint, type UpdateEndpoint, type UpdateEndpointResponse, type InsertRequest, type ForwardAttempt, type InsertForwardAttempt, type TunnelDelivery, type InsertTunnelDelivery, type Replay, type InsertReplay, type ApiKey, type InsertApiKey, type Session, type InsertSession, type EmailToken, type InsertEmailToken, type RecoveryCode, type TwoFactorChallenge, type Workspace, type WorkspaceMember, type WorkspaceInvite, type InsertWorkspaceInvite, type WorkspaceRole } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { eq, desc } from "drizzle-orm";
+import { eq, ne, desc, asc, and, or, lt, gt, gte, lte, between, isNull, isNotNull, inArray, sql, type SQL } from "drizzle-orm";
+import { type RequestSearchFilters, toFtsMatch } from "./search";
+
+// Anonymous endpoints expire after this long without receiving a request
+export const ANONYMOUS_ENDPOINT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Requests an anonymous endpoint keeps before the oldest are pruned
+export const ANONYMOUS_MAX_REQUESTS = 100;
+
+// SQLite's implicit rowid grows with each insert, so it orders requests that share a timestamp
+const requestRowid = sql`${requests}.rowid`;
+
+export interface RequestCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface RequestPageOptions {
+  limit?: number;
+  cursor?: RequestCursor;
+  // "older" walks back in time from the cursor, "newer" forward; results are always newest first
+  direction?: "older" | "newer";
+}
+
+// Everything stored for one account, as returned by GET /api/user/export
+export interface AccountData {
+  user: User;
+  endpoints: Endpoint[];
+  requests: Request[];
+  forwardAttempts: ForwardAttempt[];
+  replays: Replay[];
+  apiKeys: ApiKey[];
+  sessions: Session[];
+}
+
+export interface DailyUsage {
+  date: string; // UTC day, YYYY-MM-DD
+  requests: number;
+  rejected: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  rejected: number;
+}
+
+// A queued tunnel delivery with the captured request it carries
+export interface PendingTunnelDelivery {
+  delivery: TunnelDelivery;
+  request: Request;
+}
+
+// A workspace as seen by one of its members
+export interface WorkspaceMembership extends Workspace {
+  role: WorkspaceRole;
+}
+
+// A member with the account details shown in the members list
+export interface WorkspaceMemberDetails {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  createdAt: Date | null;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<Pick<User, "name" | "username">>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<void>;
+  getAccountData(userId: string): Promise<AccountData | undefined>;
+  setUserPassword(id: string, passwordHash: string): Promise<void>;
+  markEmailVerified(id: string, email: string): Promise<void>;
+
+  // Usage methods
+  recordUsage(userId: string, at: Date, counter?: "requestCount" | "rejectedCount"): Promise<void>;
+  getUsageSince(userId: string, since: Date): Promise<UsageTotals>;
+  getDailyUsage(userId: string, since: Date): Promise<DailyUsage[]>;
+  getEndpointTotals(userId: string): Promise<{ endpoints: number; requests: number }>;
+
+  // Two-factor methods
+  setPendingTotpSecret(id: string, secret: string): Promise<boolean>;
+  enableTotp(id: string, step: number): Promise<boolean>;
+  disableTotp(id: string): Promise<void>;
+  useTotpStep(id: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  getUnusedRecoveryCodes(userId: string): Promise<RecoveryCode[]>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  createTwoFactorChallenge(challenge: Pick<TwoFactorChallenge, 'id' | 'userId' | 'expiresAt'>): Promise<TwoFactorChallenge>;
+  getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined>;
+  recordTwoFactorAttempt(id: string, maxAttempts: number, now: Date): Promise<boolean>;
+  useTwoFactorChallenge(id: string): Promise<boolean>;
+  deleteExpiredTwoFactorChallenges(userId: string, now: Date): Promise<number>;
 
   // Endpoint methods
-  createEndpoint(endpoint?: Partial<InsertEndpoint>): Promise<Endpoint>;
+  createEndpoint(endpoint?: CreateEndpoint & { userId?: string; workspaceId?: string }): Promise<Endpoint>;
   getEndpoint(id: string): Promise<Endpoint | undefined>;
   getEndpointBySlug(slug: string): Promise<Endpoint | undefined>;
-  updateEndpointResponse(id: string, response: { responseStatus?: number; responseHeaders?: any; responseBody?: string }): Promise<Endpoint | undefined>;
+  getUserEndpoints(userId: string): Promise<Endpoint[]>;
+  getPersonalEndpoints(userId: string): Promise<Endpoint[]>;
+  getWorkspaceEndpoints(workspaceId: string): Promise<Endpoint[]>;
+  moveEndpoint(id: string, owner: { userId: string; workspaceId: string | null }): Promise<Endpoint | undefined>;
+  claimEndpoint(id: string, userId: string): Promise<Endpoint | undefined>;
+  updateEndpoint(id: string, updates: UpdateEndpoint): Promise<Endpoint | undefined>;
+  deleteEndpoint(id: string): Promise<void>;
+  updateEndpointResponse(id: string, response: UpdateEndpointResponse): Promise<Endpoint | undefined>;
+  recordEndpointActivity(endpoint: Endpoint): Promise<void>;
+  recordEndpointRejection(endpoint: Endpoint): Promise<void>;
+  setEndpointTunnelSeen(id: string, at: Date): Promise<void>;
+  deleteExpiredAnonymousEndpoints(now: Date): Promise<number>;
+  deactivateExpiredEndpoints(now: Date): Promise<number>;
+  pruneRequests(endpointId?: string): Promise<number>;
   createRequest(request: Omit<InsertRequest, 'id' | 'timestamp'>): Promise<Request>;
-  getRequests(endpointId: string): Promise<Request[]>;
+  getRequest(id: string): Promise<Request | undefined>;
+  getRequests(endpointId: string, options?: RequestPageOptions): Promise<Request[]>;
+  searchRequests(endpointId: string, filters: RequestSearchFilters, limit: number): Promise<Request[]>;
+  setRequestResponseStatus(id: string, responseStatus: number): Promise<void>;
   deleteRequests(endpointId: string): Promise<void>;
+
+  // Forwarding methods
+  createForwardAttempt(attempt: Omit<InsertForwardAttempt, 'id' | 'createdAt'>): Promise<ForwardAttempt>;
+  getForwardAttempts(requestId: string): Promise<ForwardAttempt[]>;
+
+  // Tunnel delivery methods
+  createTunnelDelivery(delivery: Omit<InsertTunnelDelivery, 'id' | 'attempts' | 'lastAttemptAt' | 'createdAt'>): Promise<TunnelDelivery>;
+  getPendingTunnelDeliveries(endpointId: string, tunnelName: string, now: Date): Promise<PendingTunnelDelivery[]>;
+  recordTunnelDeliveryAttempt(id: string, at: Date): Promise<void>;
+  acknowledgeTunnelDelivery(id: string, endpointIds: string[]): Promise<TunnelDelivery | undefined>;
+  deleteExpiredTunnelDeliveries(now: Date): Promise<number>;
+
+  // Replay methods
+  createReplay(replay: Omit<InsertReplay, 'id' | 'createdAt'>): Promise<Replay>;
+  getReplays(requestId: string): Promise<Replay[]>;
+
+  // Session methods
+  createSession(session: Omit<InsertSession, 'createdAt'>): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getActiveSessions(userId: string, now: Date): Promise<Session[]>;
+  rotateSession(id: string, refreshTokenId: string, expiresAt: Date): Promise<void>;
+  revokeSession(id: string, userId: string): Promise<boolean>;
+  revokeOtherSessions(userId: string, keepSessionId: string | null): Promise<number>;
+  deleteExpiredSessions(userId: string, now: Date): Promise<number>;
+
+  // Email token methods
+  createEmailToken(token: Omit<InsertEmailToken, 'createdAt'>): Promise<EmailToken>;
+  getEmailToken(id: string): Promise<EmailToken | undefined>;
+  useEmailToken(id: string): Promise<boolean>;
+
+  // API key methods
+  createApiKey(apiKey: Omit<InsertApiKey, 'id' | 'createdAt'>): Promise<ApiKey>;
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+  deleteApiKey(id: string, userId: string): Promise<boolean>;
+
+  // Workspace methods
+  createWorkspace(name: string, ownerId: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getUserWorkspaces(userId: string): Promise<WorkspaceMembership[]>;
+  renameWorkspace(id: string, name: string): Promise<Workspace | undefined>;
+  deleteWorkspace(id: string): Promise<void>;
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetails[]>;
+  addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void>;
+  setWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+  createWorkspaceInvite(invite: Omit<InsertWorkspaceInvite, 'id' | 'acceptedAt' | 'createdAt'>): Promise<WorkspaceInvite>;
+  getWorkspaceInvite(id: string): Promise<WorkspaceInvite | undefined>;
+  getPendingWorkspaceInvites(workspaceId: string, now: Date): Promise<WorkspaceInvite[]>;
+  acceptWorkspaceInvite(id: string): Promise<boolean>;
+  deleteWorkspaceInvite(id: string, workspaceId: string): Promise<boolean>;
 }
 
 export class DbStorage implements IStorage {
@@ -29,6 +188,11 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const now = new Date();
@@ -39,6 +203,10 @@ export class DbStorage implements IStorage {
       passwordHash: insertUser.passwordHash || null,
       name: insertUser.name || null,
       plan: insertUser.plan || "free",
+      emailVerifiedAt: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -46,7 +214,250 @@ export class DbStorage implements IStorage {
     return user;
   }
 
-  async createEndpoint(endpoint?: Partial<InsertEndpoint>): Promise<Endpoint> {
+  async updateUser(
+    id: string,
+    updates: Partial<Pick<User, "name" | "username">>
+  ): Promise<User | undefined> {
+    await db.update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id));
+    return await this.getUser(id);
+  }
+
+  // Remove the account and everything it owns, including its workspaces and their
+  // endpoints; anonymous endpoints are not affected
+  async deleteUser(id: string): Promise<void> {
+    const owned = await this.getUserEndpoints(id);
+    for (const endpoint of owned) {
+      await this.deleteEndpoint(endpoint.id);
+    }
+
+    const ownedWorkspaces = await db.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.ownerId, id));
+    if (ownedWorkspaces.length > 0) {
+      const workspaceIds = ownedWorkspaces.map((workspace) => workspace.id);
+      await db.delete(workspaceInvites).where(inArray(workspaceInvites.workspaceId, workspaceIds));
+      await db.delete(workspaceMembers).where(inArray(workspaceMembers.workspaceId, workspaceIds));
+      await db.delete(workspaces).where(inArray(workspaces.id, workspaceIds));
+    }
+    await db.delete(workspaceMembers).where(eq(workspaceMembers.userId, id));
+
+    await db.delete(apiKeys).where(eq(apiKeys.userId, id));
+    await db.delete(sessions).where(eq(sessions.userId, id));
+    await db.delete(emailTokens).where(eq(emailTokens.userId, id));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, id));
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, id));
+    await db.delete(usageHourly).where(eq(usageHourly.userId, id));
+    await db.delete(users).where(eq(users.id, id));
+  }
+
+  async getAccountData(userId: string): Promise<AccountData | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const owned = await this.getUserEndpoints(userId);
+    const endpointIds = owned.map((endpoint) => endpoint.id);
+    const byEndpoint = endpointIds.length > 0;
+
+    return {
+      user,
+      endpoints: owned,
+      requests: byEndpoint
+        ? await db.select().from(requests)
+          .where(inArray(requests.endpointId, endpointIds))
+          .orderBy(asc(requests.timestamp), asc(requestRowid))
+        : [],
+      forwardAttempts: byEndpoint
+        ? await db.select().from(forwardAttempts)
+          .where(inArray(forwardAttempts.endpointId, endpointIds))
+          .orderBy(asc(forwardAttempts.createdAt))
+        : [],
+      replays: byEndpoint
+        ? await db.select().from(replays)
+          .where(inArray(replays.endpointId, endpointIds))
+          .orderBy(asc(replays.createdAt))
+        : [],
+      apiKeys: await this.getApiKeys(userId),
+      sessions: await db.select().from(sessions)
+        .where(eq(sessions.userId, userId))
+        .orderBy(desc(sessions.createdAt)),
+    };
+  }
+
+  async setUserPassword(id: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ passwordHash, updatedAt: new Date() }).where(eq(users.id, id));
+  }
+
+  // Only verify the address the token was sent to, in case the email changed since
+  async markEmailVerified(id: string, email: string): Promise<void> {
+    const now = new Date();
+    await db.update(users)
+      .set({ emailVerifiedAt: now, updatedAt: now })
+      .where(and(eq(users.id, id), eq(users.email, email)));
+  }
+
+  // Count one accepted or rejected request in the hour it arrived
+  async recordUsage(
+    userId: string,
+    at: Date,
+    counter: "requestCount" | "rejectedCount" = "requestCount"
+  ): Promise<void> {
+    const hour = new Date(at);
+    hour.setUTCMinutes(0, 0, 0);
+
+    await db.insert(usageHourly)
+      .values({ userId, hour, requestCount: 0, rejectedCount: 0, [counter]: 1 })
+      .onConflictDoUpdate({
+        target: [usageHourly.userId, usageHourly.hour],
+        set: { [counter]: sql`${usageHourly[counter]} + 1` },
+      });
+  }
+
+  async getUsageSince(userId: string, since: Date): Promise<UsageTotals> {
+    const result = await db.select({
+      requests: sql<number>`coalesce(sum(${usageHourly.requestCount}), 0)`,
+      rejected: sql<number>`coalesce(sum(${usageHourly.rejectedCount}), 0)`,
+    })
+      .from(usageHourly)
+      .where(and(eq(usageHourly.userId, userId), gte(usageHourly.hour, since)));
+    return result[0] ?? { requests: 0, rejected: 0 };
+  }
+
+  // Days without traffic are left out; callers fill the gaps
+  async getDailyUsage(userId: string, since: Date): Promise<DailyUsage[]> {
+    const day = sql<string>`date(${usageHourly.hour}, 'unixepoch')`;
+    return await db.select({
+      date: day,
+      requests: sql<number>`sum(${usageHourly.requestCount})`,
+      rejected: sql<number>`sum(${usageHourly.rejectedCount})`,
+    })
+      .from(usageHourly)
+      .where(and(eq(usageHourly.userId, userId), gte(usageHourly.hour, since)))
+      .groupBy(day)
+      .orderBy(day);
+  }
+
+  async getEndpointTotals(userId: string): Promise<{ endpoints: number; requests: number }> {
+    const result = await db.select({
+      endpoints: sql<number>`count(*)`,
+      requests: sql<number>`coalesce(sum(${endpoints.requestCount}), 0)`,
+    })
+      .from(endpoints)
+      .where(eq(endpoints.userId, userId));
+    return result[0] ?? { endpoints: 0, requests: 0 };
+  }
+
+  // Start (or restart) enrollment; false once 2FA is already enabled
+  async setPendingTotpSecret(id: string, secret: string): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ totpSecret: secret, totpLastUsedStep: null, updatedAt: new Date() })
+      .where(and(eq(users.id, id), isNull(users.totpEnabledAt)));
+    return result.changes > 0;
+  }
+
+  async enableTotp(id: string, step: number): Promise<boolean> {
+    const now = new Date();
+    const result = await db.update(users)
+      .set({ totpEnabledAt: now, totpLastUsedStep: step, updatedAt: now })
+      .where(and(eq(users.id, id), isNotNull(users.totpSecret), isNull(users.totpEnabledAt)));
+    return result.changes > 0;
+  }
+
+  async disableTotp(id: string): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, updatedAt: new Date() })
+      .where(eq(users.id, id));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, id));
+  }
+
+  // Record an accepted code's time step; false if that step or a later one was already used
+  async useTotpStep(id: string, step: number): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, id),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ));
+    return result.changes > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    const now = new Date();
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    if (codeHashes.length === 0) return;
+
+    await db.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({
+      id: randomUUID(),
+      userId,
+      codeHash,
+      usedAt: null,
+      createdAt: now,
+    })));
+  }
+
+  async getUnusedRecoveryCodes(userId: string): Promise<RecoveryCode[]> {
+    return await db.select()
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  }
+
+  // Spend a recovery code; false if it does not exist or was already used
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db.update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ));
+    return result.changes > 0;
+  }
+
+  async createTwoFactorChallenge(challenge: Pick<TwoFactorChallenge, 'id' | 'userId' | 'expiresAt'>): Promise<TwoFactorChallenge> {
+    const record: TwoFactorChallenge = {
+      ...challenge,
+      attempts: 0,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(twoFactorChallenges).values(record);
+    return record;
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const result = await db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Count one code attempt against a challenge; false once it is used up, spent or expired.
+  // A single UPDATE, so concurrent attempts cannot go past maxAttempts.
+  async recordTwoFactorAttempt(id: string, maxAttempts: number, now: Date): Promise<boolean> {
+    const result = await db.update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(and(
+        eq(twoFactorChallenges.id, id),
+        lt(twoFactorChallenges.attempts, maxAttempts),
+        isNull(twoFactorChallenges.usedAt),
+        gt(twoFactorChallenges.expiresAt, now)
+      ));
+    return result.changes > 0;
+  }
+
+  // Mark a challenge as completed; false if it already was, so it signs in once
+  async useTwoFactorChallenge(id: string): Promise<boolean> {
+    const result = await db.update(twoFactorChallenges)
+      .set({ usedAt: new Date() })
+      .where(and(eq(twoFactorChallenges.id, id), isNull(twoFactorChallenges.usedAt)));
+    return result.changes > 0;
+  }
+
+  async deleteExpiredTwoFactorChallenges(userId: string, now: Date): Promise<number> {
+    const result = await db.delete(twoFactorChallenges)
+      .where(and(eq(twoFactorChallenges.userId, userId), lt(twoFactorChallenges.expiresAt, now)));
+    return result.changes;
+  }
+
+  async createEndpoint(endpoint?: CreateEndpoint & { userId?: string; workspaceId?: string }): Promise<Endpoint> {
     const id = randomUUID();
     const uniqueSlug = randomUUID().split('-')[0]; // Use first segment as slug
     const now = new Date();
@@ -54,17 +465,30 @@ export class DbStorage implements IStorage {
     const newEndpoint: Endpoint = {
       id,
       userId: endpoint?.userId || null,
+      workspaceId: endpoint?.workspaceId || null,
       uniqueSlug,
       name: endpoint?.name || null,
       description: endpoint?.description || null,
-      customDomain: endpoint?.customDomain || null,
-      expiresAt: endpoint?.expiresAt || null,
-      maxRequests: endpoint?.maxRequests || 100,
+      customDomain: null,
+      // Anonymous sessions expire automatically, owned endpoints only when asked to
+      expiresAt: endpoint?.userId ? null : new Date(now.getTime() + ANONYMOUS_ENDPOINT_TTL_MS),
+      // Anonymous sessions keep a bounded history, owned endpoints keep everything unless capped
+      maxRequests: endpoint?.maxRequests ?? (endpoint?.userId ? null : ANONYMOUS_MAX_REQUESTS),
+      requestQuota: endpoint?.requestQuota ?? null,
+      requestCount: 0,
       responseStatus: endpoint?.responseStatus || 200,
       responseHeaders: endpoint?.responseHeaders ? JSON.stringify(endpoint.responseHeaders) : null,
       responseBody: endpoint?.responseBody || null,
       forwardUrl: endpoint?.forwardUrl || null,
-      isActive: endpoint?.isActive !== undefined ? endpoint.isActive : true,
+      forwardMode: endpoint?.forwardMode || "async",
+      isActive: true,
+      archivedAt: null,
+      lastRequestAt: null,
+      rejectedCount: 0,
+      lastRejectedAt: null,
+      lastTunnelAt: null,
+      tunnelRouting: endpoint?.tunnelRouting || "broadcast",
+      tunnelRules: endpoint?.tunnelRules ? JSON.stringify(endpoint.tunnelRules) : null,
       createdAt: now,
       updatedAt: now,
     };
@@ -83,9 +507,87 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Every endpoint the account owns, including those in workspaces it owns
+  async getUserEndpoints(userId: string): Promise<Endpoint[]> {
+    return await db.select()
+      .from(endpoints)
+      .where(eq(endpoints.userId, userId))
+      .orderBy(desc(endpoints.createdAt));
+  }
+
+  async getPersonalEndpoints(userId: string): Promise<Endpoint[]> {
+    return await db.select()
+      .from(endpoints)
+      .where(and(eq(endpoints.userId, userId), isNull(endpoints.workspaceId)))
+      .orderBy(desc(endpoints.createdAt));
+  }
+
+  async getWorkspaceEndpoints(workspaceId: string): Promise<Endpoint[]> {
+    return await db.select()
+      .from(endpoints)
+      .where(eq(endpoints.workspaceId, workspaceId))
+      .orderBy(desc(endpoints.createdAt));
+  }
+
+  // Hand an endpoint to a workspace (owned by the workspace owner) or back to a personal account
+  async moveEndpoint(id: string, owner: { userId: string; workspaceId: string | null }): Promise<Endpoint | undefined> {
+    await db.update(endpoints)
+      .set({ userId: owner.userId, workspaceId: owner.workspaceId, updatedAt: new Date() })
+      .where(eq(endpoints.id, id));
+    return await this.getEndpoint(id);
+  }
+
+  // Attach an anonymous endpoint to an account; owned endpoints no longer expire on their own,
+  // and drop the anonymous history limit unless it was changed
+  async claimEndpoint(id: string, userId: string): Promise<Endpoint | undefined> {
+    const endpoint = await this.getEndpoint(id);
+    if (!endpoint) return undefined;
+
+    const updates: Partial<Endpoint> = {
+      userId,
+      expiresAt: null,
+      updatedAt: new Date(),
+    };
+    if (endpoint.maxRequests === ANONYMOUS_MAX_REQUESTS) {
+      updates.maxRequests = null;
+    }
+
+    await db.update(endpoints)
+      .set(updates)
+      .where(and(eq(endpoints.id, id), isNull(endpoints.userId)));
+
+    return { ...endpoint, ...updates };
+  }
+
+  async updateEndpoint(id: string, changes: UpdateEndpoint): Promise<Endpoint | undefined> {
+    const endpoint = await this.getEndpoint(id);
+    if (!endpoint) return undefined;
+
+    const { responseHeaders, tunnelRules, ...rest } = changes;
+    const updates: Partial<Endpoint> = {
+      ...rest,
+      updatedAt: new Date(),
+    };
+    if (responseHeaders !== undefined) {
+      updates.responseHeaders = responseHeaders ? JSON.stringify(responseHeaders) : null;
+    }
+    if (tunnelRules !== undefined) {
+      updates.tunnelRules = tunnelRules ? JSON.stringify(tunnelRules) : null;
+    }
+
+    await db.update(endpoints).set(updates).where(eq(endpoints.id, id));
+
+    return { ...endpoint, ...updates };
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    await this.deleteRequests(id);
+    await db.delete(endpoints).where(eq(endpoints.id, id));
+  }
+
   async updateEndpointResponse(
     id: string,
-    response: { responseStatus?: number; responseHeaders?: any; responseBody?: string }
+    response: UpdateEndpointResponse
   ): Promise<Endpoint | undefined> {
     const endpoint = await this.getEndpoint(id);
     if (!endpoint) return undefined;
@@ -97,12 +599,97 @@ export class DbStorage implements IStorage {
     if (response.responseStatus !== undefined) updates.responseStatus = response.responseStatus;
     if (response.responseHeaders !== undefined) updates.responseHeaders = JSON.stringify(response.responseHeaders);
     if (response.responseBody !== undefined) updates.responseBody = response.responseBody;
+    if (response.forwardUrl !== undefined) updates.forwardUrl = response.forwardUrl || null;
+    if (response.forwardMode !== undefined) updates.forwardMode = response.forwardMode;
 
     await db.update(endpoints).set(updates).where(eq(endpoints.id, id));
     
     return { ...endpoint, ...updates };
   }
 
+  async recordEndpointActivity(endpoint: Endpoint): Promise<void> {
+    const updates: Record<string, unknown> = {
+      requestCount: sql`${endpoints.requestCount} + 1`,
+      lastRequestAt: new Date(),
+    };
+
+    // Sliding expiry: anonymous sessions stay alive while they receive traffic
+    if (!endpoint.userId) {
+      updates.expiresAt = new Date(Date.now() + ANONYMOUS_ENDPOINT_TTL_MS);
+    }
+
+    await db.update(endpoints).set(updates).where(eq(endpoints.id, endpoint.id));
+
+    if (endpoint.userId) {
+      await this.recordUsage(endpoint.userId, new Date());
+    }
+  }
+
+  async recordEndpointRejection(endpoint: Endpoint): Promise<void> {
+    const now = new Date();
+    await db.update(endpoints)
+      .set({ rejectedCount: sql`${endpoints.rejectedCount} + 1`, lastRejectedAt: now })
+      .where(eq(endpoints.id, endpoint.id));
+
+    if (endpoint.userId) {
+      await this.recordUsage(endpoint.userId, now, "rejectedCount");
+    }
+  }
+
+  async setEndpointTunnelSeen(id: string, at: Date): Promise<void> {
+    await db.update(endpoints).set({ lastTunnelAt: at }).where(eq(endpoints.id, id));
+  }
+
+  async deleteExpiredAnonymousEndpoints(now: Date): Promise<number> {
+    const expired = await db.select({ id: endpoints.id })
+      .from(endpoints)
+      .where(and(isNull(endpoints.userId), isNotNull(endpoints.expiresAt), lt(endpoints.expiresAt, now)));
+
+    const ids = expired.map((endpoint) => endpoint.id);
+    if (ids.length === 0) return 0;
+
+    await db.delete(forwardAttempts).where(inArray(forwardAttempts.endpointId, ids));
+    await db.delete(tunnelDeliveries).where(inArray(tunnelDeliveries.endpointId, ids));
+    await db.delete(replays).where(inArray(replays.endpointId, ids));
+    await db.delete(requests).where(inArray(requests.endpointId, ids));
+    await db.delete(endpoints).where(inArray(endpoints.id, ids));
+    return ids.length;
+  }
+
+  async deactivateExpiredEndpoints(now: Date): Promise<number> {
+    const result = await db.update(endpoints)
+      .set({ isActive: false, updatedAt: now })
+      .where(and(
+        isNotNull(endpoints.userId),
+        eq(endpoints.isActive, true),
+        isNotNull(endpoints.expiresAt),
+        lt(endpoints.expiresAt, now),
+      ));
+    return result.changes;
+  }
+
+  async pruneRequests(endpointId?: string): Promise<number> {
+    // Keep only the newest maxRequests rows per endpoint, or for just the one given
+    const scope = endpointId ? sql`WHERE endpoint_id = ${endpointId}` : sql``;
+    const result = await db.run(sql`
+      DELETE FROM ${requests} WHERE id IN (
+        SELECT r.id FROM (
+          SELECT id, endpoint_id, ROW_NUMBER() OVER (PARTITION BY endpoint_id ORDER BY timestamp DESC, rowid DESC) AS position
+          FROM ${requests} ${scope}
+        ) r
+        JOIN ${endpoints} e ON e.id = r.endpoint_id
+        WHERE e.max_requests IS NOT NULL AND r.position > e.max_requests
+      )
+    `);
+
+    if (result.changes > 0) {
+      await db.run(sql`DELETE FROM ${forwardAttempts} WHERE request_id NOT IN (SELECT id FROM ${requests})`);
+      await db.run(sql`DELETE FROM ${tunnelDeliveries} WHERE request_id NOT IN (SELECT id FROM ${requests})`);
+      await db.run(sql`DELETE FROM ${replays} WHERE request_id NOT IN (SELECT id FROM ${requests})`);
+    }
+    return result.changes;
+  }
+
   async createRequest(insertRequest: Omit<InsertRequest, 'id' | 'timestamp'>): Promise<Request> {
     const id = randomUUID();
     const now = new Date();
@@ -112,32 +699,484 @@ export class DbStorage implements IStorage {
       endpointId: insertRequest.endpointId,
       method: insertRequest.method,
       path: insertRequest.path || null,
+      subPath: insertRequest.subPath || null,
       timestamp: now,
       queryParams: insertRequest.queryParams ? JSON.stringify(insertRequest.queryParams) : null,
       headers: typeof insertRequest.headers === 'string' ? insertRequest.headers : JSON.stringify(insertRequest.headers),
       body: insertRequest.body || null,
+      rawBody: insertRequest.rawBody || null,
+      rawBodyEncoding: insertRequest.rawBodyEncoding || null,
       bodySize: insertRequest.bodySize || null,
       contentType: insertRequest.contentType || null,
       ipAddress: insertRequest.ipAddress || null,
       userAgent: insertRequest.userAgent || null,
       processingTimeMs: insertRequest.processingTimeMs || null,
+      responseStatus: insertRequest.responseStatus ?? null,
     };
     
     await db.insert(requests).values(request);
     return request;
   }
 
-  async getRequests(endpointId: string): Promise<Request[]> {
+  async getRequest(id: string): Promise<Request | undefined> {
+    const result = await db.select().from(requests).where(eq(requests.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getRequests(endpointId: string, options: RequestPageOptions = {}): Promise<Request[]> {
+    const { limit = 100, cursor, direction = "older" } = options;
+    const conditions: (SQL | undefined)[] = [eq(requests.endpointId, endpointId)];
+
+    // Keyset pagination on (timestamp, rowid). Timestamps have one-second precision, so the
+    // rowid (insertion order) breaks ties; the cursor names a request and its rowid is looked up
+    if (cursor) {
+      const cursorRowid = sql`(SELECT rowid FROM ${requests} WHERE id = ${cursor.id})`;
+      conditions.push(direction === "older"
+        ? or(lt(requests.timestamp, cursor.timestamp), and(eq(requests.timestamp, cursor.timestamp), sql`${requestRowid} < ${cursorRowid}`))
+        : or(gt(requests.timestamp, cursor.timestamp), and(eq(requests.timestamp, cursor.timestamp), sql`${requestRowid} > ${cursorRowid}`)));
+    }
+
+    if (direction === "newer") {
+      const page = await db.select()
+        .from(requests)
+        .where(and(...conditions))
+        .orderBy(asc(requests.timestamp), asc(requestRowid))
+        .limit(limit);
+      return page.reverse();
+    }
+
+    return await db.select()
+      .from(requests)
+      .where(and(...conditions))
+      .orderBy(desc(requests.timestamp), desc(requestRowid))
+      .limit(limit);
+  }
+
+  async searchRequests(endpointId: string, filters: RequestSearchFilters, limit: number): Promise<Request[]> {
+    const conditions: (SQL | undefined)[] = [eq(requests.endpointId, endpointId)];
+
+    if (filters.methods.length > 0) {
+      conditions.push(inArray(requests.method, filters.methods));
+    }
+    if (filters.statuses.length > 0) {
+      conditions.push(or(...filters.statuses.map(({ min, max }) => between(requests.responseStatus, min, max))));
+    }
+    filters.contentTypes.forEach((contentType) => {
+      conditions.push(sql`instr(lower(${requests.contentType}), ${contentType}) > 0`);
+    });
+    filters.headers.forEach(({ name, value }) => {
+      const path = `$."${name.replace(/"/g, "")}"`;
+      conditions.push(value === undefined
+        ? sql`json_extract(${requests.headers}, ${path}) IS NOT NULL`
+        : sql`json_extract(${requests.headers}, ${path}) = ${value}`);
+    });
+    if (filters.ips.length > 0) {
+      conditions.push(inArray(requests.ipAddress, filters.ips));
+    }
+    if (filters.from) conditions.push(gte(requests.timestamp, filters.from));
+    if (filters.to) conditions.push(lte(requests.timestamp, filters.to));
+    filters.bodyContains.forEach((text) => {
+      conditions.push(sql`(instr(${requests.body}, ${text}) > 0 OR instr(${requests.rawBody}, ${text}) > 0)`);
+    });
+    filters.jsonPaths.forEach(({ path, value }) => {
+      // json_extract raises on malformed JSON, so only look inside valid bodies
+      const extracted = sql`CASE WHEN json_valid(${requests.body}) THEN json_extract(${requests.body}, ${path}) END`;
+      if (value === null) {
+        conditions.push(sql`json_valid(${requests.body}) AND json_type(${requests.body}, ${path}) = 'null'`);
+      } else if (typeof value === "boolean") {
+        conditions.push(sql`json_valid(${requests.body}) AND json_type(${requests.body}, ${path}) = ${value ? "true" : "false"}`);
+      } else {
+        conditions.push(sql`${extracted} = ${value}`);
+      }
+    });
+    if (filters.text.length > 0) {
+      conditions.push(sql`${requests}.rowid IN (SELECT rowid FROM requests_fts WHERE requests_fts MATCH ${toFtsMatch(filters.text)})`);
+    }
+
     return await db.select()
       .from(requests)
-      .where(eq(requests.endpointId, endpointId))
-      .orderBy(desc(requests.timestamp))
-      .limit(100);
+      .where(and(...conditions))
+      .orderBy(desc(requests.timestamp), desc(requestRowid))
+      .limit(limit);
+  }
+
+  async setRequestResponseStatus(id: string, responseStatus: number): Promise<void> {
+    await db.update(requests).set({ responseStatus }).where(eq(requests.id, id));
   }
 
   async deleteRequests(endpointId: string): Promise<void> {
+    await db.delete(forwardAttempts).where(eq(forwardAttempts.endpointId, endpointId));
+    await db.delete(tunnelDeliveries).where(eq(tunnelDeliveries.endpointId, endpointId));
+    await db.delete(replays).where(eq(replays.endpointId, endpointId));
     await db.delete(requests).where(eq(requests.endpointId, endpointId));
   }
+
+  async createForwardAttempt(insertAttempt: Omit<InsertForwardAttempt, 'id' | 'createdAt'>): Promise<ForwardAttempt> {
+    const attempt: ForwardAttempt = {
+      id: randomUUID(),
+      requestId: insertAttempt.requestId,
+      endpointId: insertAttempt.endpointId,
+      targetUrl: insertAttempt.targetUrl,
+      mode: insertAttempt.mode || "async",
+      responseStatus: insertAttempt.responseStatus ?? null,
+      responseHeaders: insertAttempt.responseHeaders ?? null,
+      responseBody: insertAttempt.responseBody ?? null,
+      responseBodyEncoding: insertAttempt.responseBodyEncoding ?? null,
+      durationMs: insertAttempt.durationMs ?? null,
+      error: insertAttempt.error ?? null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(forwardAttempts).values(attempt);
+    return attempt;
+  }
+
+  async getForwardAttempts(requestId: string): Promise<ForwardAttempt[]> {
+    return await db.select()
+      .from(forwardAttempts)
+      .where(eq(forwardAttempts.requestId, requestId))
+      .orderBy(desc(forwardAttempts.createdAt));
+  }
+
+  async createTunnelDelivery(
+    insertDelivery: Omit<InsertTunnelDelivery, 'id' | 'attempts' | 'lastAttemptAt' | 'createdAt'>
+  ): Promise<TunnelDelivery> {
+    const delivery: TunnelDelivery = {
+      id: randomUUID(),
+      requestId: insertDelivery.requestId,
+      endpointId: insertDelivery.endpointId,
+      tunnelName: insertDelivery.tunnelName ?? null,
+      attempts: 0,
+      lastAttemptAt: null,
+      expiresAt: insertDelivery.expiresAt,
+      createdAt: new Date(),
+    };
+
+    await db.insert(tunnelDeliveries).values(delivery);
+    return delivery;
+  }
+
+  // Deliveries the named tunnel may take, oldest first so it sees requests in the order they arrived
+  async getPendingTunnelDeliveries(endpointId: string, tunnelName: string, now: Date): Promise<PendingTunnelDelivery[]> {
+    return await db.select({ delivery: tunnelDeliveries, request: requests })
+      .from(tunnelDeliveries)
+      .innerJoin(requests, eq(requests.id, tunnelDeliveries.requestId))
+      .where(and(
+        eq(tunnelDeliveries.endpointId, endpointId),
+        or(isNull(tunnelDeliveries.tunnelName), eq(tunnelDeliveries.tunnelName, tunnelName)),
+        gt(tunnelDeliveries.expiresAt, now),
+      ))
+      .orderBy(asc(tunnelDeliveries.createdAt), asc(tunnelDeliveries.id));
+  }
+
+  async recordTunnelDeliveryAttempt(id: string, at: Date): Promise<void> {
+    await db.update(tunnelDeliveries)
+      .set({ attempts: sql`${tunnelDeliveries.attempts} + 1`, lastAttemptAt: at })
+      .where(eq(tunnelDeliveries.id, id));
+  }
+
+  // Remove an acknowledged delivery if it belongs to one of the endpoints; undefined when it
+  // was already acknowledged or has expired
+  async acknowledgeTunnelDelivery(id: string, endpointIds: string[]): Promise<TunnelDelivery | undefined> {
+    const deleted = await db.delete(tunnelDeliveries)
+      .where(and(eq(tunnelDeliveries.id, id), inArray(tunnelDeliveries.endpointId, endpointIds)))
+      .returning();
+    return deleted[0];
+  }
+
+  async deleteExpiredTunnelDeliveries(now: Date): Promise<number> {
+    const result = await db.delete(tunnelDeliveries).where(lt(tunnelDeliveries.expiresAt, now));
+    return result.changes;
+  }
+
+  async createReplay(insertReplay: Omit<InsertReplay, 'id' | 'createdAt'>): Promise<Replay> {
+    const replay: Replay = {
+      id: randomUUID(),
+      requestId: insertReplay.requestId,
+      endpointId: insertReplay.endpointId,
+      targetUrl: insertReplay.targetUrl,
+      method: insertReplay.method,
+      requestHeaders: insertReplay.requestHeaders,
+      requestBody: insertReplay.requestBody ?? null,
+      requestBodyEncoding: insertReplay.requestBodyEncoding ?? null,
+      responseStatus: insertReplay.responseStatus ?? null,
+      responseHeaders: insertReplay.responseHeaders ?? null,
+      responseBody: insertReplay.responseBody ?? null,
+      responseBodyEncoding: insertReplay.responseBodyEncoding ?? null,
+      durationMs: insertReplay.durationMs ?? null,
+      error: insertReplay.error ?? null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(replays).values(replay);
+    return replay;
+  }
+
+  async getReplays(requestId: string): Promise<Replay[]> {
+    return await db.select()
+      .from(replays)
+      .where(eq(replays.requestId, requestId))
+      .orderBy(desc(replays.createdAt));
+  }
+
+  async createSession(insertSession: Omit<InsertSession, 'createdAt'>): Promise<Session> {
+    const now = new Date();
+    const session: Session = {
+      id: insertSession.id,
+      userId: insertSession.userId,
+      refreshTokenId: insertSession.refreshTokenId,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: insertSession.expiresAt,
+      revokedAt: null,
+    };
+
+    await db.insert(sessions).values(session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getActiveSessions(userId: string, now: Date): Promise<Session[]> {
+    return await db.select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, now)))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async rotateSession(id: string, refreshTokenId: string, expiresAt: Date): Promise<void> {
+    await db.update(sessions)
+      .set({ refreshTokenId, expiresAt, lastUsedAt: new Date() })
+      .where(eq(sessions.id, id));
+  }
+
+  async revokeSession(id: string, userId: string): Promise<boolean> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+    return result.changes > 0;
+  }
+
+  async revokeOtherSessions(userId: string, keepSessionId: string | null): Promise<number> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (keepSessionId) conditions.push(ne(sessions.id, keepSessionId));
+
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions));
+    return result.changes;
+  }
+
+  async deleteExpiredSessions(userId: string, now: Date): Promise<number> {
+    const result = await db.delete(sessions)
+      .where(and(eq(sessions.userId, userId), lt(sessions.expiresAt, now)));
+    return result.changes;
+  }
+
+  async createEmailToken(insertToken: Omit<InsertEmailToken, 'createdAt'>): Promise<EmailToken> {
+    const token: EmailToken = {
+      id: insertToken.id,
+      userId: insertToken.userId,
+      purpose: insertToken.purpose,
+      email: insertToken.email,
+      expiresAt: insertToken.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(emailTokens).values(token);
+    return token;
+  }
+
+  async getEmailToken(id: string): Promise<EmailToken | undefined> {
+    const result = await db.select().from(emailTokens).where(eq(emailTokens.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Mark a token as used; false if it was already used, so each token works once
+  async useEmailToken(id: string): Promise<boolean> {
+    const result = await db.update(emailTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(emailTokens.id, id), isNull(emailTokens.usedAt)));
+    return result.changes > 0;
+  }
+
+  async createApiKey(insertApiKey: Omit<InsertApiKey, 'id' | 'createdAt'>): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      userId: insertApiKey.userId,
+      name: insertApiKey.name,
+      prefix: insertApiKey.prefix,
+      keyHash: insertApiKey.keyHash,
+      scopes: insertApiKey.scopes,
+      lastUsedAt: null,
+      expiresAt: insertApiKey.expiresAt ?? null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(apiKeys).values(apiKey);
+    return apiKey;
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return await db.select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const result = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+    return result[0];
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  async deleteApiKey(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(apiKeys).where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)));
+    return result.changes > 0;
+  }
+
+  // The creator becomes the owner, with a member row like everyone else
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    const workspace: Workspace = {
+      id: randomUUID(),
+      name,
+      ownerId,
+      createdAt: new Date(),
+    };
+
+    await db.insert(workspaces).values(workspace);
+    await this.addWorkspaceMember(workspace.id, ownerId, "owner");
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const result = await db.select().from(workspaces).where(eq(workspaces.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserWorkspaces(userId: string): Promise<WorkspaceMembership[]> {
+    const rows = await db.select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map((row) => ({ ...row.workspace, role: row.role as WorkspaceRole }));
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<Workspace | undefined> {
+    await db.update(workspaces).set({ name }).where(eq(workspaces.id, id));
+    return await this.getWorkspace(id);
+  }
+
+  // Endpoints go back to the owner's personal account instead of being deleted
+  async deleteWorkspace(id: string): Promise<void> {
+    await db.update(endpoints)
+      .set({ workspaceId: null, updatedAt: new Date() })
+      .where(eq(endpoints.workspaceId, id));
+    await db.delete(workspaceInvites).where(eq(workspaceInvites.workspaceId, id));
+    await db.delete(workspaceMembers).where(eq(workspaceMembers.workspaceId, id));
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const result = await db.select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetails[]> {
+    const rows = await db.select({
+      userId: workspaceMembers.userId,
+      email: users.email,
+      name: users.name,
+      role: workspaceMembers.role,
+      createdAt: workspaceMembers.createdAt,
+    })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(users.id, workspaceMembers.userId))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map((row) => ({ ...row, role: row.role as WorkspaceRole }));
+  }
+
+  // Existing members keep their role
+  async addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    await db.insert(workspaceMembers)
+      .values({ workspaceId, userId, role, createdAt: new Date() })
+      .onConflictDoNothing();
+  }
+
+  async setWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const result = await db.update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return result.changes > 0;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return result.changes > 0;
+  }
+
+  async createWorkspaceInvite(
+    insertInvite: Omit<InsertWorkspaceInvite, 'id' | 'acceptedAt' | 'createdAt'>
+  ): Promise<WorkspaceInvite> {
+    const invite: WorkspaceInvite = {
+      id: randomUUID(),
+      workspaceId: insertInvite.workspaceId,
+      email: insertInvite.email,
+      role: insertInvite.role,
+      invitedBy: insertInvite.invitedBy,
+      expiresAt: insertInvite.expiresAt,
+      acceptedAt: null,
+      createdAt: new Date(),
+    };
+
+    await db.insert(workspaceInvites).values(invite);
+    return invite;
+  }
+
+  async getWorkspaceInvite(id: string): Promise<WorkspaceInvite | undefined> {
+    const result = await db.select().from(workspaceInvites).where(eq(workspaceInvites.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getPendingWorkspaceInvites(workspaceId: string, now: Date): Promise<WorkspaceInvite[]> {
+    return await db.select()
+      .from(workspaceInvites)
+      .where(and(
+        eq(workspaceInvites.workspaceId, workspaceId),
+        isNull(workspaceInvites.acceptedAt),
+        gt(workspaceInvites.expiresAt, now)
+      ))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }
+
+  // Mark an invite as accepted; false if it was already accepted, so each invite works once
+  async acceptWorkspaceInvite(id: string): Promise<boolean> {
+    const result = await db.update(workspaceInvites)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(workspaceInvites.id, id), isNull(workspaceInvites.acceptedAt)));
+    return result.changes > 0;
+  }
+
+  async deleteWorkspaceInvite(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db.delete(workspaceInvites)
+      .where(and(eq(workspaceInvites.id, id), eq(workspaceInvites.workspaceId, workspaceId)));
+    return result.changes > 0;
+  }
 }
 
 export const storage = new DbStorage();
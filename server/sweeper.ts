@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Enforce endpoint expiry, request history limits and the tunnel retention window
+export async function sweepEndpoints(): Promise<void> {
+  const now = new Date();
+
+  try {
+    const deleted = await storage.deleteExpiredAnonymousEndpoints(now);
+    const deactivated = await storage.deactivateExpiredEndpoints(now);
+    const pruned = await storage.pruneRequests();
+    const undelivered = await storage.deleteExpiredTunnelDeliveries(now);
+
+    if (deleted || deactivated || pruned || undelivered) {
+      console.log(
+        `Endpoint sweep: ${deleted} expired anonymous endpoints deleted, ` +
+        `${deactivated} endpoints deactivated, ${pruned} requests pruned, ` +
+        `${undelivered} unacknowledged tunnel deliveries expired`
+      );
+    }
+  } catch (error) {
+    console.error("Endpoint sweep error:", error);
+  }
+}
+
+// Run the sweeper on startup and then periodically, for as long as the server runs
+export function startEndpointSweeper(): NodeJS.Timeout {
+  void sweepEndpoints();
+  return setInterval(sweepEndpoints, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,23 @@
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { generateSQLiteDrizzleJson, generateSQLiteMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+
+// Import this before anything that opens the database: server/db.ts reads DATABASE_URL once
+const directory = mkdtempSync(join(tmpdir(), "test-webhook-"));
+const path = join(directory, "test.db");
+process.env.DATABASE_URL = `file:${path}`;
+process.on("exit", () => rmSync(directory, { recursive: true, force: true }));
+
+// Create every table in the throwaway database, like `npm run db:push` does for dev.db
+export async function createTestSchema(): Promise<void> {
+  const statements = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(schema as Record<string, unknown>)
+  );
+  const sqlite = new Database(path);
+  sqlite.exec(statements.join(";\n"));
+  sqlite.close();
+}
@@ -0,0 +1,85 @@
+import { createTestSchema } from "./database";
+import express from "express";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "../routes";
+import { setMailer, type MailMessage } from "../mailer";
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface TestRequestOptions {
+  body?: unknown;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+export interface TestServer {
+  url: string;
+  // Mail the routes sent, newest last
+  mail: MailMessage[];
+  request(method: string, path: string, options?: TestRequestOptions): Promise<TestResponse>;
+  // Register an account and return its tokens
+  register(email: string, password?: string): Promise<{ userId: string; accessToken: string; refreshToken: string }>;
+  close(): Promise<void>;
+}
+
+const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+// The app from server/index.ts on a random port, without Vite or the static client
+export async function startTestServer(): Promise<TestServer> {
+  await createTestSchema();
+
+  const mail: MailMessage[] = [];
+  setMailer({ send: async (message) => void mail.push(message) });
+
+  const app = express();
+  const httpServer = createServer(app);
+  app.use("/webhook", express.raw({ type: () => true, limit: "10mb", verify: captureRawBody }));
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
+  await registerRoutes(httpServer, app);
+
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+  const request = async (method: string, path: string, options: TestRequestOptions = {}): Promise<TestResponse> => {
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    let body: string | undefined;
+    if (options.body !== undefined) {
+      body = typeof options.body === "string" ? options.body : JSON.stringify(options.body);
+      headers["Content-Type"] ??= "application/json";
+    }
+
+    const response = await fetch(url + path, { method, headers, body });
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Plain-text answers (webhook responses) stay as they are
+    }
+    return { status: response.status, headers: response.headers, body: parsed };
+  };
+
+  const register = async (email: string, password = "correct horse battery") => {
+    const response = await request("POST", "/api/auth/register", { body: { email, password } });
+    if (response.status !== 201) throw new Error(`Registering ${email} failed with ${response.status}`);
+    const { user, accessToken, refreshToken } = response.body;
+    return { userId: user.id, accessToken, refreshToken };
+  };
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      httpServer.closeAllConnections();
+      httpServer.close(() => resolve());
+    });
+
+  return { url, mail, request, register, close };
+}
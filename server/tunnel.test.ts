@@ -0,0 +1,124 @@
+import { startTestServer, type TestServer } from "./test/server";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "timers/promises";
+import { io, type Socket } from "socket.io-client";
+import { WS_EVENTS, type ForwardAttempt, type SubscribeAck, type TunnelRequestEvent, type TunnelResponseEvent, type TunnelsEvent } from "@shared/schema";
+
+// How a test tunnel client answers a request; null leaves it unanswered
+type Answer = (event: TunnelRequestEvent) => Omit<TunnelResponseEvent, "correlationId" | "targetUrl"> | null;
+
+describe("tunnel", () => {
+  let server: TestServer;
+  let token: string;
+  const sockets: Socket[] = [];
+
+  before(async () => {
+    server = await startTestServer();
+    ({ accessToken: token } = await server.register("tunnel@example.com"));
+  });
+
+  after(async () => {
+    sockets.forEach((socket) => socket.disconnect());
+    await server.close();
+  });
+
+  const createEndpoint = async (body: object = {}) =>
+    (await server.request("POST", "/api/webhooks", { token, body })).body as { id: string; uniqueSlug: string };
+
+  // Register a tunnel client that answers every request it gets, after an optional delay
+  const connectTunnel = async (endpointId: string, name: string, answer: Answer, delayMs = 0) => {
+    const socket = io(server.url, { auth: { token }, transports: ["websocket"], reconnection: false });
+    sockets.push(socket);
+    const received: TunnelRequestEvent[] = [];
+    socket.on(WS_EVENTS.TUNNEL_REQUEST, async (event: TunnelRequestEvent) => {
+      received.push(event);
+      const reply = answer(event);
+      if (!reply) return;
+      await delay(delayMs);
+      socket.emit(WS_EVENTS.TUNNEL_RESPONSE, { correlationId: event.correlationId, targetUrl: `http://localhost/${name}`, ...reply });
+    });
+    const ack: SubscribeAck = await socket.emitWithAck(WS_EVENTS.REGISTER_TUNNEL, { endpointId, name });
+    assert.equal(ack.ok, true);
+    return { socket, received };
+  };
+
+  const forwards = async (endpointId: string): Promise<ForwardAttempt[]> => {
+    const { items } = (await server.request("GET", `/api/webhooks/${endpointId}/requests`, { token })).body;
+    return (await server.request("GET", `/api/requests/${items[0].id}/forwards`, { token })).body;
+  };
+
+  test("answers with the first reply and records every client's reply", async () => {
+    const endpoint = await createEndpoint();
+    const fast = await connectTunnel(endpoint.id, "fast", () => ({ status: 201, body: "fast" }));
+    const slow = await connectTunnel(endpoint.id, "slow", () => ({ status: 500, body: "slow" }), 200);
+
+    const delivery = await server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: { event: "ping" } });
+    assert.equal(delivery.status, 201);
+    assert.equal(delivery.body, "fast");
+    assert.equal(fast.received[0].correlationId, slow.received[0].correlationId);
+
+    await delay(500);
+    const attempts = await forwards(endpoint.id);
+    assert.deepEqual(attempts.map((attempt) => attempt.targetUrl).sort(), ["http://localhost/fast", "http://localhost/slow"]);
+    assert.ok(attempts.every((attempt) => attempt.mode === "tunnel"));
+    assert.deepEqual(attempts.map((attempt) => attempt.responseStatus).sort(), [201, 500]);
+  });
+
+  test("counts a handled request for every client that replied", async () => {
+    const endpoint = await createEndpoint();
+    await connectTunnel(endpoint.id, "first", () => ({ status: 200 }));
+    await connectTunnel(endpoint.id, "second", () => ({ status: 200 }), 100);
+    await server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: {} });
+    await delay(300);
+
+    const dashboard = io(server.url, { auth: { token }, transports: ["websocket"], reconnection: false });
+    sockets.push(dashboard);
+    const tunnels = new Promise<TunnelsEvent>((resolve) => dashboard.once(WS_EVENTS.TUNNELS, resolve));
+    await dashboard.emitWithAck(WS_EVENTS.JOIN_DASHBOARD, { endpointId: endpoint.id });
+    assert.deepEqual((await tunnels).tunnels.map(({ name, handled }) => ({ name, handled })), [
+      { name: "first", handled: 1 },
+      { name: "second", handled: 1 },
+    ]);
+  });
+
+  test("ignores replies from clients that did not get the request", async () => {
+    const endpoint = await createEndpoint({ tunnelRouting: "round_robin" });
+    const other = await createEndpoint();
+    let correlationId = "";
+    await connectTunnel(endpoint.id, "local", (event) => {
+      correlationId = event.correlationId;
+      return { status: 200, body: "local" };
+    }, 100);
+    const intruder = await connectTunnel(other.id, "intruder", () => null);
+
+    const pending = server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: {} });
+    await delay(50);
+    intruder.socket.emit(WS_EVENTS.TUNNEL_RESPONSE, { correlationId, targetUrl: "http://evil/", status: 418 });
+    assert.equal((await pending).body, "local");
+
+    await delay(200);
+    assert.deepEqual((await forwards(endpoint.id)).map((attempt) => attempt.targetUrl), ["http://localhost/local"]);
+  });
+
+  test("falls back to the configured response on timeout and redelivers later", { timeout: 30_000 }, async () => {
+    const endpoint = await createEndpoint({ responseStatus: 202, responseBody: "queued" });
+    const silent = await connectTunnel(endpoint.id, "silent", () => null);
+
+    const delivery = await server.request("POST", `/webhook/${endpoint.uniqueSlug}`, { body: {} });
+    assert.equal(delivery.status, 202);
+    assert.equal(delivery.body, "queued");
+    assert.equal(silent.received.length, 1);
+    const [timedOut] = await forwards(endpoint.id);
+    assert.match(timedOut.error ?? "", /did not respond/);
+
+    // The delivery stays queued until a tunnel acknowledges it
+    silent.socket.disconnect();
+    const next = await connectTunnel(endpoint.id, "next", () => ({ status: 200, body: "late" }));
+    await delay(300);
+    assert.equal(next.received.length, 1);
+    assert.equal(next.received[0].redelivered, true);
+    assert.equal(next.received[0].correlationId, silent.received[0].correlationId);
+    assert.equal((await forwards(endpoint.id)).length, 2);
+  });
+});
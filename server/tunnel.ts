@@ -0,0 +1,315 @@
+import type { Server as SocketIOServer, Socket } from "socket.io";
+import { z } from "zod";
+import {
+  WS_EVENTS,
+  type Endpoint,
+  type Request,
+  type TunnelClientInfo,
+  type TunnelRequestEvent,
+  type TunnelResponseEvent,
+  type TunnelsEvent,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { findTunnelRule, parseTunnelRules } from "./tunnelRules";
+import { encodeResponseBody, relayableHeaders, type ForwardResult, type UpstreamResponse } from "./forwarding";
+
+const TUNNEL_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_RETENTION_MINUTES = 24 * 60;
+
+// How long deliveries wait for a tunnel to acknowledge them, overridable with TUNNEL_RETENTION_MINUTES
+function loadRetentionMs(): number {
+  const name = "TUNNEL_RETENTION_MINUTES";
+  const value = Number(process.env[name]);
+  if (process.env[name] && Number.isInteger(value) && value > 0) {
+    return value * 60 * 1000;
+  } else if (process.env[name]) {
+    console.warn(`Ignoring ${name}: expected a positive integer`);
+  }
+  return DEFAULT_RETENTION_MINUTES * 60 * 1000;
+}
+
+export const TUNNEL_RETENTION_MS = loadRetentionMs();
+
+const tunnelResponseSchema = z.object({
+  correlationId: z.string(),
+  targetUrl: z.string().max(2048),
+  status: z.number().int().min(100).max(599).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional(),
+  bodyEncoding: z.enum(["utf8", "base64"]).optional(),
+  error: z.string().max(1000).optional(),
+});
+
+// A request sent to tunnel clients, kept for TUNNEL_TIMEOUT_MS so every client's reply counts
+interface InFlightDelivery {
+  endpointId: string;
+  requestId: string;
+  startTime: number;
+  awaiting: Set<string>; // Sockets the request went to that have not replied yet
+  resolve: ((reply: TunnelResponseEvent | null) => void) | null; // Until the first reply or the timeout
+}
+
+interface TunnelClient {
+  socket: Socket;
+  name: string;
+  connectedAt: Date;
+  handled: number;
+}
+
+// Where routing sends a request: the tunnel name a rule picked (null for any tunnel), and
+// the connected clients to send it to now, empty when none of them is connected
+export interface TunnelRoute {
+  tunnel: string | null;
+  clients: TunnelClient[];
+}
+
+// Deliveries sent within the last TUNNEL_TIMEOUT_MS, by correlation id
+const inFlight = new Map<string, InFlightDelivery>();
+
+// Connected tunnel clients by endpoint id, in the order they registered
+const tunnelClients = new Map<string, TunnelClient[]>();
+
+// Next client index for round-robin routing, by endpoint id or endpoint id and tunnel name
+const nextClient = new Map<string, number>();
+
+// Endpoints whose tunnel this socket serves
+function tunnelEndpointIds(socket: Socket): string[] {
+  return Array.from(socket.rooms)
+    .filter((room) => room.startsWith("tunnel:"))
+    .map((room) => room.slice("tunnel:".length));
+}
+
+function takeTurn(key: string, clients: TunnelClient[]): TunnelClient[] {
+  if (clients.length === 0) return [];
+  const index = (nextClient.get(key) ?? 0) % clients.length;
+  nextClient.set(key, index + 1);
+  return [clients[index]];
+}
+
+/**
+ * Pick the tunnel clients for a request with the endpoint's routing strategy. Returns
+ * null when routing rules leave the request to the configured response.
+ */
+export function routeTunnel(endpoint: Endpoint, request: Request): TunnelRoute | null {
+  const clients = tunnelClients.get(endpoint.id) ?? [];
+
+  switch (endpoint.tunnelRouting) {
+    case "round_robin":
+      return { tunnel: null, clients: takeTurn(endpoint.id, clients) };
+    case "rules": {
+      const rule = findTunnelRule(parseTunnelRules(endpoint.tunnelRules), request);
+      if (!rule) return null;
+      // Clients sharing a name take turns
+      const named = clients.filter((client) => client.name === rule.tunnel);
+      return { tunnel: rule.tunnel, clients: takeTurn(`${endpoint.id}:${rule.tunnel}`, named) };
+    }
+    default:
+      return { tunnel: null, clients };
+  }
+}
+
+export function getTunnelClients(endpointId: string): TunnelClientInfo[] {
+  return (tunnelClients.get(endpointId) ?? []).map((client) => ({
+    id: client.socket.id,
+    name: client.name,
+    connectedAt: client.connectedAt.toISOString(),
+    handled: client.handled,
+  }));
+}
+
+function notifyDashboards(io: SocketIOServer, endpointId: string): void {
+  const event: TunnelsEvent = { endpointId, tunnels: getTunnelClients(endpointId) };
+  io.to(`dashboard:${endpointId}`).emit(WS_EVENTS.TUNNELS, event);
+}
+
+// A tunnel was connected within the retention window, so it is likely to come back for what it missed
+export function hadRecentTunnel(endpoint: Endpoint): boolean {
+  return !!endpoint.lastTunnelAt && Date.now() - endpoint.lastTunnelAt.getTime() < TUNNEL_RETENTION_MS;
+}
+
+// Keep a delivery for the endpoint's tunnel while none that routing allows is connected
+export async function queueTunnelDelivery(endpoint: Endpoint, request: Request, route: TunnelRoute): Promise<void> {
+  await storage.createTunnelDelivery({
+    requestId: request.id,
+    endpointId: endpoint.id,
+    tunnelName: route.tunnel,
+    expiresAt: new Date(Date.now() + TUNNEL_RETENTION_MS),
+  });
+}
+
+/**
+ * Called once a socket has joined an endpoint's tunnel room. The client is listed under
+ * its name, and receives every unacknowledged delivery routed to that name or to any
+ * tunnel that is still inside the retention window, oldest first. Deliveries already
+ * in flight to another tunnel are left to it.
+ */
+export async function openTunnel(io: SocketIOServer, socket: Socket, endpointId: string, name: string): Promise<void> {
+  const clients = (tunnelClients.get(endpointId) ?? []).filter((client) => client.socket.id !== socket.id);
+  clients.push({ socket, name, connectedAt: new Date(), handled: 0 });
+  tunnelClients.set(endpointId, clients);
+  notifyDashboards(io, endpointId);
+
+  const now = new Date();
+  await storage.setEndpointTunnelSeen(endpointId, now);
+
+  const backlog = await storage.getPendingTunnelDeliveries(endpointId, name, now);
+  for (const { delivery, request } of backlog) {
+    if (inFlight.has(delivery.id)) continue;
+    await storage.recordTunnelDeliveryAttempt(delivery.id, new Date());
+    const event: TunnelRequestEvent = { ...request, correlationId: delivery.id, redelivered: true };
+    socket.emit(WS_EVENTS.TUNNEL_REQUEST, event);
+  }
+}
+
+// Start the retention window again when a tunnel goes away, so deliveries queue for its return
+export async function closeTunnels(io: SocketIOServer, socket: Socket): Promise<void> {
+  const now = new Date();
+  for (const endpointId of tunnelEndpointIds(socket)) {
+    const remaining = (tunnelClients.get(endpointId) ?? []).filter((client) => client.socket.id !== socket.id);
+    if (remaining.length > 0) {
+      tunnelClients.set(endpointId, remaining);
+    } else {
+      tunnelClients.delete(endpointId);
+    }
+    notifyDashboards(io, endpointId);
+    await storage.setEndpointTunnelSeen(endpointId, now);
+  }
+}
+
+/**
+ * Send a captured request to the tunnel clients routing picked and wait for the CLI to
+ * reply with the local service's response. The first reply answers the provider and is
+ * recorded like a forward, with mode "tunnel"; when several clients get the request,
+ * later replies within the timeout are recorded as attempts of their own. Without a
+ * reply the delivery stays queued, and is sent again when a tunnel next registers.
+ */
+export async function tunnelRequest(
+  io: SocketIOServer,
+  endpoint: Endpoint,
+  request: Request,
+  route: TunnelRoute
+): Promise<ForwardResult> {
+  const startTime = Date.now();
+  const delivery = await storage.createTunnelDelivery({
+    requestId: request.id,
+    endpointId: endpoint.id,
+    tunnelName: route.tunnel,
+    expiresAt: new Date(startTime + TUNNEL_RETENTION_MS),
+  });
+  const correlationId = delivery.id;
+  await storage.recordTunnelDeliveryAttempt(delivery.id, new Date(startTime));
+
+  const reply = await new Promise<TunnelResponseEvent | null>((resolve) => {
+    const socketIds = route.clients.map((client) => client.socket.id);
+    const flight: InFlightDelivery = {
+      endpointId: endpoint.id,
+      requestId: request.id,
+      startTime,
+      awaiting: new Set(socketIds),
+      resolve,
+    };
+    inFlight.set(correlationId, flight);
+
+    // Replies after this are handled like replies to backlog deliveries
+    setTimeout(() => {
+      inFlight.delete(correlationId);
+      flight.resolve?.(null);
+    }, TUNNEL_TIMEOUT_MS);
+
+    const event: TunnelRequestEvent = { ...request, correlationId, redelivered: false };
+    io.to(socketIds).emit(WS_EVENTS.TUNNEL_REQUEST, event);
+  });
+
+  return await recordTunnelAttempt(endpoint.id, request.id, reply, startTime);
+}
+
+// Record a tunnel round trip like a forward; a null reply means the tunnel timed out
+async function recordTunnelAttempt(
+  endpointId: string,
+  requestId: string,
+  reply: TunnelResponseEvent | null,
+  startTime: number
+): Promise<ForwardResult> {
+  let response: UpstreamResponse | null = null;
+  let error: string | null = null;
+  if (!reply) {
+    error = `Tunnel did not respond within ${TUNNEL_TIMEOUT_MS / 1000}s; the request stays queued for redelivery`;
+  } else if (reply.error || !reply.status) {
+    error = reply.error || "Tunnel reply had no status";
+  } else {
+    const headers = reply.headers || {};
+    response = {
+      status: reply.status,
+      headers,
+      relayHeaders: relayableHeaders(headers),
+      body: Buffer.from(reply.body || "", reply.bodyEncoding === "base64" ? "base64" : "utf8"),
+    };
+  }
+
+  const attempt = await storage.createForwardAttempt({
+    requestId,
+    endpointId,
+    targetUrl: reply?.targetUrl || "tunnel",
+    mode: "tunnel",
+    responseStatus: response?.status ?? null,
+    responseHeaders: response ? JSON.stringify(response.headers) : null,
+    ...(response ? encodeResponseBody(response.body) : { responseBody: null, responseBodyEncoding: null }),
+    durationMs: Date.now() - startTime,
+    error,
+  });
+
+  return { attempt, response };
+}
+
+/**
+ * Acknowledge a delivery with a CLI's reply. Only sockets serving the endpoint's tunnel may
+ * answer. The first reply to a request the ingestion route is still waiting for is returned
+ * to the provider; other clients' replies to it, replies to backlog deliveries and replies
+ * arriving after the timeout are only recorded.
+ */
+export async function handleTunnelResponse(io: SocketIOServer, socket: Socket, payload: unknown): Promise<void> {
+  const parsed = tunnelResponseSchema.safeParse(payload);
+  if (!parsed.success) return;
+
+  const endpointIds = tunnelEndpointIds(socket);
+  if (endpointIds.length === 0) return;
+
+  const reply = parsed.data;
+  const flight = inFlight.get(reply.correlationId);
+  if (flight && endpointIds.includes(flight.endpointId)) {
+    // Not sent to this socket, or it already replied
+    if (!flight.awaiting.delete(socket.id)) return;
+    // Every client that handled the request counts it, not only the fastest
+    creditClient(io, flight.endpointId, socket);
+
+    if (flight.resolve) {
+      const resolve = flight.resolve;
+      flight.resolve = null;
+      await storage.acknowledgeTunnelDelivery(reply.correlationId, endpointIds);
+      resolve(reply);
+      return;
+    }
+
+    const { attempt } = await recordTunnelAttempt(flight.endpointId, flight.requestId, reply, flight.startTime);
+    io.to(`dashboard:${flight.endpointId}`).emit(WS_EVENTS.FORWARD_RESULT, attempt);
+    return;
+  }
+
+  // Already acknowledged by another tunnel, expired, or never ours
+  const delivery = await storage.acknowledgeTunnelDelivery(reply.correlationId, endpointIds);
+  if (!delivery) return;
+
+  creditClient(io, delivery.endpointId, socket);
+  const sentAt = delivery.lastAttemptAt?.getTime() ?? Date.now();
+  const { attempt } = await recordTunnelAttempt(delivery.endpointId, delivery.requestId, reply, sentAt);
+  io.to(`dashboard:${delivery.endpointId}`).emit(WS_EVENTS.FORWARD_RESULT, attempt);
+}
+
+// Count a handled request for the client on its endpoint's tunnel list
+function creditClient(io: SocketIOServer, endpointId: string, socket: Socket): void {
+  const client = tunnelClients.get(endpointId)?.find((entry) => entry.socket.id === socket.id);
+  if (client) {
+    client.handled += 1;
+    notifyDashboards(io, endpointId);
+  }
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { tunnelRuleSchema, type Request, type TunnelRule } from "@shared/schema";
+
+const storedRulesSchema = z.array(tunnelRuleSchema);
+
+// Rules are validated on the way in; anything unreadable routes nothing rather than everything
+export function parseTunnelRules(json: string | null): TunnelRule[] {
+  if (!json) return [];
+  try {
+    const parsed = storedRulesSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// "/events/*" matches "/events/invoice.paid"; everything other than * is literal
+function pathPattern(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+function headerValue(request: Request, name: string): string | undefined {
+  const headers = JSON.parse(request.headers) as Record<string, string | string[]>;
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+export function matchesTunnelRule(rule: TunnelRule, request: Request): boolean {
+  if (rule.path && !pathPattern(rule.path).test(request.subPath || "/")) {
+    return false;
+  }
+
+  if (rule.header) {
+    const value = headerValue(request, rule.header);
+    if (value === undefined) return false;
+    if (rule.headerValue !== undefined && value !== rule.headerValue) return false;
+  }
+
+  if (rule.bodyContains) {
+    const body = request.body ?? (request.rawBodyEncoding === "base64" ? null : request.rawBody);
+    if (!body?.includes(rule.bodyContains)) return false;
+  }
+
+  return true;
+}
+
+// First matching rule wins, like a routing table
+export function findTunnelRule(rules: TunnelRule[], request: Request): TunnelRule | undefined {
+  return rules.find((rule) => matchesTunnelRule(rule, request));
+}
@@ -0,0 +1,95 @@
+import { startTestServer, type TestServer } from "./test/server";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { WorkspaceRole } from "@shared/schema";
+
+describe("workspace roles", () => {
+  let server: TestServer;
+  let workspaceId: string;
+  let endpointId: string;
+  const tokens = {} as Record<WorkspaceRole | "outsider", string>;
+  const userIds = {} as Record<WorkspaceRole, string>;
+
+  // Invite an account with the given role and accept from its side
+  const join = async (role: Exclude<WorkspaceRole, "owner">) => {
+    const email = `${role}@example.com`;
+    const invite = await server.request("POST", `/api/workspaces/${workspaceId}/invites`, { token: tokens.owner, body: { email, role } });
+    assert.equal(invite.status, 201);
+    const inviteToken = new URL(server.mail[server.mail.length - 1].text.match(/\S+\/invite\?\S+/)![0]).searchParams.get("token");
+
+    const account = await server.register(email);
+    const accepted = await server.request("POST", "/api/invites/accept", { token: account.accessToken, body: { token: inviteToken } });
+    assert.equal(accepted.body.role, role);
+    tokens[role] = account.accessToken;
+    userIds[role] = account.userId;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    const owner = await server.register("owner@example.com");
+    tokens.owner = owner.accessToken;
+    userIds.owner = owner.userId;
+    tokens.outsider = (await server.register("outsider@example.com")).accessToken;
+
+    workspaceId = (await server.request("POST", "/api/workspaces", { token: tokens.owner, body: { name: "Team" } })).body.id;
+    await join("admin");
+    await join("member");
+    await join("viewer");
+  });
+
+  after(() => server.close());
+
+  test("members and above create endpoints in the workspace, viewers cannot", async () => {
+    const created = await server.request("POST", "/api/webhooks", { token: tokens.member, body: { workspaceId } });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.workspaceId, workspaceId);
+    assert.equal(created.body.userId, userIds.owner);
+    endpointId = created.body.id;
+
+    assert.equal((await server.request("POST", "/api/webhooks", { token: tokens.viewer, body: { workspaceId } })).status, 403);
+    assert.equal((await server.request("POST", "/api/webhooks", { token: tokens.outsider, body: { workspaceId } })).status, 403);
+  });
+
+  test("viewers read, members edit, admins delete, outsiders get nothing", async () => {
+    const read = (role: keyof typeof tokens) => server.request("GET", `/api/webhooks/${endpointId}`, { token: tokens[role] });
+    const edit = (role: keyof typeof tokens) =>
+      server.request("PATCH", `/api/endpoints/${endpointId}`, { token: tokens[role], body: { name: role } });
+
+    assert.equal((await read("viewer")).status, 200);
+    assert.equal((await read("outsider")).status, 403);
+    assert.equal((await edit("viewer")).status, 403);
+    assert.equal((await edit("member")).status, 200);
+
+    assert.equal((await server.request("DELETE", `/api/endpoints/${endpointId}`, { token: tokens.member })).status, 403);
+    assert.equal((await server.request("DELETE", `/api/endpoints/${endpointId}`, { token: tokens.admin })).status, 200);
+  });
+
+  test("only admins invite, and only the owner invites or promotes admins", async () => {
+    const invite = (role: WorkspaceRole, invitedRole: WorkspaceRole) =>
+      server.request("POST", `/api/workspaces/${workspaceId}/invites`, {
+        token: tokens[role],
+        body: { email: `${role}-invites-${invitedRole}@example.com`, role: invitedRole },
+      });
+
+    assert.equal((await invite("member", "viewer")).status, 403);
+    assert.equal((await invite("admin", "member")).status, 201);
+    assert.equal((await invite("admin", "admin")).status, 403);
+
+    const promote = (role: WorkspaceRole) =>
+      server.request("PATCH", `/api/workspaces/${workspaceId}/members/${userIds.viewer}`, { token: tokens[role], body: { role: "admin" } });
+    assert.equal((await promote("admin")).status, 403);
+    assert.equal((await promote("owner")).status, 200);
+  });
+
+  test("admins cannot remove other admins or the owner, and the owner cannot leave", async () => {
+    const remove = (role: WorkspaceRole, target: WorkspaceRole) =>
+      server.request("DELETE", `/api/workspaces/${workspaceId}/members/${userIds[target]}`, { token: tokens[role] });
+
+    // The viewer was promoted to admin above
+    assert.equal((await remove("admin", "viewer")).status, 403);
+    assert.equal((await remove("admin", "owner")).status, 403);
+    assert.equal((await remove("owner", "owner")).status, 403);
+    assert.equal((await remove("admin", "member")).status, 200);
+    assert.equal((await server.request("GET", `/api/workspaces/${workspaceId}`, { token: tokens.member })).status, 404);
+  });
+});
@@ -0,0 +1,321 @@
+import type { Express } from "express";
+import type { User, Workspace, WorkspaceInvite, WorkspaceRole } from "@shared/schema";
+import { api } from "@shared/routes";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+import {
+  authenticate,
+  requireSession,
+  issueWorkspaceInvite,
+  resolveInviteToken,
+  InviteError,
+  type AuthRequest
+} from "./auth";
+import { appUrl } from "./authRoutes";
+import { canManageMember, getWorkspaceRole, hasRole } from "./permissions";
+import { z } from "zod";
+
+function toPublicWorkspace(workspace: Workspace, role: WorkspaceRole) {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    ownerId: workspace.ownerId,
+    role,
+    createdAt: workspace.createdAt,
+  };
+}
+
+function toPublicInvite(invite: WorkspaceInvite) {
+  return {
+    id: invite.id,
+    email: invite.email,
+    role: invite.role as WorkspaceRole,
+    expiresAt: invite.expiresAt,
+    createdAt: invite.createdAt,
+  };
+}
+
+async function sendInviteEmail(
+  workspace: Workspace,
+  invite: WorkspaceInvite,
+  token: string,
+  inviter: User
+): Promise<void> {
+  await getMailer().send({
+    to: invite.email,
+    subject: `Join ${workspace.name} on test-webhook.com`,
+    text: [
+      `${inviter.name || inviter.email} invited you to the ${workspace.name} workspace as ${invite.role === "admin" ? "an" : "a"} ${invite.role}.`,
+      "Sign in or create an account with this email address, then accept here:",
+      "",
+      appUrl("/invite", token),
+      "",
+      "The invite expires in 7 days.",
+    ].join("\n"),
+  });
+}
+
+export function registerWorkspaceRoutes(app: Express): void {
+  // List the workspaces the signed-in user belongs to
+  app.get(api.workspaces.list.path, authenticate, async (req: AuthRequest, res) => {
+    try {
+      const memberships = await storage.getUserWorkspaces(req.user!.id);
+      res.json(memberships.map((membership) => toPublicWorkspace(membership, membership.role)));
+    } catch (error) {
+      console.error("Error listing workspaces:", error);
+      res.status(500).json({ message: "Failed to list workspaces" });
+    }
+  });
+
+  // Create a workspace owned by the signed-in user
+  app.post(api.workspaces.create.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const input = api.workspaces.create.input.parse(req.body);
+      const workspace = await storage.createWorkspace(input.name, req.user!.id);
+      res.status(201).json(toPublicWorkspace(workspace, "owner"));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  // Workspace details with its members; pending invites are only shown to admins
+  app.get(api.workspaces.get.path, authenticate, async (req: AuthRequest, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.params.id);
+      const role = workspace ? await getWorkspaceRole(workspace.id, req.user) : null;
+      if (!workspace || !role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      const invites = hasRole(role, "admin")
+        ? await storage.getPendingWorkspaceInvites(workspace.id, new Date())
+        : [];
+
+      res.json({
+        ...toPublicWorkspace(workspace, role),
+        members: await storage.getWorkspaceMembers(workspace.id),
+        invites: invites.map(toPublicInvite),
+      });
+    } catch (error) {
+      console.error("Error fetching workspace:", error);
+      res.status(500).json({ message: "Failed to fetch workspace" });
+    }
+  });
+
+  // Rename a workspace (admins and the owner)
+  app.patch(api.workspaces.update.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const input = api.workspaces.update.input.parse(req.body);
+      const workspace = await storage.getWorkspace(req.params.id);
+      const role = workspace ? await getWorkspaceRole(workspace.id, req.user) : null;
+      if (!workspace || !role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!hasRole(role, "admin")) {
+        return res.status(403).json({ message: "Only admins can rename the workspace" });
+      }
+
+      const updated = await storage.renameWorkspace(workspace.id, input.name);
+      res.json(toPublicWorkspace(updated!, role));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating workspace:", error);
+      res.status(500).json({ message: "Failed to update workspace" });
+    }
+  });
+
+  // Delete a workspace (owner only); its endpoints move to the owner's personal account
+  app.delete(api.workspaces.delete.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.params.id);
+      const role = workspace ? await getWorkspaceRole(workspace.id, req.user) : null;
+      if (!workspace || !role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only the owner can delete the workspace" });
+      }
+
+      await storage.deleteWorkspace(workspace.id);
+      res.json({ message: "Workspace deleted" });
+    } catch (error) {
+      console.error("Error deleting workspace:", error);
+      res.status(500).json({ message: "Failed to delete workspace" });
+    }
+  });
+
+  // Invite someone by email; only the owner can invite admins
+  app.post(api.workspaces.invite.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const input = api.workspaces.invite.input.parse(req.body);
+      const workspace = await storage.getWorkspace(req.params.id);
+      const role = workspace ? await getWorkspaceRole(workspace.id, req.user) : null;
+      if (!workspace || !role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!hasRole(role, "admin")) {
+        return res.status(403).json({ message: "Only admins can invite members" });
+      }
+      if (input.role === "admin" && role !== "owner") {
+        return res.status(403).json({ message: "Only the owner can invite admins" });
+      }
+
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      if (members.some((member) => member.email.toLowerCase() === input.email)) {
+        return res.status(409).json({ message: "Already a member of this workspace" });
+      }
+
+      const { invite, token } = await issueWorkspaceInvite(workspace.id, input.email, input.role, req.user!);
+      await sendInviteEmail(workspace, invite, token, req.user!);
+      res.status(201).json(toPublicInvite(invite));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error inviting member:", error);
+      res.status(500).json({ message: "Failed to invite member" });
+    }
+  });
+
+  // Revoke a pending invite
+  app.delete(api.workspaces.revokeInvite.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const role = await getWorkspaceRole(req.params.id, req.user);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!hasRole(role, "admin")) {
+        return res.status(403).json({ message: "Only admins can revoke invites" });
+      }
+
+      const deleted = await storage.deleteWorkspaceInvite(req.params.inviteId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      res.json({ message: "Invite revoked" });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  // Change a member's role
+  app.patch(api.workspaces.updateMember.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const input = api.workspaces.updateMember.input.parse(req.body);
+      const role = await getWorkspaceRole(req.params.id, req.user);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      const target = await storage.getWorkspaceMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!canManageMember(role, target.role as WorkspaceRole) || (input.role === "admin" && role !== "owner")) {
+        return res.status(403).json({ message: "You cannot change this member's role" });
+      }
+
+      await storage.setWorkspaceMemberRole(req.params.id, target.userId, input.role);
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      res.json(members.find((member) => member.userId === target.userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating member:", error);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  // Remove a member, or leave the workspace when removing yourself
+  app.delete(api.workspaces.removeMember.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const role = await getWorkspaceRole(req.params.id, req.user);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      const target = await storage.getWorkspaceMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const leaving = target.userId === req.user!.id;
+      if (leaving ? role === "owner" : !canManageMember(role, target.role as WorkspaceRole)) {
+        return res.status(403).json({
+          message: leaving ? "The owner cannot leave; delete the workspace instead" : "You cannot remove this member",
+        });
+      }
+
+      await storage.removeWorkspaceMember(req.params.id, target.userId);
+      res.json({ message: leaving ? "Left workspace" : "Member removed" });
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Show what an invite link offers before it is accepted
+  app.get(api.invites.preview.path, async (req, res) => {
+    try {
+      const invite = await resolveInviteToken(String(req.query.token || ""));
+      const workspace = await storage.getWorkspace(invite.workspaceId);
+      if (!workspace) {
+        throw new InviteError("This invite was revoked");
+      }
+
+      const inviter = await storage.getUser(invite.invitedBy);
+      res.json({
+        workspaceName: workspace.name,
+        role: invite.role,
+        email: invite.email,
+        invitedBy: inviter ? inviter.name || inviter.email : null,
+        expiresAt: invite.expiresAt,
+      });
+    } catch (error) {
+      if (error instanceof InviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing invite:", error);
+      res.status(500).json({ message: "Failed to load invite" });
+    }
+  });
+
+  // Join a workspace; the invite must have been sent to the signed-in account's email
+  app.post(api.invites.accept.path, authenticate, requireSession, async (req: AuthRequest, res) => {
+    try {
+      const { token } = api.invites.accept.input.parse(req.body);
+      const invite = await resolveInviteToken(token);
+      if (req.user!.email.toLowerCase() !== invite.email.toLowerCase()) {
+        return res.status(403).json({ message: `This invite was sent to ${invite.email}` });
+      }
+
+      const workspace = await storage.getWorkspace(invite.workspaceId);
+      if (!workspace || !(await storage.acceptWorkspaceInvite(invite.id))) {
+        throw new InviteError("This invite has expired or was already used");
+      }
+
+      // Someone who is already a member keeps their current role
+      await storage.addWorkspaceMember(workspace.id, req.user!.id, invite.role as WorkspaceRole);
+      const role = await getWorkspaceRole(workspace.id, req.user);
+      res.json(toPublicWorkspace(workspace, role!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof InviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+}
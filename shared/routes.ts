@@ -1,19 +1,395 @@
 import { z } from 'zod';
-import { insertWebhookSchema, webhooks, requests } from './schema';
+import { insertWebhookSchema, createEndpointSchema, updateEndpointSchema, updateEndpointResponseSchema, webhooks, requests, forwardAttempts, replays, API_KEY_SCOPES, WORKSPACE_ROLES } from './schema';
 
 export const errorSchemas = {
   notFound: z.object({ message: z.string() }),
   validation: z.object({ message: z.string() }),
+  unauthorized: z.object({ message: z.string() }),
+  forbidden: z.object({ message: z.string() }),
+  conflict: z.object({ message: z.string() }),
 };
 
+export const authUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  plan: z.string().nullable(),
+});
+
+export const authTokensSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+});
+
+export const authSessionSchema = authTokensSchema.extend({
+  user: authUserSchema,
+});
+
+// Login answer when the account has 2FA: finish with the challenge token at /api/auth/login/2fa
+export const twoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+});
+
+// Either a code from the authenticator app or one of the recovery codes
+const secondFactorFields = {
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+};
+
+const hasSecondFactor = (input: { code?: string; recoveryCode?: string }) => !!input.code || !!input.recoveryCode;
+const secondFactorRequired = { message: "An authentication code or recovery code is required", path: ["code"] };
+
+// The signed-in user's own view of their account
+export const profileSchema = authUserSchema.extend({
+  username: z.string().nullable(),
+  emailVerifiedAt: z.coerce.date().nullable(),
+  twoFactorEnabled: z.boolean(),
+  createdAt: z.coerce.date().nullable(),
+});
+
+// Request counts for the signed-in user; daily covers the last 30 UTC days, oldest first
+export const usageSchema = z.object({
+  plan: z.string(),
+  totalEndpoints: z.number(),
+  totalRequests: z.number(),
+  requestsThisMonth: z.number(),
+  requestsToday: z.number(),
+  rejectedThisMonth: z.number(), // Deliveries turned away with a 429
+  rejectedToday: z.number(),
+  limits: z.object({
+    endpoints: z.number(),
+    requestsPerMinute: z.number(),
+    requestsPerDay: z.number(),
+    apiRequestsPerHour: z.number(),
+  }),
+  daily: z.array(z.object({
+    date: z.string(),
+    requests: z.number(),
+    rejected: z.number(),
+  })),
+});
+
+// A signed-in device; current marks the session making the request
+export const sessionSchema = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.coerce.date().nullable(),
+  lastUsedAt: z.coerce.date().nullable(),
+  expiresAt: z.coerce.date(),
+  current: z.boolean(),
+});
+
+// An API key as returned to its owner; the hash never leaves the server
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  lastUsedAt: z.coerce.date().nullable(),
+  expiresAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date().nullable(),
+});
+
+// A workspace as seen by the signed-in member
+export const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  ownerId: z.string(),
+  role: z.enum(WORKSPACE_ROLES), // The caller's role
+  createdAt: z.coerce.date().nullable(),
+});
+
+export const workspaceMemberSchema = z.object({
+  userId: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  role: z.enum(WORKSPACE_ROLES),
+  createdAt: z.coerce.date().nullable(),
+});
+
+export const workspaceInviteSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.enum(WORKSPACE_ROLES),
+  expiresAt: z.coerce.date(),
+  createdAt: z.coerce.date().nullable(),
+});
+
+// Pending invites are only listed for admins and the owner
+export const workspaceDetailsSchema = workspaceSchema.extend({
+  members: z.array(workspaceMemberSchema),
+  invites: z.array(workspaceInviteSchema),
+});
+
+// What an invite link offers, shown before accepting
+export const invitePreviewSchema = z.object({
+  workspaceName: z.string(),
+  role: z.enum(WORKSPACE_ROLES),
+  email: z.string(),
+  invitedBy: z.string().nullable(),
+  expiresAt: z.coerce.date(),
+});
+
+// Ownership cannot be granted through an invite or a role change
+const assignableRole = z.enum(["admin", "member", "viewer"]);
+
 export const api = {
+  auth: {
+    register: {
+      method: 'POST' as const,
+      path: '/api/auth/register',
+      input: z.object({
+        email: z.string().email(),
+        password: z.string().min(8),
+        name: z.string().optional(),
+      }),
+      responses: {
+        201: authSessionSchema,
+        400: errorSchemas.validation,
+      },
+    },
+    login: {
+      method: 'POST' as const,
+      path: '/api/auth/login',
+      input: z.object({
+        email: z.string().email(),
+        password: z.string(),
+      }),
+      responses: {
+        200: z.union([authSessionSchema, twoFactorChallengeSchema]),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    loginTwoFactor: {
+      method: 'POST' as const,
+      path: '/api/auth/login/2fa',
+      input: z.object({
+        challengeToken: z.string(),
+        ...secondFactorFields,
+      }).refine(hasSecondFactor, secondFactorRequired),
+      responses: {
+        200: authSessionSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    refresh: {
+      method: 'POST' as const,
+      path: '/api/auth/refresh',
+      input: z.object({ refreshToken: z.string() }),
+      responses: {
+        200: authTokensSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    logout: {
+      method: 'POST' as const,
+      path: '/api/auth/logout',
+      input: z.object({ refreshToken: z.string().optional() }),
+      responses: {
+        200: z.object({ message: z.string() }),
+      },
+    },
+    sessions: {
+      method: 'GET' as const,
+      path: '/api/auth/sessions',
+      responses: {
+        200: z.array(sessionSchema),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    revokeSession: {
+      method: 'DELETE' as const,
+      path: '/api/auth/sessions/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    revokeOtherSessions: {
+      method: 'DELETE' as const,
+      path: '/api/auth/sessions',
+      responses: {
+        200: z.object({ message: z.string(), revoked: z.number() }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    forgotPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/password/forgot',
+      input: z.object({ email: z.string().email() }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    resetPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/password/reset',
+      input: z.object({
+        token: z.string(),
+        password: z.string().min(8),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    sendVerification: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email/send',
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    verifyEmail: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email',
+      input: z.object({ token: z.string() }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    twoFactor: {
+      method: 'GET' as const,
+      path: '/api/auth/2fa',
+      responses: {
+        200: z.object({
+          enabled: z.boolean(),
+          enabledAt: z.coerce.date().nullable(),
+          recoveryCodesRemaining: z.number(),
+        }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    twoFactorSetup: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/setup',
+      responses: {
+        200: z.object({ secret: z.string(), otpauthUrl: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    twoFactorEnable: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/enable',
+      input: z.object({ code: z.string() }),
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    twoFactorDisable: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/disable',
+      input: z.object({
+        password: z.string(),
+        ...secondFactorFields,
+      }).refine(hasSecondFactor, secondFactorRequired),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    regenerateRecoveryCodes: {
+      method: 'POST' as const,
+      path: '/api/auth/2fa/recovery-codes',
+      input: z.object({ code: z.string() }),
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    profile: {
+      method: 'GET' as const,
+      path: '/api/user/profile',
+      responses: {
+        200: profileSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    updateProfile: {
+      method: 'PATCH' as const,
+      path: '/api/user/profile',
+      input: z.object({
+        name: z.string().trim().max(100).nullable(),
+        username: z.string()
+          .trim()
+          .toLowerCase()
+          .regex(/^[a-z0-9_-]{3,32}$/, "Use 3-32 letters, numbers, dashes or underscores")
+          .nullable(),
+      }).partial().strict(),
+      responses: {
+        200: profileSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        409: errorSchemas.conflict,
+      },
+    },
+    changePassword: {
+      method: 'POST' as const,
+      path: '/api/user/password',
+      input: z.object({
+        currentPassword: z.string(),
+        newPassword: z.string().min(8),
+      }),
+      responses: {
+        200: z.object({ message: z.string(), revoked: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    usage: {
+      method: 'GET' as const,
+      path: '/api/user/usage',
+      responses: {
+        200: usageSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    exportAccount: {
+      method: 'GET' as const,
+      path: '/api/user/export',
+      responses: {
+        200: z.object({ exportedAt: z.string(), profile: profileSchema }).passthrough(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    deleteAccount: {
+      method: 'DELETE' as const,
+      path: '/api/user',
+      // Accounts with 2FA also need a code
+      input: z.object({
+        password: z.string(),
+        ...secondFactorFields,
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
   webhooks: {
     create: {
       method: 'POST' as const,
       path: '/api/webhooks',
-      input: z.object({}).optional(),
+      // workspaceId creates the endpoint in a workspace the caller is a member (or higher) of
+      input: createEndpointSchema.extend({ workspaceId: z.string().optional() }).optional(),
       responses: {
-        201: z.custom<typeof webhooks.$inferSelect>(),
+        // viewerToken is only returned for anonymous endpoints, to join their live room
+        201: z.custom<typeof webhooks.$inferSelect & { viewerToken?: string }>(),
+        400: errorSchemas.validation,
       },
     },
     get: {
@@ -24,11 +400,38 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    updateResponse: {
+      method: 'PATCH' as const,
+      path: '/api/webhooks/:id/response',
+      input: updateEndpointResponseSchema,
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
     listRequests: {
       method: 'GET' as const,
       path: '/api/webhooks/:id/requests',
+      // ?limit= (default 50, max 500), ?cursor= from a previous page, ?direction=older|newer
+      responses: {
+        200: z.object({
+          items: z.array(z.custom<typeof requests.$inferSelect>()),
+          nextCursor: z.string().nullable(),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    search: {
+      method: 'GET' as const,
+      path: '/api/webhooks/:id/search',
+      // ?q= takes the sidebar query language; method, status, type, header, ip, after, before
+      // and body are accepted as individual params too
       responses: {
         200: z.array(z.custom<typeof requests.$inferSelect>()),
+        400: errorSchemas.validation,
         404: errorSchemas.notFound,
       },
     },
@@ -36,8 +439,247 @@ export const api = {
     ingest: {
       method: 'ALL' as const,
       path: '/webhook/:id',
+      // Any sub-path (e.g. /webhook/:id/events/invoice.paid) is captured against the same endpoint
+      subPath: '/webhook/:id/*',
     }
   },
+  apiKeys: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/keys',
+      responses: {
+        200: z.array(apiKeySchema),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/keys',
+      input: z.object({
+        name: z.string().min(1).max(100),
+        scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+        expiresAt: z.coerce.date().nullable().optional(),
+      }),
+      responses: {
+        // The plain key is only ever returned here
+        201: z.object({ apiKey: apiKeySchema, key: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    revoke: {
+      method: 'DELETE' as const,
+      path: '/api/keys/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  endpoints: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/endpoints',
+      // Personal endpoints, or a workspace's endpoints with ?workspaceId=
+      responses: {
+        200: z.array(z.custom<typeof webhooks.$inferSelect>()),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    claim: {
+      method: 'POST' as const,
+      path: '/api/endpoints/:id/claim',
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/endpoints/:id',
+      input: updateEndpointSchema,
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/endpoints/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    move: {
+      method: 'POST' as const,
+      path: '/api/endpoints/:id/move',
+      // null moves the endpoint to the caller's personal account
+      input: z.object({ workspaceId: z.string().nullable() }),
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  workspaces: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/workspaces',
+      responses: {
+        200: z.array(workspaceSchema),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/workspaces',
+      input: z.object({ name: z.string().trim().min(1).max(100) }),
+      responses: {
+        201: workspaceSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/workspaces/:id',
+      responses: {
+        200: workspaceDetailsSchema,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/workspaces/:id',
+      input: z.object({ name: z.string().trim().min(1).max(100) }),
+      responses: {
+        200: workspaceSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/workspaces/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    invite: {
+      method: 'POST' as const,
+      path: '/api/workspaces/:id/invites',
+      input: z.object({
+        email: z.string().trim().toLowerCase().email(),
+        role: assignableRole,
+      }),
+      responses: {
+        201: workspaceInviteSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    revokeInvite: {
+      method: 'DELETE' as const,
+      path: '/api/workspaces/:id/invites/:inviteId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    updateMember: {
+      method: 'PATCH' as const,
+      path: '/api/workspaces/:id/members/:userId',
+      input: z.object({ role: assignableRole }),
+      responses: {
+        200: workspaceMemberSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Admins remove others; any member except the owner can remove themselves to leave
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/workspaces/:id/members/:userId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  invites: {
+    preview: {
+      method: 'GET' as const,
+      path: '/api/invites/preview',
+      // ?token= from the invite email
+      responses: {
+        200: invitePreviewSchema,
+        400: errorSchemas.validation,
+      },
+    },
+    accept: {
+      method: 'POST' as const,
+      path: '/api/invites/accept',
+      input: z.object({ token: z.string().min(1) }),
+      responses: {
+        200: workspaceSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  requests: {
+    replay: {
+      method: 'POST' as const,
+      path: '/api/requests/:id/replay',
+      input: z.object({
+        // Defaults to the endpoint's forwardUrl, with the request's sub-path and query string
+        targetUrl: z.string().url().optional(),
+        method: z.string().optional(),
+        // Header overrides; null removes a header from the original request
+        headers: z.record(z.string().nullable()).optional(),
+        body: z.string().optional(),
+      }),
+      responses: {
+        201: z.custom<typeof replays.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    listReplays: {
+      method: 'GET' as const,
+      path: '/api/requests/:id/replays',
+      responses: {
+        200: z.array(z.custom<typeof replays.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    listForwards: {
+      method: 'GET' as const,
+      path: '/api/requests/:id/forwards',
+      responses: {
+        200: z.array(z.custom<typeof forwardAttempts.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
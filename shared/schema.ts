@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -10,24 +10,39 @@ export const users = sqliteTable("users", {
   passwordHash: text("password_hash"),
   name: text("name"),
   plan: text("plan").default("free"),
+  emailVerifiedAt: integer("email_verified_at", { mode: "timestamp" }),
+  totpSecret: text("totp_secret"), // Base32 TOTP secret; set during enrollment, active once totpEnabledAt is set
+  totpEnabledAt: integer("totp_enabled_at", { mode: "timestamp" }),
+  totpLastUsedStep: integer("totp_last_used_step"), // Time step of the last accepted code, so a code works once
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
 });
 
 export const endpoints = sqliteTable("endpoints", {
   id: text("id").primaryKey(),
-  userId: text("user_id"),
+  userId: text("user_id"), // Account whose plan and usage apply; the workspace owner for workspace endpoints
+  workspaceId: text("workspace_id"), // Null for personal and anonymous endpoints
   uniqueSlug: text("unique_slug").notNull().unique(),
   name: text("name"),
   description: text("description"),
   customDomain: text("custom_domain"),
   expiresAt: integer("expires_at", { mode: "timestamp" }),
-  maxRequests: integer("max_requests").default(100),
+  maxRequests: integer("max_requests").default(100), // Stored history size; older requests are pruned
+  requestQuota: integer("request_quota"), // Optional lifetime cap on requestCount; deliveries past it get a 429
+  requestCount: integer("request_count").default(0), // Lifetime requests received; clearing history does not reset it
   responseStatus: integer("response_status").default(200),
   responseHeaders: text("response_headers"), // JSON as text
   responseBody: text("response_body"),
   forwardUrl: text("forward_url"),
+  forwardMode: text("forward_mode").default("async"), // "async" (fire-and-forget) or "proxy" (return upstream response)
   isActive: integer("is_active", { mode: "boolean" }).default(true),
+  archivedAt: integer("archived_at", { mode: "timestamp" }), // Archived endpoints reject traffic and are listed separately
+  lastRequestAt: integer("last_request_at", { mode: "timestamp" }),
+  rejectedCount: integer("rejected_count").default(0), // Deliveries turned away by rate limits or the quota
+  lastRejectedAt: integer("last_rejected_at", { mode: "timestamp" }),
+  lastTunnelAt: integer("last_tunnel_at", { mode: "timestamp" }), // Last time a tunnel registered or disconnected
+  tunnelRouting: text("tunnel_routing").default("broadcast"), // One of TUNNEL_ROUTING_STRATEGIES
+  tunnelRules: text("tunnel_rules"), // JSON array of TunnelRule, used by the "rules" strategy
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
 });
@@ -37,15 +52,136 @@ export const requests = sqliteTable("requests", {
   endpointId: text("endpoint_id").notNull(),
   method: text("method").notNull(),
   path: text("path"),
+  subPath: text("sub_path"), // Portion of the path after /webhook/:slug
   queryParams: text("query_params"), // JSON as text
   headers: text("headers").notNull(), // JSON as text
-  body: text("body"),
+  body: text("body"), // Parsed view of the payload
+  rawBody: text("raw_body"), // Untouched request bytes
+  rawBodyEncoding: text("raw_body_encoding"), // "utf8" or "base64"
   bodySize: integer("body_size"),
   contentType: text("content_type"),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
   timestamp: integer("timestamp", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
   processingTimeMs: integer("processing_time_ms"),
+  responseStatus: integer("response_status"), // Status returned to the caller
+});
+
+export const forwardAttempts = sqliteTable("forward_attempts", {
+  id: text("id").primaryKey(),
+  requestId: text("request_id").notNull(),
+  endpointId: text("endpoint_id").notNull(),
+  targetUrl: text("target_url").notNull(),
+  mode: text("mode").default("async"), // Endpoint forwardMode at the time of the attempt, or "tunnel" for CLI replies
+  responseStatus: integer("response_status"),
+  responseHeaders: text("response_headers"), // JSON as text
+  responseBody: text("response_body"),
+  responseBodyEncoding: text("response_body_encoding"), // "utf8" or "base64"
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Tunnel deliveries not yet acknowledged by a tunnel client; the id is the delivery's correlationId
+export const tunnelDeliveries = sqliteTable("tunnel_deliveries", {
+  id: text("id").primaryKey(),
+  requestId: text("request_id").notNull(),
+  endpointId: text("endpoint_id").notNull(),
+  tunnelName: text("tunnel_name"), // Tunnel picked by a routing rule; null when any tunnel may take it
+  attempts: integer("attempts").notNull().default(0), // Times sent to a tunnel client
+  lastAttemptAt: integer("last_attempt_at", { mode: "timestamp" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(), // End of the retention window
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const replays = sqliteTable("replays", {
+  id: text("id").primaryKey(),
+  requestId: text("request_id").notNull(), // Original captured request
+  endpointId: text("endpoint_id").notNull(),
+  targetUrl: text("target_url").notNull(),
+  method: text("method").notNull(),
+  requestHeaders: text("request_headers").notNull(), // JSON as text, after overrides
+  requestBody: text("request_body"),
+  requestBodyEncoding: text("request_body_encoding"), // "utf8" or "base64"
+  responseStatus: integer("response_status"),
+  responseHeaders: text("response_headers"), // JSON as text
+  responseBody: text("response_body"),
+  responseBodyEncoding: text("response_body_encoding"), // "utf8" or "base64"
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// One row per signed-in device; refresh tokens are only valid while they match refreshTokenId
+export const sessions = sqliteTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  refreshTokenId: text("refresh_token_id").notNull(), // jti of the only refresh token that may still be used
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+});
+
+// Single-use tokens sent by email; the signed token carries the row id as its jti
+export const emailTokens = sqliteTable("email_tokens", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  purpose: text("purpose").notNull(), // "password_reset" or "email_verification"
+  email: text("email").notNull(), // Address the token was sent to
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  usedAt: integer("used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const apiKeys = sqliteTable("api_keys", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // First characters of the key, shown so users can tell keys apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the full key; the key itself is never stored
+  scopes: text("scopes").notNull(), // JSON array of API_KEY_SCOPES
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// One-time codes that stand in for a TOTP code when the authenticator is lost
+export const recoveryCodes = sqliteTable("recovery_codes", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the normalized code
+  usedAt: integer("used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Password step of a 2FA sign-in; the row id is the challenge token's jti
+export const twoFactorChallenges = sqliteTable("two_factor_challenges", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  attempts: integer("attempts").notNull().default(0), // Codes tried so far, right or wrong
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  usedAt: integer("used_at", { mode: "timestamp" }), // Set when a code was accepted
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Requests received by a user's endpoints, one row per UTC hour; kept when requests are pruned
+export const usageHourly = sqliteTable("usage_hourly", {
+  userId: text("user_id").notNull(),
+  hour: integer("hour", { mode: "timestamp" }).notNull(), // Start of the hour
+  requestCount: integer("request_count").notNull().default(0),
+  rejectedCount: integer("rejected_count").notNull().default(0),
+}, (table) => [primaryKey({ columns: [table.userId, table.hour] })]);
+
+// Sliding-window rate limit counters, shared by every server process using the database
+export const rateLimits = sqliteTable("rate_limits", {
+  key: text("key").primaryKey(), // e.g. api:user:<id> or ingest:endpoint:<id>
+  windowStart: integer("window_start").notNull(), // Epoch ms, aligned to the window length
+  count: integer("count").notNull().default(0), // Hits in the current window
+  previousCount: integer("previous_count").notNull().default(0), // Hits in the window before it
+  expiresAt: integer("expires_at").notNull(), // Epoch ms after which both windows have slid out
 });
 
 export const workspaces = sqliteTable("workspaces", {
@@ -58,15 +194,114 @@ export const workspaces = sqliteTable("workspaces", {
 export const workspaceMembers = sqliteTable("workspace_members", {
   workspaceId: text("workspace_id").notNull(),
   userId: text("user_id").notNull(),
-  role: text("role").default("member"),
+  role: text("role").default("member"), // One of WORKSPACE_ROLES; the owner has a row too
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [primaryKey({ columns: [table.workspaceId, table.userId] })]);
+
+// Pending invitations by email; the signed invite token carries the row id as its jti
+export const workspaceInvites = sqliteTable("workspace_invites", {
+  id: text("id").primaryKey(),
+  workspaceId: text("workspace_id").notNull(),
+  email: text("email").notNull(), // Only the account with this address can accept
+  role: text("role").notNull(),
+  invitedBy: text("invited_by").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
 });
 
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users);
 export const insertEndpointSchema = createInsertSchema(endpoints);
 export const insertRequestSchema = createInsertSchema(requests);
+export const insertForwardAttemptSchema = createInsertSchema(forwardAttempts);
+export const insertTunnelDeliverySchema = createInsertSchema(tunnelDeliveries);
+export const insertReplaySchema = createInsertSchema(replays);
+export const insertSessionSchema = createInsertSchema(sessions);
+export const insertEmailTokenSchema = createInsertSchema(emailTokens);
+export const insertApiKeySchema = createInsertSchema(apiKeys);
+export const insertRecoveryCodeSchema = createInsertSchema(recoveryCodes);
+export const insertTwoFactorChallengeSchema = createInsertSchema(twoFactorChallenges);
+export const insertUsageHourlySchema = createInsertSchema(usageHourly);
+export const insertRateLimitSchema = createInsertSchema(rateLimits);
 export const insertWorkspaceSchema = createInsertSchema(workspaces);
 export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers);
+export const insertWorkspaceInviteSchema = createInsertSchema(workspaceInvites);
+
+/**
+ * How requests are shared between an endpoint's tunnel clients: every client gets each
+ * request, clients take turns, or routing rules pick a client by name.
+ */
+export const TUNNEL_ROUTING_STRATEGIES = ["broadcast", "round_robin", "rules"] as const;
+export type TunnelRoutingStrategy = typeof TUNNEL_ROUTING_STRATEGIES[number];
+
+// Requests matching every condition go to the tunnels registered as `tunnel`; a rule without conditions matches everything
+export const tunnelRuleSchema = z.object({
+  tunnel: z.string().trim().min(1).max(64),
+  path: z.string().max(512).optional(), // Sub-path pattern, where * matches any characters
+  header: z.string().max(256).optional(), // Header that must be present
+  headerValue: z.string().max(1024).optional(), // Exact value the header must have
+  bodyContains: z.string().max(1024).optional(),
+}).strict();
+export type TunnelRule = z.infer<typeof tunnelRuleSchema>;
+
+// Fields an owner may change through PATCH /api/endpoints/:id
+export const updateEndpointSchema = insertEndpointSchema
+  .pick({
+    name: true,
+    description: true,
+    forwardUrl: true,
+    maxRequests: true,
+    requestQuota: true,
+    isActive: true,
+    responseStatus: true,
+    responseBody: true,
+  })
+  .extend({
+    forwardUrl: z.string().url().nullable(),
+    forwardMode: z.enum(["async", "proxy"]),
+    expiresAt: z.coerce.date().nullable(),
+    archivedAt: z.coerce.date().nullable(),
+    maxRequests: z.number().int().positive().nullable(),
+    requestQuota: z.number().int().positive().nullable(),
+    responseStatus: z.number().int().min(100).max(599),
+    responseHeaders: z.record(z.string()).nullable(),
+    tunnelRouting: z.enum(TUNNEL_ROUTING_STRATEGIES),
+    tunnelRules: z.array(tunnelRuleSchema).max(50).nullable(),
+  })
+  .partial()
+  .strict();
+
+// Fields that may be set when creating an endpoint through POST /api/webhooks
+export const createEndpointSchema = updateEndpointSchema
+  .pick({
+    name: true,
+    description: true,
+    forwardUrl: true,
+    forwardMode: true,
+    responseStatus: true,
+    responseHeaders: true,
+    responseBody: true,
+    tunnelRouting: true,
+    tunnelRules: true,
+  })
+  .extend({
+    maxRequests: z.number().int().positive().optional(),
+    requestQuota: z.number().int().positive().optional(),
+  });
+
+// PATCH /api/webhooks/:id/response. The dashboard sends the status as a string and clears the
+// forward URL with ""
+export const updateEndpointResponseSchema = updateEndpointSchema
+  .pick({
+    responseBody: true,
+    forwardMode: true,
+  })
+  .extend({
+    responseStatus: z.coerce.number().int().min(100).max(599).optional(),
+    responseHeaders: z.record(z.string()).optional(),
+    forwardUrl: z.union([z.string().url(), z.literal("")]).nullable().optional(),
+  });
 
 // Type exports
 export type User = typeof users.$inferSelect;
@@ -74,16 +309,61 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Endpoint = typeof endpoints.$inferSelect;
 export type InsertEndpoint = z.infer<typeof insertEndpointSchema>;
+export type UpdateEndpoint = z.infer<typeof updateEndpointSchema>;
+export type CreateEndpoint = z.infer<typeof createEndpointSchema>;
+export type UpdateEndpointResponse = z.infer<typeof updateEndpointResponseSchema>;
 
 export type Request = typeof requests.$inferSelect;
 export type InsertRequest = z.infer<typeof insertRequestSchema>;
 
+export type ForwardAttempt = typeof forwardAttempts.$inferSelect;
+export type InsertForwardAttempt = z.infer<typeof insertForwardAttemptSchema>;
+
+export type TunnelDelivery = typeof tunnelDeliveries.$inferSelect;
+export type InsertTunnelDelivery = z.infer<typeof insertTunnelDeliverySchema>;
+
+export type Replay = typeof replays.$inferSelect;
+export type InsertReplay = z.infer<typeof insertReplaySchema>;
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+
+export type EmailToken = typeof emailTokens.$inferSelect;
+export type InsertEmailToken = z.infer<typeof insertEmailTokenSchema>;
+export type EmailTokenPurpose = "password_reset" | "email_verification";
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type InsertRecoveryCode = z.infer<typeof insertRecoveryCodeSchema>;
+
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+export type InsertTwoFactorChallenge = z.infer<typeof insertTwoFactorChallengeSchema>;
+
+export type UsageHourly = typeof usageHourly.$inferSelect;
+export type InsertUsageHourly = z.infer<typeof insertUsageHourlySchema>;
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type InsertRateLimit = z.infer<typeof insertRateLimitSchema>;
+
 export type Workspace = typeof workspaces.$inferSelect;
 export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
 
 export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
 export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
 
+export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
+export type InsertWorkspaceInvite = z.infer<typeof insertWorkspaceInviteSchema>;
+
+// Highest first; each role can do everything the roles after it can
+export const WORKSPACE_ROLES = ["owner", "admin", "member", "viewer"] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+// What an API key may do; signed-in sessions can do everything
+export const API_KEY_SCOPES = ["requests:read", "endpoints:manage", "requests:replay"] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
 // Backward compatibility aliases for frontend
 export type Webhook = Endpoint;
 export type WebhookRequest = Request;
@@ -95,6 +375,75 @@ export const insertWebhookSchema = insertEndpointSchema;
 export const WS_EVENTS = {
   NEW_REQUEST: 'new-request',
   TUNNEL_REQUEST: 'tunnel-request',
+  TUNNEL_RESPONSE: 'tunnel-response',
   JOIN_DASHBOARD: 'join-dashboard',
   REGISTER_TUNNEL: 'register-tunnel',
+  FORWARD_RESULT: 'forward-result',
+  REQUEST_REJECTED: 'request-rejected',
+  TUNNELS: 'tunnels',
 } as const;
+
+/**
+ * Payload of JOIN_DASHBOARD and REGISTER_TUNNEL. viewerToken is required for anonymous
+ * endpoints; a bare endpoint id is still accepted from older clients.
+ */
+export interface SubscribePayload {
+  endpointId: string;
+  viewerToken?: string;
+}
+
+// Payload of REGISTER_TUNNEL; name identifies the client for routing rules and on the dashboard
+export interface RegisterTunnelPayload extends SubscribePayload {
+  name?: string;
+}
+
+// Acknowledgement for JOIN_DASHBOARD and REGISTER_TUNNEL
+export interface SubscribeAck {
+  ok: boolean;
+  message?: string;
+}
+
+/**
+ * Payload of TUNNEL_REQUEST: the captured request plus the id its reply must carry.
+ * redelivered is set when the delivery comes from the backlog and may have been seen before.
+ */
+export type TunnelRequestEvent = Request & {
+  correlationId: string;
+  redelivered: boolean;
+};
+
+// Payload of TUNNEL_RESPONSE, sent by the CLI with the local service's response or the error it hit.
+// It also acknowledges the delivery, which is then removed from the backlog.
+export interface TunnelResponseEvent {
+  correlationId: string;
+  targetUrl: string; // Local URL the request was sent to
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  bodyEncoding?: "utf8" | "base64";
+  error?: string;
+}
+
+// A connected tunnel client, as listed on the dashboard
+export interface TunnelClientInfo {
+  id: string; // Socket id, unique per connection
+  name: string;
+  connectedAt: string;
+  handled: number; // Deliveries it has replied to since connecting, first or not
+}
+
+// Payload of TUNNELS, sent to dashboards when a tunnel connects, disconnects or answers
+export interface TunnelsEvent {
+  endpointId: string;
+  tunnels: TunnelClientInfo[];
+}
+
+// Payload of REQUEST_REJECTED, sent when a delivery is turned away with a 429
+export interface RequestRejectedEvent {
+  endpointId: string;
+  method: string;
+  path: string;
+  reason: "rate_limit" | "quota";
+  message: string;
+  timestamp: string;
+}